@@ -0,0 +1,202 @@
+import { parseArgs } from "util";
+import { parseSpecializations } from "../main/data/parser";
+import { snapshotId } from "../main/data/cache-file";
+import { loadLoadoutFile, loadTalentData } from "./data";
+import {
+  countLoadout,
+  decodeToLoadout,
+  formatCountReport,
+  formatPatchReport,
+  generateLoadout,
+  remapSavedLoadout,
+} from "./commands";
+import type { ExportFormat } from "./commands";
+import type { SamplingMode } from "../shared/sampling";
+import { findLoadoutSpec } from "../shared/loadout";
+import { checkLoadout } from "../shared/loadout-format";
+import { parseTalentSource } from "../shared/talent-source";
+import type {
+  Loadout,
+  Specialization,
+  TalentDataSource,
+} from "../shared/types";
+
+const SAMPLING_MODES: SamplingMode[] = [
+  "even",
+  "random",
+  "stratified",
+  "diverse",
+];
+
+const USAGE = `Usage: talent-combinator <command> [options]
+
+Commands:
+  count <loadout.json>       Print per-tree and total build counts
+  generate <loadout.json>    Print SimC profilesets for every matching build
+  decode <talent-string>     Print a loadout that pins every talent in the string
+  migrate <loadout.json>     Print the loadout carried over to the current
+                             talent data, with a report on stderr
+
+Options:
+  --data <talents.json>      Talent data file (default: the desktop app's cache)
+  --source <source>          Cached talent data of live, ptr, beta or a custom
+                             URL (default: the source picked in the app)
+  --snapshot <id>            Talent data snapshot stored by the app (default:
+                             the pinned one, else the latest fetch)
+  --format simc|hash         generate: entry-based profilesets or talent hashes
+  --reference <string>       generate --format hash: talent string whose tree
+                             hash is reused for every exported build
+  --sample <mode>            generate: how to pick builds past the limit —
+                             even (default), random, stratified or diverse
+  --limit <n>                generate: maximum profilesets (default 6399)
+  --seed <n>                 generate: seed for random/stratified/diverse
+  --stratify <nodeId>        generate --sample stratified: node to split on
+  --json                     count: print the report as JSON
+  --from <talents.json>      migrate: talent data the loadout was saved against
+                             (default: its snapshot, if the app stored it)
+  -h, --help                 Show this help`;
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`);
+  process.exit(1);
+}
+
+/**
+ * Reads a loadout file and checks it against the talent data, warning on
+ * stderr about talents that changed or are gone.
+ */
+function readLoadout(specs: Specialization[], path: string): Loadout {
+  const loadout = loadLoadoutFile(path);
+  const spec = findLoadoutSpec(specs, loadout);
+  if (!spec) return loadout;
+  const checked = checkLoadout(loadout, spec);
+  for (const issue of checked.issues) {
+    process.stderr.write(`warning: ${issue.message}\n`);
+  }
+  return checked.loadout;
+}
+
+function sourceOption(value?: string): TalentDataSource | undefined {
+  if (value == null) return undefined;
+  try {
+    const isUrl = /^https?:\/\//.test(value);
+    return parseTalentSource(
+      isUrl ? { kind: "url", url: value } : { kind: value },
+    );
+  } catch (e) {
+    fail(`--source: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+function intOption(name: string, value?: string): number | undefined {
+  if (value == null) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} must be an integer`);
+  return n;
+}
+
+function main(argv: string[]): void {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      data: { type: "string" },
+      source: { type: "string" },
+      snapshot: { type: "string" },
+      format: { type: "string", default: "simc" },
+      reference: { type: "string" },
+      sample: { type: "string", default: "even" },
+      limit: { type: "string" },
+      seed: { type: "string" },
+      stratify: { type: "string" },
+      json: { type: "boolean", default: false },
+      from: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, target] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (!target) fail(`${command}: missing argument\n\n${USAGE}`);
+  if (values.sample === "stratified" && values.stratify == null) {
+    fail(`${command}: --sample stratified needs --stratify\n\n${USAGE}`);
+  }
+
+  const source = sourceOption(values.source);
+  const data = loadTalentData(values.data, values.snapshot, source);
+  const specs = parseSpecializations(data);
+
+  switch (command) {
+    case "count": {
+      const report = countLoadout(specs, readLoadout(specs, target));
+      const output = values.json
+        ? JSON.stringify(
+            report,
+            (_key, v) => (typeof v === "bigint" ? v.toString() : v),
+            2,
+          )
+        : formatCountReport(report);
+      process.stdout.write(`${output}\n`);
+      break;
+    }
+    case "generate": {
+      const format = values.format as ExportFormat;
+      if (format !== "simc" && format !== "hash") {
+        fail(`Unknown format "${values.format}" (expected simc or hash)`);
+      }
+      const mode = values.sample as SamplingMode;
+      if (!SAMPLING_MODES.includes(mode)) {
+        fail(
+          `Unknown sampling mode "${values.sample}" (expected ${SAMPLING_MODES.join(", ")})`,
+        );
+      }
+      const output = generateLoadout(specs, readLoadout(specs, target), {
+        format,
+        reference: values.reference,
+        sampling: {
+          mode,
+          limit: intOption("limit", values.limit),
+          seed: intOption("seed", values.seed),
+          stratifyNodeId: intOption("stratify", values.stratify),
+        },
+      });
+      process.stdout.write(`${output}\n`);
+      break;
+    }
+    case "decode": {
+      const loadout = decodeToLoadout(specs, target);
+      process.stdout.write(`${JSON.stringify(loadout, null, 2)}\n`);
+      break;
+    }
+    case "migrate": {
+      // Without --from, the snapshot the loadout was saved with
+      const loadout = loadLoadoutFile(target);
+      if (!values.from && !loadout.dataVersion) {
+        fail("migrate: --from <talents.json> is required");
+      }
+      const migrated = remapSavedLoadout(
+        loadout,
+        values.from
+          ? loadTalentData(values.from)
+          : loadTalentData(undefined, loadout.dataVersion, source),
+        data,
+        snapshotId(data),
+      );
+      const report = formatPatchReport(migrated.report);
+      if (report) process.stderr.write(`${report}\n`);
+      process.stdout.write(`${JSON.stringify(migrated.loadout, null, 2)}\n`);
+      break;
+    }
+    default:
+      fail(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (e) {
+  fail(e instanceof Error ? e.message : String(e));
+}
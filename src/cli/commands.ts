@@ -0,0 +1,235 @@
+import { countTreeBuilds } from "../shared/build-counter";
+import {
+  countAcrossTrees,
+  hasCrossTreeConditions,
+} from "../shared/cross-tree";
+import {
+  constraintsForTree,
+  importHash,
+  resolveLoadout,
+  treesForLoadout,
+} from "../shared/loadout";
+import { LOADOUT_VERSION, loadoutNodes } from "../shared/loadout-format";
+import { remapLoadout } from "../shared/patch-migration";
+import type { PatchReport } from "../shared/patch-migration";
+import type { ResolvedLoadout } from "../shared/loadout";
+import {
+  formatProfilesetCombos,
+  formatHashProfilesetCombos,
+} from "../shared/profilesets";
+import { sampleBuilds } from "../shared/sampling";
+import type { SamplingOptions } from "../shared/sampling";
+import { decodeTalentHash } from "../shared/hash-decoder";
+import { MAX_PROFILESETS } from "../shared/constants";
+import type {
+  CountResult,
+  Loadout,
+  RawSpecData,
+  Specialization,
+  TalentTree,
+} from "../shared/types";
+
+export type ExportFormat = "simc" | "hash";
+
+export interface TreeCountReport {
+  tree: TalentTree["type"];
+  name?: string;
+  count: bigint;
+  warnings: CountResult["warnings"];
+}
+
+export interface CountReport {
+  className: string;
+  specName: string;
+  heroTreeName?: string;
+  trees: TreeCountReport[];
+  total: bigint;
+}
+
+function resolveOrThrow(
+  specs: Specialization[],
+  loadout: Loadout,
+): ResolvedLoadout {
+  const resolved = resolveLoadout(specs, loadout);
+  if (!resolved) {
+    throw new Error(
+      `No talent data for ${loadout.className} ${loadout.specName}`,
+    );
+  }
+  return resolved;
+}
+
+function countResolved(resolved: ResolvedLoadout): CountReport {
+  const loadoutTrees = treesForLoadout(resolved);
+  const trees: TreeCountReport[] = loadoutTrees.map((tree) => {
+    const result = countTreeBuilds(
+      tree,
+      constraintsForTree(tree, resolved.constraints),
+    );
+    return {
+      tree: tree.type,
+      name: tree.subTreeName,
+      count: result.count,
+      warnings: result.warnings,
+    };
+  });
+
+  return {
+    className: resolved.spec.className,
+    specName: resolved.spec.specName,
+    heroTreeName: resolved.heroTree?.subTreeName,
+    trees,
+    // Per-tree counts can't see conditions on other trees' talents
+    total: hasCrossTreeConditions(loadoutTrees, resolved.constraints)
+      ? countAcrossTrees(loadoutTrees, resolved.constraints)
+      : trees.reduce((product, t) => product * t.count, 1n),
+  };
+}
+
+export function countLoadout(
+  specs: Specialization[],
+  loadout: Loadout,
+): CountReport {
+  return countResolved(resolveOrThrow(specs, loadout));
+}
+
+export function formatCountReport(report: CountReport): string {
+  const title = `${report.className} ${report.specName}`;
+  const lines = [
+    report.heroTreeName ? `${title} (${report.heroTreeName})` : title,
+  ];
+  for (const t of report.trees) {
+    lines.push(`${t.tree}: ${t.count.toLocaleString()}`);
+  }
+  lines.push(`total: ${report.total.toLocaleString()}`);
+  for (const t of report.trees) {
+    for (const w of t.warnings) {
+      lines.push(`${w.severity}: ${t.tree}: ${w.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export interface GenerateOptions {
+  format: ExportFormat;
+  // Talent import string whose tree hash is reused for exported hashes.
+  reference?: string;
+  // How to pick builds when the total exceeds the limit (default: even,
+  // limited to MAX_PROFILESETS).
+  sampling?: Partial<SamplingOptions>;
+}
+
+export function generateLoadout(
+  specs: Specialization[],
+  loadout: Loadout,
+  options: GenerateOptions,
+): string {
+  const resolved = resolveOrThrow(specs, loadout);
+  const report = countResolved(resolved);
+  if (report.total === 0n) {
+    throw new Error("No builds match the loadout constraints");
+  }
+
+  const trees = treesForLoadout(resolved);
+  const sampling = options.sampling ?? {};
+  const [combos] = sampleBuilds(
+    [{ trees, constraints: resolved.constraints }],
+    {
+      mode: sampling.mode ?? "even",
+      limit: sampling.limit ?? MAX_PROFILESETS,
+      seed: sampling.seed,
+      stratifyNodeId: sampling.stratifyNodeId,
+    },
+  );
+
+  if (options.format === "simc") {
+    return formatProfilesetCombos(combos, trees);
+  }
+
+  if (!options.reference) {
+    throw new Error("Hash export needs --reference <talent string>");
+  }
+  const decoded = decodeTalentHash(options.reference, []);
+  if (!decoded) throw new Error("Invalid --reference talent string");
+
+  return formatHashProfilesetCombos(combos, trees, {
+    spec: resolved.spec,
+    sameClassSpecs: specs.filter(
+      (s) => s.className === resolved.spec.className,
+    ),
+    treeHashBytes: decoded.treeHashBytes,
+    heroTree: resolved.heroTree,
+  });
+}
+
+/** Converts a talent import string into a loadout of "always" constraints. */
+export function decodeToLoadout(
+  specs: Specialization[],
+  hashStr: string,
+): Loadout {
+  const imported = importHash(specs, hashStr);
+  if (!imported) {
+    throw new Error(
+      "Invalid talent string, unknown spec, or no talents selected",
+    );
+  }
+  return {
+    version: LOADOUT_VERSION,
+    className: imported.spec.className,
+    specName: imported.spec.specName,
+    specId: imported.spec.specId,
+    heroTreeName: imported.heroTree?.subTreeName,
+    nodes: loadoutNodes(imported.spec, imported.constraints),
+    constraints: imported.constraints,
+    treeHash: imported.treeHashBytes,
+  };
+}
+
+function findRawSpec(
+  data: RawSpecData[],
+  loadout: Loadout,
+): RawSpecData | undefined {
+  const byId =
+    loadout.specId != null
+      ? data.find((s) => s.specId === loadout.specId)
+      : undefined;
+  return (
+    byId ??
+    data.find(
+      (s) =>
+        s.className === loadout.className && s.specName === loadout.specName,
+    )
+  );
+}
+
+/**
+ * Carries a loadout saved against `oldData` over to `newData`, matching
+ * talents by spell, name and position. `dataVersion` names the new data.
+ */
+export function remapSavedLoadout(
+  loadout: Loadout,
+  oldData: RawSpecData[],
+  newData: RawSpecData[],
+  dataVersion?: string,
+): { loadout: Loadout; report: PatchReport } {
+  const from = findRawSpec(oldData, loadout);
+  const to = findRawSpec(newData, loadout);
+  const name = `${loadout.className} ${loadout.specName}`;
+  if (!from) throw new Error(`No ${name} talents in the old data`);
+  if (!to) throw new Error(`No ${name} talents in the new data`);
+  return remapLoadout(loadout, from, to, dataVersion);
+}
+
+export function formatPatchReport(report: PatchReport): string {
+  const lines: string[] = [];
+  for (const r of report.remapped) {
+    lines.push(`remapped: ${r.name}: ${r.oldId} → ${r.newId} (by ${r.by})`);
+  }
+  for (const a of report.ambiguous) {
+    lines.push(
+      `ambiguous: ${a.name} (${a.nodeId}) could be ${a.candidates.join(", ")}`,
+    );
+  }
+  for (const d of report.dropped) lines.push(`dropped: ${d.message}`);
+  return lines.join("\n");
+}
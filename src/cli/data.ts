@@ -0,0 +1,114 @@
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import {
+  CACHE_DIR_NAME,
+  CACHE_FILE_NAME,
+  SNAPSHOT_DIR_NAME,
+  findSnapshot,
+  readSelectedSource,
+  readSnapshot,
+  readSnapshotIndex,
+  readTalentFile,
+  sourceCacheDir,
+} from "../main/data/cache-file";
+import { parseLoadout } from "../shared/loadout-format";
+import type {
+  Loadout,
+  RawSpecData,
+  TalentDataSource,
+} from "../shared/types";
+
+// Electron names the userData directory after productName in packaged
+// builds and after the package name in dev builds.
+const APP_DIR_NAMES = ["Talent Combinator", "talent-combinator"];
+
+function appDataRoot(): string {
+  const home = homedir();
+  switch (process.platform) {
+    case "darwin":
+      return join(home, "Library", "Application Support");
+    case "win32":
+      return process.env.APPDATA ?? join(home, "AppData", "Roaming");
+    default:
+      return process.env.XDG_CONFIG_HOME ?? join(home, ".config");
+  }
+}
+
+/** Cache directories the desktop app may have written. */
+export function defaultCacheDirs(): string[] {
+  const root = appDataRoot();
+  return APP_DIR_NAMES.map((name) => join(root, name, CACHE_DIR_NAME));
+}
+
+/** Locations of the talents.json cache written by the desktop app. */
+export function defaultCachePaths(): string[] {
+  return defaultCacheDirs().map((dir) => join(dir, CACHE_FILE_NAME));
+}
+
+// The snapshot named by `id`, else the one pinned in the app, if any
+function readStoredSnapshot(
+  sourceDir: string,
+  id?: string,
+): RawSpecData[] | null {
+  const dir = join(sourceDir, SNAPSHOT_DIR_NAME);
+  const index = readSnapshotIndex(dir);
+  const wanted = id ?? index.pinned;
+  const snapshot = wanted != null ? findSnapshot(index, wanted) : undefined;
+  return snapshot ? readSnapshot(dir, snapshot.id) : null;
+}
+
+/**
+ * Reads talent data from `path`, or from the app's cache of `source` (by
+ * default the source picked in the app): the snapshot named by `snapshot`
+ * (an id or a prefix of one), else the pinned snapshot, else the latest
+ * fetch.
+ */
+export function loadTalentData(
+  path?: string,
+  snapshot?: string,
+  source?: TalentDataSource,
+  cacheDirs = defaultCacheDirs(),
+): RawSpecData[] {
+  if (path) {
+    const data = readTalentFile(path);
+    if (!data) throw new Error(`Could not read talent data from ${path}`);
+    return data;
+  }
+
+  const sourceDirs = cacheDirs.map((dir) =>
+    sourceCacheDir(dir, source ?? readSelectedSource(dir)),
+  );
+  for (const dir of sourceDirs) {
+    const data = readStoredSnapshot(dir, snapshot);
+    if (data) return data;
+  }
+  if (snapshot) {
+    throw new Error(`No talent data snapshot matches "${snapshot}"`);
+  }
+  for (const dir of sourceDirs) {
+    const data = readTalentFile(join(dir, CACHE_FILE_NAME));
+    if (data) return data;
+  }
+  throw new Error(
+    "No cached talent data found — run the app once or pass --data <talents.json>",
+  );
+}
+
+export function loadLoadoutFile(path: string): Loadout {
+  if (!existsSync(path)) throw new Error(`Loadout file not found: ${path}`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    throw new Error(`Failed to parse loadout ${path}: ${e}`);
+  }
+  try {
+    return parseLoadout(parsed);
+  } catch (e) {
+    throw new Error(
+      `Invalid loadout ${path}: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { app } from "electron";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { BaseProfile } from "../../shared/types";
+
+const BASE_PROFILES_FILE_NAME = "base-profiles.json";
+
+function getBaseProfilesPath(): string {
+  return join(app.getPath("userData"), BASE_PROFILES_FILE_NAME);
+}
+
+export function readBaseProfiles(): BaseProfile[] {
+  const path = getBaseProfilesPath();
+  if (!existsSync(path)) return [];
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    return Array.isArray(parsed) ? (parsed as BaseProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeBaseProfiles(profiles: BaseProfile[]): void {
+  writeFileSync(getBaseProfilesPath(), JSON.stringify(profiles, null, 2));
+}
@@ -0,0 +1,181 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  statSync,
+} from "fs";
+import { join } from "path";
+import {
+  LIVE_SOURCE,
+  parseTalentSource,
+  sourceKey,
+} from "../../shared/talent-source";
+import type {
+  RawSpecData,
+  TalentDataSource,
+  TalentSnapshot,
+  TalentSnapshotList,
+} from "../../shared/types";
+
+// Kept free of Electron imports so the headless CLI can read the same cache.
+
+export const CACHE_DIR_NAME = "cache";
+export const CACHE_FILE_NAME = "talents.json";
+export const SNAPSHOT_DIR_NAME = "snapshots";
+const SNAPSHOT_INDEX_NAME = "index.json";
+const SOURCES_DIR_NAME = "sources";
+const SOURCE_FILE_NAME = "source.json";
+
+/**
+ * Where one source's talents.json and snapshots live. Live data stays at
+ * the top of the cache directory, where it was before sources existed.
+ */
+export function sourceCacheDir(
+  cacheDir: string,
+  source: TalentDataSource,
+): string {
+  return source.kind === "live"
+    ? cacheDir
+    : join(cacheDir, SOURCES_DIR_NAME, sourceKey(source));
+}
+
+/** The source picked in the app, or live if none was. */
+export function readSelectedSource(cacheDir: string): TalentDataSource {
+  try {
+    return parseTalentSource(
+      JSON.parse(readFileSync(join(cacheDir, SOURCE_FILE_NAME), "utf-8")),
+    );
+  } catch {
+    return LIVE_SOURCE;
+  }
+}
+
+export function writeSelectedSource(
+  cacheDir: string,
+  source: TalentDataSource,
+): void {
+  mkdirSync(cacheDir, { recursive: true });
+  writeFileSync(join(cacheDir, SOURCE_FILE_NAME), JSON.stringify(source));
+}
+
+export function readTalentFile(
+  path: string,
+  maxAgeMs?: number,
+): RawSpecData[] | null {
+  if (!existsSync(path)) return null;
+
+  try {
+    if (maxAgeMs != null) {
+      const stat = statSync(path);
+      const age = Date.now() - stat.mtimeMs;
+      if (age > maxAgeMs) return null;
+    }
+
+    const content = readFileSync(path, "utf-8");
+    return JSON.parse(content) as RawSpecData[];
+  } catch {
+    return null;
+  }
+}
+
+export function writeTalentFile(path: string, data: RawSpecData[]): void {
+  writeFileSync(path, JSON.stringify(data));
+}
+
+/** Checks that parsed JSON looks like a Raidbots talents.json. */
+export function parseTalentData(json: unknown): RawSpecData[] {
+  if (!Array.isArray(json) || json.length === 0) {
+    throw new Error("Expected a non-empty list of specializations");
+  }
+  json.forEach((spec, i) => {
+    if (
+      typeof spec?.specId !== "number" ||
+      typeof spec.className !== "string" ||
+      !Array.isArray(spec.classNodes) ||
+      !Array.isArray(spec.specNodes)
+    ) {
+      throw new Error(`Entry ${i + 1} is not a talent specialization`);
+    }
+  });
+  return json as RawSpecData[];
+}
+
+export function snapshotId(data: RawSpecData[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify(data))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+export function readSnapshotIndex(dir: string): TalentSnapshotList {
+  try {
+    const index = JSON.parse(
+      readFileSync(join(dir, SNAPSHOT_INDEX_NAME), "utf-8"),
+    ) as TalentSnapshotList;
+    const snapshots = [...index.snapshots].sort((a, b) =>
+      b.savedAt.localeCompare(a.savedAt),
+    );
+    return { snapshots, pinned: index.pinned ?? null };
+  } catch {
+    return { snapshots: [], pinned: null };
+  }
+}
+
+function writeSnapshotIndex(dir: string, index: TalentSnapshotList): void {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, SNAPSHOT_INDEX_NAME), JSON.stringify(index, null, 2));
+}
+
+/**
+ * Stores `data` under its content hash. Data that is already stored keeps
+ * its original date.
+ */
+export function storeSnapshot(
+  dir: string,
+  data: RawSpecData[],
+  source: TalentSnapshot["source"],
+  fileName?: string,
+): TalentSnapshot {
+  const id = snapshotId(data);
+  const index = readSnapshotIndex(dir);
+  const existing = index.snapshots.find((s) => s.id === id);
+  if (existing && existsSync(join(dir, `${id}.json`))) return existing;
+
+  const snapshot: TalentSnapshot = {
+    id,
+    savedAt: new Date().toISOString(),
+    source,
+    ...(fileName ? { fileName } : {}),
+  };
+  mkdirSync(dir, { recursive: true });
+  writeTalentFile(join(dir, `${id}.json`), data);
+  const snapshots = index.snapshots.filter((s) => s.id !== id);
+  writeSnapshotIndex(dir, { ...index, snapshots: [snapshot, ...snapshots] });
+  return snapshot;
+}
+
+/** Finds a snapshot by its id or an unambiguous prefix of it. */
+export function findSnapshot(
+  index: TalentSnapshotList,
+  id: string,
+): TalentSnapshot | undefined {
+  const exact = index.snapshots.find((s) => s.id === id);
+  if (exact) return exact;
+  const matches = index.snapshots.filter((s) => s.id.startsWith(id));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+export function readSnapshot(dir: string, id: string): RawSpecData[] | null {
+  return readTalentFile(join(dir, `${id}.json`));
+}
+
+/** Pins a stored snapshot, or clears the pin when `id` is null. */
+export function pinSnapshot(dir: string, id: string | null): void {
+  const index = readSnapshotIndex(dir);
+  if (id != null && !index.snapshots.some((s) => s.id === id)) {
+    throw new Error(`Unknown talent data snapshot ${id}`);
+  }
+  writeSnapshotIndex(dir, { ...index, pinned: id });
+}
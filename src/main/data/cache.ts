@@ -1,49 +1,108 @@
 import { app } from "electron";
-import {
-  existsSync,
-  mkdirSync,
-  readFileSync,
-  writeFileSync,
-  statSync,
-} from "fs";
+import { existsSync, mkdirSync } from "fs";
 import { join } from "path";
 import { CACHE_TTL_MS } from "../../shared/constants";
-import type { RawSpecData } from "../../shared/types";
+import type {
+  RawSpecData,
+  TalentDataSource,
+  TalentSnapshot,
+  TalentSnapshotList,
+} from "../../shared/types";
+import {
+  CACHE_DIR_NAME,
+  CACHE_FILE_NAME,
+  SNAPSHOT_DIR_NAME,
+  pinSnapshot,
+  readSelectedSource,
+  readSnapshot,
+  readSnapshotIndex,
+  readTalentFile,
+  snapshotId,
+  sourceCacheDir,
+  storeSnapshot,
+  writeSelectedSource,
+  writeTalentFile,
+} from "./cache-file";
 
-function getCacheDir(): string {
-  const dir = join(app.getPath("userData"), "cache");
+function getCacheDir(source?: TalentDataSource): string {
+  const root = join(app.getPath("userData"), CACHE_DIR_NAME);
+  const dir = source ? sourceCacheDir(root, source) : root;
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
   return dir;
 }
 
-function getCachePath(): string {
-  return join(getCacheDir(), "talents.json");
+function getCachePath(source: TalentDataSource): string {
+  return join(getCacheDir(source), CACHE_FILE_NAME);
 }
 
-export function readCache(ignoreTTL = false): RawSpecData[] | null {
-  const path = getCachePath();
-  if (!existsSync(path)) return null;
+function getSnapshotDir(source: TalentDataSource): string {
+  return join(getCacheDir(source), SNAPSHOT_DIR_NAME);
+}
+
+export function readSource(): TalentDataSource {
+  return readSelectedSource(getCacheDir());
+}
+
+export function writeSource(source: TalentDataSource): void {
+  writeSelectedSource(getCacheDir(), source);
+}
+
+export function readCache(
+  source: TalentDataSource,
+  ignoreTTL = false,
+): RawSpecData[] | null {
+  return readTalentFile(
+    getCachePath(source),
+    ignoreTTL ? undefined : CACHE_TTL_MS,
+  );
+}
 
+export function writeCache(
+  source: TalentDataSource,
+  data: RawSpecData[],
+): void {
   try {
-    if (!ignoreTTL) {
-      const stat = statSync(path);
-      const age = Date.now() - stat.mtimeMs;
-      if (age > CACHE_TTL_MS) return null;
-    }
-
-    const content = readFileSync(path, "utf-8");
-    return JSON.parse(content) as RawSpecData[];
-  } catch {
-    return null;
+    writeTalentFile(getCachePath(source), data);
+  } catch (e) {
+    console.error("Failed to write talent cache:", e);
   }
 }
 
-export function writeCache(data: RawSpecData[]): void {
+export function listSnapshots(source: TalentDataSource): TalentSnapshotList {
+  return readSnapshotIndex(getSnapshotDir(source));
+}
+
+export function saveSnapshot(
+  source: TalentDataSource,
+  data: RawSpecData[],
+  origin: TalentSnapshot["source"],
+  fileName?: string,
+): TalentSnapshot {
   try {
-    writeFileSync(getCachePath(), JSON.stringify(data));
+    return storeSnapshot(getSnapshotDir(source), data, origin, fileName);
   } catch (e) {
-    console.error("Failed to write talent cache:", e);
+    console.error("Failed to store talent snapshot:", e);
+    return {
+      id: snapshotId(data),
+      savedAt: new Date().toISOString(),
+      source: origin,
+      fileName,
+    };
   }
 }
+
+export function loadSnapshot(
+  source: TalentDataSource,
+  id: string,
+): RawSpecData[] | null {
+  return readSnapshot(getSnapshotDir(source), id);
+}
+
+export function setPinnedSnapshot(
+  source: TalentDataSource,
+  id: string | null,
+): void {
+  pinSnapshot(getSnapshotDir(source), id);
+}
@@ -1,32 +1,35 @@
-import { net } from "electron";
-import { RAIDBOTS_TALENT_URL } from "../../shared/constants";
-import type { RawSpecData } from "../../shared/types";
+import { readFileSync } from "fs";
+import { RAIDBOTS_DATA_URL } from "../../shared/constants";
+import { sourceLabel, sourceUrl } from "../../shared/talent-source";
+import type { RawSpecData, TalentDataSource } from "../../shared/types";
+import { parseTalentData } from "./cache-file";
 
-export async function fetchTalentJSON(): Promise<RawSpecData[]> {
-  return new Promise((resolve, reject) => {
-    const request = net.request(RAIDBOTS_TALENT_URL);
+// Kept free of Electron imports: the app passes Electron's `net.fetch`, so
+// requests go through the system proxy, while tests point `baseUrl` or a
+// custom URL source at a local server.
 
-    request.on("response", (response) => {
-      if (response.statusCode !== 200) {
-        reject(new Error(`Raidbots returned ${response.statusCode}`));
-        return;
-      }
-
-      const chunks: Buffer[] = [];
-      response.on("data", (chunk) => chunks.push(chunk));
-      response.on("end", () => {
-        try {
-          const json = Buffer.concat(chunks).toString("utf-8");
-          const data = JSON.parse(json) as RawSpecData[];
-          resolve(data);
-        } catch (e) {
-          reject(new Error(`Failed to parse talent JSON: ${e}`));
-        }
-      });
-      response.on("error", reject);
-    });
-
-    request.on("error", reject);
-    request.end();
-  });
+export async function fetchTalentJSON(
+  source: TalentDataSource,
+  fetchFn: (url: string) => Promise<Response> = fetch,
+  baseUrl = RAIDBOTS_DATA_URL,
+): Promise<RawSpecData[]> {
+  let json: unknown;
+  if (source.kind === "file") {
+    try {
+      json = JSON.parse(readFileSync(source.path, "utf-8"));
+    } catch (e) {
+      throw new Error(`Failed to read talent JSON from ${source.path}: ${e}`);
+    }
+  } else {
+    const response = await fetchFn(sourceUrl(source, baseUrl)!);
+    if (response.status !== 200) {
+      throw new Error(`${sourceLabel(source)} returned ${response.status}`);
+    }
+    try {
+      json = await response.json();
+    } catch (e) {
+      throw new Error(`Failed to parse talent JSON: ${e}`);
+    }
+  }
+  return parseTalentData(json);
 }
@@ -1,10 +1,34 @@
 import { app, ipcMain, dialog, BrowserWindow, net } from "electron";
-import { readFileSync, writeFileSync } from "fs";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, join } from "path";
 import { fetchTalentJSON } from "./data/raidbots-client";
-import { readCache, writeCache } from "./data/cache";
+import {
+  listSnapshots,
+  loadSnapshot,
+  readCache,
+  readSource,
+  saveSnapshot,
+  setPinnedSnapshot,
+  writeCache,
+  writeSource,
+} from "./data/cache";
+import { parseTalentData } from "./data/cache-file";
+import { readBaseProfiles, writeBaseProfiles } from "./data/base-profiles";
 import { parseSpecializations } from "./data/parser";
 import { WOWHEAD_TOOLTIP_URL } from "../shared/constants";
-import type { TalentDataResult, SpellTooltip, Loadout } from "../shared/types";
+import { parseLoadout } from "../shared/loadout-format";
+import { parseTalentSource, sourceLabel } from "../shared/talent-source";
+import type {
+  RawSpecData,
+  TalentDataResult,
+  TalentDataSource,
+  TalentSnapshot,
+  TalentSnapshotList,
+  SpellTooltip,
+  Loadout,
+  ExportFile,
+  BaseProfile,
+} from "../shared/types";
 
 const tooltipCache = new Map<number, SpellTooltip | null>();
 
@@ -103,31 +127,173 @@ function fetchTooltip(spellId: number): Promise<SpellTooltip | null> {
   });
 }
 
+function dataResult(
+  source: TalentDataSource,
+  raw: RawSpecData[],
+  snapshot: TalentSnapshot,
+  cached: boolean,
+): TalentDataResult {
+  return {
+    specs: parseSpecializations(raw),
+    version: snapshot.id,
+    cached,
+    snapshot,
+    source,
+  };
+}
+
+/**
+ * Loads the pinned snapshot of `source` if there is one, else fetches it,
+ * falling back to its newest snapshot or cached file when offline.
+ */
+async function loadTalentData(
+  source: TalentDataSource,
+): Promise<TalentDataResult> {
+  const { snapshots, pinned } = listSnapshots(source);
+  const pinnedSnapshot = snapshots.find((s) => s.id === pinned);
+  const pinnedData = pinnedSnapshot && loadSnapshot(source, pinnedSnapshot.id);
+  if (pinnedSnapshot && pinnedData) {
+    return dataResult(source, pinnedData, pinnedSnapshot, true);
+  }
+
+  try {
+    const raw = await fetchTalentJSON(source, net.fetch);
+    writeCache(source, raw);
+    const snapshot = saveSnapshot(source, raw, "fetched");
+    return dataResult(source, raw, snapshot, false);
+  } catch (e) {
+    console.error(`Failed to fetch talent data (${sourceLabel(source)}):`, e);
+    // The newest snapshot may be an imported file, for offline use
+    for (const snapshot of snapshots) {
+      const stored = loadSnapshot(source, snapshot.id);
+      if (stored) return dataResult(source, stored, snapshot, true);
+    }
+    const cached = readCache(source, true);
+    if (cached) {
+      const snapshot = saveSnapshot(source, cached, "fetched");
+      return dataResult(source, cached, snapshot, true);
+    }
+    throw new Error(
+      `Failed to fetch talent data from ${sourceLabel(source)} and no ` +
+        `cached data available: ${e instanceof Error ? e.message : e}`,
+    );
+  }
+}
+
+/** Parsed JSON of a file the user picks, or null if cancelled or invalid. */
+async function openJsonFile(
+  filterName: string,
+  what: string,
+): Promise<unknown> {
+  const win = BrowserWindow.getFocusedWindow();
+  if (!win) return null;
+
+  const result = await dialog.showOpenDialog(win, {
+    filters: [
+      { name: filterName, extensions: ["json"] },
+      { name: "All Files", extensions: ["*"] },
+    ],
+    properties: ["openFile"],
+  });
+
+  if (result.canceled || !result.filePaths.length) return null;
+
+  try {
+    return JSON.parse(readFileSync(result.filePaths[0], "utf-8"));
+  } catch (e) {
+    console.error(`Failed to load ${what}:`, e);
+    return null;
+  }
+}
+
 export function registerIPC(): void {
-  ipcMain.handle("fetch-talent-data", async (): Promise<TalentDataResult> => {
-    try {
-      const raw = await fetchTalentJSON();
-      writeCache(raw);
-      return {
-        specs: parseSpecializations(raw),
-        version: "live",
-        cached: false,
-      };
-    } catch {
-      const cached = readCache(true);
-      if (cached) {
-        return {
-          specs: parseSpecializations(cached),
-          version: "live",
-          cached: true,
-        };
+  ipcMain.handle("fetch-talent-data", (): Promise<TalentDataResult> => {
+    return loadTalentData(readSource());
+  });
+
+  ipcMain.handle(
+    "set-talent-source",
+    async (_event, json: unknown): Promise<TalentDataResult> => {
+      const source = parseTalentSource(json);
+      const result = await loadTalentData(source);
+      writeSource(source);
+      return result;
+    },
+  );
+
+  ipcMain.handle("pick-talent-file", async (): Promise<string | null> => {
+    const win = BrowserWindow.getFocusedWindow();
+    if (!win) return null;
+
+    const result = await dialog.showOpenDialog(win, {
+      filters: [
+        { name: "Talent Data", extensions: ["json"] },
+        { name: "All Files", extensions: ["*"] },
+      ],
+      properties: ["openFile"],
+    });
+
+    if (result.canceled || !result.filePaths.length) return null;
+    return result.filePaths[0];
+  });
+
+  ipcMain.handle(
+    "list-talent-snapshots",
+    (): TalentSnapshotList => listSnapshots(readSource()),
+  );
+
+  ipcMain.handle(
+    "load-talent-snapshot",
+    (_event, id: string): TalentDataResult => {
+      const source = readSource();
+      const { snapshots } = listSnapshots(source);
+      const snapshot = snapshots.find((s) => s.id === id);
+      const raw = snapshot && loadSnapshot(source, id);
+      if (!snapshot || !raw) {
+        throw new Error(`Talent data snapshot ${id} is missing`);
       }
-      throw new Error(
-        "Failed to fetch talent data and no cached data available",
-      );
-    }
+      return dataResult(source, raw, snapshot, true);
+    },
+  );
+
+  ipcMain.handle("pin-talent-snapshot", (_event, id: string | null): void => {
+    setPinnedSnapshot(readSource(), id);
   });
 
+  ipcMain.handle(
+    "import-talent-data",
+    async (): Promise<TalentDataResult | null> => {
+      const win = BrowserWindow.getFocusedWindow();
+      if (!win) return null;
+
+      const result = await dialog.showOpenDialog(win, {
+        filters: [
+          { name: "Talent Data", extensions: ["json"] },
+          { name: "All Files", extensions: ["*"] },
+        ],
+        properties: ["openFile"],
+      });
+
+      if (result.canceled || !result.filePaths.length) return null;
+
+      const path = result.filePaths[0];
+      try {
+        const source = readSource();
+        const raw = parseTalentData(JSON.parse(readFileSync(path, "utf-8")));
+        const snapshot = saveSnapshot(source, raw, "file", basename(path));
+        return dataResult(source, raw, snapshot, true);
+      } catch (e) {
+        console.error("Failed to import talent data:", e);
+        await dialog.showMessageBox(win, {
+          type: "error",
+          message: "Could not import this talent data",
+          detail: e instanceof Error ? e.message : String(e),
+        });
+        return null;
+      }
+    },
+  );
+
   ipcMain.handle(
     "fetch-spell-tooltip",
     (_event, spellId: number): Promise<SpellTooltip | null> => {
@@ -137,7 +303,12 @@ export function registerIPC(): void {
 
   ipcMain.handle(
     "save-file",
-    async (_event, content: string, defaultName: string): Promise<boolean> => {
+    async (
+      _event,
+      content: string,
+      defaultName: string,
+      sidecars: ExportFile[] = [],
+    ): Promise<boolean> => {
       const win = BrowserWindow.getFocusedWindow();
       if (!win) return false;
 
@@ -158,6 +329,10 @@ export function registerIPC(): void {
 
       try {
         writeFileSync(result.filePath, content, "utf-8");
+        const dir = dirname(result.filePath);
+        for (const file of sidecars) {
+          writeFileSync(join(dir, basename(file.name)), file.content, "utf-8");
+        }
         return true;
       } catch (e) {
         console.error("Failed to save file:", e);
@@ -166,6 +341,55 @@ export function registerIPC(): void {
     },
   );
 
+  ipcMain.handle(
+    "save-directory",
+    async (
+      _event,
+      files: ExportFile[],
+      dirName: string,
+    ): Promise<string | null> => {
+      const win = BrowserWindow.getFocusedWindow();
+      if (!win) return null;
+
+      const result = await dialog.showOpenDialog(win, {
+        title: "Choose where to create the export folder",
+        properties: ["openDirectory", "createDirectory"],
+      });
+
+      if (result.canceled || !result.filePaths.length) return null;
+
+      try {
+        // Names come from the renderer; keep every write inside the folder.
+        const dir = join(result.filePaths[0], basename(dirName));
+        mkdirSync(dir, { recursive: true });
+        for (const file of files) {
+          writeFileSync(join(dir, basename(file.name)), file.content, "utf-8");
+        }
+        return dir;
+      } catch (e) {
+        console.error("Failed to save export folder:", e);
+        return null;
+      }
+    },
+  );
+
+  ipcMain.handle("load-base-profiles", (): BaseProfile[] =>
+    readBaseProfiles(),
+  );
+
+  ipcMain.handle(
+    "save-base-profiles",
+    (_event, profiles: BaseProfile[]): boolean => {
+      try {
+        writeBaseProfiles(profiles);
+        return true;
+      } catch (e) {
+        console.error("Failed to save base profiles:", e);
+        return false;
+      }
+    },
+  );
+
   ipcMain.handle(
     "save-loadout",
     async (_event, data: Loadout): Promise<boolean> => {
@@ -209,14 +433,25 @@ export function registerIPC(): void {
 
     try {
       const content = readFileSync(result.filePaths[0], "utf-8");
-      const parsed = JSON.parse(content);
-      if (parsed?.version !== 1) return null;
-      return parsed as Loadout;
+      return parseLoadout(JSON.parse(content));
     } catch (e) {
       console.error("Failed to load loadout:", e);
+      await dialog.showMessageBox(win, {
+        type: "error",
+        message: "Could not load this loadout",
+        detail: e instanceof Error ? e.message : String(e),
+      });
       return null;
     }
   });
 
+  ipcMain.handle("load-sim-results", async (): Promise<unknown> => {
+    return openJsonFile("SimC / Raidbots JSON", "sim results");
+  });
+
+  ipcMain.handle("load-build-map", async (): Promise<unknown> => {
+    return openJsonFile("Build map", "build map");
+  });
+
   ipcMain.handle("get-app-version", () => app.getVersion());
 }
@@ -3,10 +3,23 @@ import type { ElectronAPI } from "../shared/types";
 
 const api: ElectronAPI = {
   fetchTalentData: () => ipcRenderer.invoke("fetch-talent-data"),
+  listTalentSnapshots: () => ipcRenderer.invoke("list-talent-snapshots"),
+  loadTalentSnapshot: (id) => ipcRenderer.invoke("load-talent-snapshot", id),
+  pinTalentSnapshot: (id) => ipcRenderer.invoke("pin-talent-snapshot", id),
+  importTalentData: () => ipcRenderer.invoke("import-talent-data"),
+  setTalentSource: (source) => ipcRenderer.invoke("set-talent-source", source),
+  pickTalentFile: () => ipcRenderer.invoke("pick-talent-file"),
   fetchSpellTooltip: (spellId: number) =>
     ipcRenderer.invoke("fetch-spell-tooltip", spellId),
-  saveFile: (content: string, defaultName: string) =>
-    ipcRenderer.invoke("save-file", content, defaultName),
+  saveFile: (content, defaultName, sidecars) =>
+    ipcRenderer.invoke("save-file", content, defaultName, sidecars),
+  saveDirectory: (files, dirName) =>
+    ipcRenderer.invoke("save-directory", files, dirName),
+  loadBaseProfiles: () => ipcRenderer.invoke("load-base-profiles"),
+  saveBaseProfiles: (profiles) =>
+    ipcRenderer.invoke("save-base-profiles", profiles),
+  loadSimResults: () => ipcRenderer.invoke("load-sim-results"),
+  loadBuildMap: () => ipcRenderer.invoke("load-build-map"),
   saveLoadout: (data) => ipcRenderer.invoke("save-loadout", data),
   loadLoadout: () => ipcRenderer.invoke("load-loadout"),
   getAppVersion: () => ipcRenderer.invoke("get-app-version"),
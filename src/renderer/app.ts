@@ -3,16 +3,38 @@ import { ClassPicker } from "./ui/class-picker";
 import { TalentTreeView } from "./ui/talent-tree";
 import { CombinationCounter } from "./ui/combination-counter";
 import { ExportPanel } from "./ui/export-panel";
+import { ResultsPanel } from "./ui/results-panel";
+import { HistoryPanel } from "./ui/history-panel";
+import { WorkspaceTabs } from "./ui/workspace-tabs";
+import { LoadoutReportDialog } from "./ui/loadout-report-dialog";
+import { NotesDialog } from "./ui/notes-dialog";
+import { SnapshotDialog } from "./ui/snapshot-dialog";
+import { runInWorker } from "./solver-client";
 import { countTreeBuilds } from "../shared/build-counter";
-import { decodeTalentHash } from "./hash-decoder";
-import { buildAllNodesForSpec } from "./hash-encoder";
+import { hasCrossTreeConditions } from "../shared/cross-tree";
+import { decodeTalentHash } from "../shared/hash-decoder";
+import {
+  findLoadoutSpec,
+  heroAutoConstraints,
+  importHash,
+} from "../shared/loadout";
+import {
+  LOADOUT_VERSION,
+  checkLoadout,
+  loadoutNodes,
+} from "../shared/loadout-format";
+import { buildFromPicks, locateBuild } from "../shared/build-location";
+import { sourceLabel } from "../shared/talent-source";
 import type {
   Constraint,
   CountResult,
+  CountWarning,
   Specialization,
-  TalentNode,
+  TalentDataResult,
   TalentTree,
   Loadout,
+  LoadoutRule,
+  LoadoutSpend,
 } from "../shared/types";
 import { SOLVER_DEBOUNCE_MS } from "../shared/constants";
 
@@ -29,6 +51,7 @@ const counterBar = document.getElementById("counter-bar")!;
 void new ClassPicker(sidebar);
 void new CombinationCounter(counterBar);
 void new ExportPanel(counterBar);
+const workspaceTabs = new WorkspaceTabs();
 
 let countDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 type CountKey = "classCount" | "specCount" | "heroCount";
@@ -118,6 +141,7 @@ function renderTrees(
   heroTree: TalentTree | null,
 ): void {
   mainContent.innerHTML = "";
+  mainContent.appendChild(workspaceTabs.element);
   counterBar.classList.add("visible");
   sidebarToggle.classList.add("visible");
   closeSidebar();
@@ -227,6 +251,14 @@ function detectTreeKey(nodeId: number): CountKey | null {
   return null;
 }
 
+function treeKey(tree: TalentTree): CountKey | null {
+  const spec = state.activeSpec;
+  if (tree === spec?.classTree) return "classCount";
+  if (tree === spec?.specTree) return "specCount";
+  if (tree === state.activeHeroTree) return "heroCount";
+  return null;
+}
+
 function scheduleCount(affectedTree?: CountKey): void {
   if (affectedTree) {
     dirtyTrees.add(affectedTree);
@@ -239,20 +271,63 @@ function scheduleCount(affectedTree?: CountKey): void {
   countDebounceTimer = setTimeout(runCount, SOLVER_DEBOUNCE_MS);
 }
 
-function publishCounts(): void {
+/**
+ * The total from per-tree counts, or from partitioned counting on the
+ * worker when a condition references another tree's talents. Falls back to
+ * the product, with a warning, when partitioned counting fails.
+ */
+async function exactTotal(
+  product: bigint,
+): Promise<{ total: bigint; warning?: CountWarning }> {
+  const trees = state.activeTrees;
+  if (!hasCrossTreeConditions(trees, state.constraints)) {
+    return { total: product };
+  }
+  try {
+    const total = await runInWorker({
+      type: "count-total",
+      trees,
+      constraints: state.constraints,
+    });
+    return { total };
+  } catch (err) {
+    console.error("[count] cross-tree total failed:", err);
+    const reason = err instanceof Error ? err.message : String(err);
+    return {
+      total: product,
+      warning: {
+        severity: "warning",
+        message:
+          "Approximate total, ignoring conditions between trees: " + reason,
+      },
+    };
+  }
+}
+
+// Bumped on every publish so a slower, older total is dropped
+let countGeneration = 0;
+
+async function publishCounts(): Promise<void> {
+  const generation = ++countGeneration;
   const classCount = cachedDetails.classCount.count;
   const specCount = cachedDetails.specCount.count;
   const heroCount = cachedDetails.heroCount.count;
+  const details = {
+    class: cachedDetails.classCount,
+    spec: cachedDetails.specCount,
+    hero: cachedDetails.heroCount,
+  };
+  const { total, warning } = await exactTotal(
+    classCount * specCount * heroCount,
+  );
+  if (generation !== countGeneration) return;
   state.updateCounts({
     classCount,
     specCount,
     heroCount,
-    totalCount: classCount * specCount * heroCount,
-    details: {
-      class: cachedDetails.classCount,
-      spec: cachedDetails.specCount,
-      hero: cachedDetails.heroCount,
-    },
+    totalCount: total,
+    ...(warning ? { totalWarning: warning } : {}),
+    details,
   });
 }
 
@@ -275,16 +350,41 @@ function runCount(): void {
 
   if (treesToCount.length === 0) return;
 
+  const conflicts: Promise<void>[] = [];
   for (const { tree, key } of treesToCount) {
     const constraints = state.getConstraintsForTree(tree);
+    const resolved = state.resolveTree(tree);
     try {
-      cachedDetails[key] = countTreeBuilds(tree, constraints);
+      // Tooltips count selections themselves while the overlay is off
+      const result = countTreeBuilds(resolved, constraints, {
+        selections: state.frequencyOverlay,
+      });
+      cachedDetails[key] = result;
+      // Searching for the conflict recounts once per constraint
+      if (result.count === 0n) {
+        conflicts.push(
+          runInWorker({ type: "conflict", tree: resolved, constraints })
+            .then((conflict) => {
+              if (conflict) result.warnings.push(conflict);
+            })
+            .catch((err) => {
+              console.error(`[count] ${key} conflict search failed:`, err);
+            }),
+        );
+      }
     } catch (err) {
       console.error(`[count] ${key} failed:`, err);
       cachedDetails[key] = { count: 0n, durationMs: 0, warnings: [] };
     }
   }
-  publishCounts();
+  void publishCounts();
+  // Conflicts show up once found, unless the counts have moved on
+  if (conflicts.length > 0) {
+    const generation = countGeneration;
+    void Promise.all(conflicts).then(() => {
+      if (generation === countGeneration) void publishCounts();
+    });
+  }
 }
 
 function computeImpliedPredecessors(
@@ -368,7 +468,7 @@ function validateAndSetError(triggerNodeId: number): boolean {
   if (!tree) return false;
 
   const constraints = state.getConstraintsForTree(tree);
-  const result = countTreeBuilds(tree, constraints);
+  const result = countTreeBuilds(state.resolveTree(tree), constraints);
   const error = result.warnings.find((w) => w.severity === "error");
   if (error) {
     const node = tree.nodes.get(triggerNodeId);
@@ -391,7 +491,7 @@ function revalidateAllTrees(): void {
 
   for (const tree of trees) {
     const constraints = state.getConstraintsForTree(tree);
-    const result = countTreeBuilds(tree, constraints);
+    const result = countTreeBuilds(state.resolveTree(tree), constraints);
     const error = result.warnings.find((w) => w.severity === "error");
     if (error) {
       // Update trigger to the actual erroring node (may differ after removal)
@@ -410,22 +510,14 @@ function revalidateAllTrees(): void {
   state.clearValidationError();
 }
 
-function isRealChoice(node: TalentNode): boolean {
-  return node.type === "choice" && !node.isApex;
-}
-
 function autoSelectHeroNodes(tree: TalentTree): void {
-  const toSelect: TalentNode[] = [];
-  for (const node of tree.nodes.values()) {
-    if (state.constraints.has(node.id)) continue;
-    if (!isRealChoice(node)) toSelect.push(node);
-  }
+  const toSelect = heroAutoConstraints(tree, state.constraints);
   if (toSelect.length === 0) return;
 
   // No implied-predecessor computation needed: every non-choice node is
   // explicitly user-owned, so there are no gaps to infer.
-  for (const node of toSelect) {
-    state.setConstraintQuiet({ nodeId: node.id, type: "always" });
+  for (const constraint of toSelect) {
+    state.setConstraintQuiet(constraint);
   }
   scheduleCount("heroCount");
 }
@@ -475,9 +567,64 @@ state.subscribe((event) => {
       if (key) scheduleCount(key);
       break;
     }
+    case "rules-changed":
+    case "spend-changed": {
+      revalidateAllTrees();
+      const key = treeKey(event.tree);
+      if (key) scheduleCount(key);
+      break;
+    }
+    case "frequency-overlay-changed":
+      // The last counts skipped selections while the overlay was off
+      if (state.frequencyOverlay) scheduleCount();
+      break;
+    case "constraints-restored": {
+      const spec = state.activeSpec;
+      if (!spec) break;
+      recomputeImpliedForTree(spec.classTree);
+      recomputeImpliedForTree(spec.specTree);
+      if (state.activeHeroTree) recomputeImpliedForTree(state.activeHeroTree);
+      revalidateAllTrees();
+      scheduleCount();
+      break;
+    }
   }
 });
 
+/**
+ * Where a talent string's build falls in the current constraints, before
+ * the import replaces them. Null when there's nothing to compare against.
+ */
+function describeImportLocation(hashStr: string): string | null {
+  const spec = state.activeSpec;
+  if (!spec || state.constraints.size === 0) return null;
+  const imported = importHash(state.specs, hashStr);
+  if (!imported || imported.spec !== spec) return null;
+
+  const trees = [spec.classTree, spec.specTree];
+  const heroTree = imported.heroTree ?? state.activeHeroTree;
+  if (heroTree) trees.push(heroTree);
+
+  const constraints = new Map<number, Constraint>();
+  for (const tree of trees) {
+    const treeConstraints =
+      tree.type === "hero"
+        ? state.getHeroTreeConstraints(tree)
+        : state.getConstraintsForTree(tree);
+    for (const [id, c] of treeConstraints) constraints.set(id, c);
+  }
+
+  const location = locateBuild(
+    trees.map((tree) => state.resolveTree(tree)),
+    constraints,
+    trees.map((tree) => buildFromPicks(tree, imported.constraints)),
+  );
+  if (!location.included) {
+    return `Outside your current constraints — excluded by ${location.reason}.`;
+  }
+  return `This build is #${(location.rank + 1n).toLocaleString()} of ${location.total.toLocaleString()} in your current constraints.`;
+}
+
 function showImportHashDialog(): Promise<{
   hashStr: string;
   specId: number;
@@ -528,7 +675,21 @@ function showImportHashDialog(): Promise<{
     errorMsg.style.cssText =
       "color: var(--color-red, #e74c3c); font-size: 12px; margin-top: 8px; display: none;";
 
-    body.append(label, textarea, errorMsg);
+    const locationMsg = document.createElement("p");
+    locationMsg.style.cssText =
+      "color: var(--text-secondary); font-size: 12px; margin-top: 8px;";
+
+    let locateTimer: ReturnType<typeof setTimeout> | null = null;
+    textarea.addEventListener("input", () => {
+      if (locateTimer) clearTimeout(locateTimer);
+      locateTimer = setTimeout(() => {
+        const val = textarea.value.trim();
+        const location = val ? describeImportLocation(val) : null;
+        locationMsg.textContent = location ?? "";
+      }, SOLVER_DEBOUNCE_MS);
+    });
+
+    body.append(label, textarea, errorMsg, locationMsg);
 
     const footer = document.createElement("div");
     footer.className = "export-dialog-footer";
@@ -599,107 +760,131 @@ async function importTalentHash(): Promise<void> {
     if (!ok) return;
   }
 
-  const sameClassSpecs = state.specs.filter(
-    (s) => s.className === targetSpec.className,
-  );
-  const { allNodes, allNodeMap } = buildAllNodesForSpec(sameClassSpecs);
-
-  const decoded = decodeTalentHash(hashStr, allNodes);
-  if (!decoded?.selections.length) return;
-  const { selections } = decoded;
-
-  state.setTreeHash(specId, decoded.treeHashBytes);
-
-  const subTreeAndSystemIds = new Set([
-    ...sameClassSpecs.flatMap((s) => s.subTreeNodes.map((n) => n.id)),
-    ...sameClassSpecs.flatMap((s) => s.systemNodeIds),
-  ]);
-  const currentSpecTalentIds = new Set([
-    ...targetSpec.classTree.nodes.keys(),
-    ...targetSpec.specTree.nodes.keys(),
-    ...targetSpec.heroTrees.flatMap((ht) => [...ht.nodes.keys()]),
-  ]);
-
-  // Detect hero tree from the subTreeNode's entryIndex.
-  const allSubTreeNodes = sameClassSpecs.flatMap((s) => s.subTreeNodes);
-  let detectedHeroTree: TalentTree | null = null;
-  for (const sel of selections) {
-    const stn = allSubTreeNodes.find((s) => s.id === sel.nodeId);
-    if (stn && sel.entryIndex !== undefined) {
-      const traitSubTreeId = stn.entries[sel.entryIndex]?.traitSubTreeId;
-      if (traitSubTreeId != null) {
-        detectedHeroTree =
-          targetSpec.heroTrees.find((ht) => ht.subTreeId === traitSubTreeId) ??
-          null;
-        break;
-      }
-    }
-  }
+  const imported = importHash(state.specs, hashStr);
+  if (!imported) return;
 
-  state.selectSpec(targetSpec);
+  state.setTreeHash(specId, imported.treeHashBytes);
+  state.record("Import talent hash", () => {
+    state.selectSpec(imported.spec);
 
-  if (detectedHeroTree && detectedHeroTree !== state.activeHeroTree) {
-    state.selectHeroTree(detectedHeroTree);
-  }
+    if (imported.heroTree && imported.heroTree !== state.activeHeroTree) {
+      state.selectHeroTree(imported.heroTree);
+    }
 
-  // Skip subTree/system IDs, other specs' nodes, and free nodes (always granted, zero cost).
-  for (const sel of selections) {
-    if (subTreeAndSystemIds.has(sel.nodeId)) continue;
-    if (!currentSpecTalentIds.has(sel.nodeId)) continue;
-
-    const node = allNodeMap.get(sel.nodeId);
-    // Granted selections on choice nodes don't encode entryIndex in the hash;
-    // default to entry 0 so the constraint pins the choice.
-    const entryIndex =
-      sel.entryIndex ?? (sel.free && node?.type === "choice" ? 0 : undefined);
-    const constraint: Constraint = {
-      nodeId: sel.nodeId,
-      type: "always",
-      entryIndex,
-      exactRank: sel.ranks,
-    };
-    state.setConstraint(constraint);
-    if (state.hasValidationError) break;
-  }
+    for (const constraint of imported.constraints) {
+      state.setConstraint(constraint);
+      if (state.hasValidationError) break;
+    }
+  });
 }
 
-async function saveLoadout(): Promise<void> {
-  const spec = state.activeSpec;
-  if (!spec) return;
+function loadoutRules(spec: Specialization): LoadoutRule[] | undefined {
+  const trees = [spec.classTree, spec.specTree];
+  if (state.activeHeroTree) trees.push(state.activeHeroTree);
+  const rules = trees.flatMap((tree) =>
+    (state.rulesFor(tree) ?? []).map((expr) => ({ tree: tree.type, expr })),
+  );
+  return rules.length > 0 ? rules : undefined;
+}
+
+function loadoutSpend(spec: Specialization): LoadoutSpend[] | undefined {
+  const trees = [spec.classTree, spec.specTree];
+  if (state.activeHeroTree) trees.push(state.activeHeroTree);
+  const spend = trees.flatMap((tree) => {
+    const target = state.spendFor(tree);
+    return target ? [{ tree: tree.type, target }] : [];
+  });
+  return spend.length > 0 ? spend : undefined;
+}
 
-  const loadout: Loadout = {
-    version: 1,
+function currentLoadout(spec: Specialization): Loadout {
+  const constraints = Array.from(state.constraints.values());
+  const rules = loadoutRules(spec);
+  return {
+    version: LOADOUT_VERSION,
+    dataVersion: state.dataVersion ?? undefined,
     className: spec.className,
     specName: spec.specName,
+    specId: spec.specId,
     heroTreeName: state.activeHeroTree?.subTreeName,
-    constraints: Array.from(state.constraints.values()),
+    nodes: loadoutNodes(spec, constraints, rules?.map((rule) => rule.expr)),
+    constraints,
+    rules,
+    spend: loadoutSpend(spec),
+    rounds: state.rounds.length > 0 ? state.rounds : undefined,
+    treeHash: spec.specId != null ? state.getTreeHash(spec.specId) : undefined,
+    notes: state.notes || undefined,
   };
+}
 
-  await electronAPI.saveLoadout(loadout);
+async function saveLoadout(): Promise<void> {
+  const spec = state.activeSpec;
+  if (!spec) return;
+  await electronAPI.saveLoadout(currentLoadout(spec));
 }
 
-async function loadLoadout(): Promise<void> {
-  const loadout = await electronAPI.loadLoadout();
-  if (!loadout) return;
+const loadoutReport = new LoadoutReportDialog();
 
-  const spec = state.specs.find(
-    (s) => s.className === loadout.className && s.specName === loadout.specName,
-  );
-  if (!spec) return;
+function applyLoadout(saved: Loadout, spec: Specialization): void {
+  // Talents a patch removed are left out rather than constrained blindly
+  const checked = checkLoadout(saved, spec, state.dataVersion ?? undefined);
+  const loadout = checked.loadout;
 
-  state.selectSpec(spec);
+  state.record("Load loadout", () => {
+    state.selectSpec(spec);
 
-  if (loadout.heroTreeName) {
-    const heroTree = spec.heroTrees.find(
-      (ht) => ht.subTreeName === loadout.heroTreeName,
-    );
-    if (heroTree) state.selectHeroTree(heroTree);
-  }
+    if (loadout.heroTreeName) {
+      const heroTree = spec.heroTrees.find(
+        (ht) => ht.subTreeName === loadout.heroTreeName,
+      );
+      if (heroTree) state.selectHeroTree(heroTree);
+    }
 
-  for (const constraint of loadout.constraints) {
-    state.setConstraint(constraint);
-    if (state.hasValidationError) break;
+    for (const constraint of loadout.constraints) {
+      state.setConstraint(constraint);
+      if (state.hasValidationError) break;
+    }
+    const treeOfType = (type: TalentTree["type"]): TalentTree | null =>
+      type === "class"
+        ? spec.classTree
+        : type === "spec"
+          ? spec.specTree
+          : state.activeHeroTree;
+    for (const rule of loadout.rules ?? []) {
+      const tree = treeOfType(rule.tree);
+      if (tree) state.setRule(tree, rule.expr);
+    }
+    for (const spend of loadout.spend ?? []) {
+      const tree = treeOfType(spend.tree);
+      if (tree) state.setSpendTarget(tree, spend.target);
+    }
+  });
+  state.setRounds(loadout.rounds ?? []);
+  state.setNotes(loadout.notes ?? "");
+  if (loadout.treeHash && spec.specId != null) {
+    state.setTreeHash(spec.specId, loadout.treeHash);
   }
+  if (checked.issues.length > 0) loadoutReport.show(checked);
+}
+
+async function loadLoadout(): Promise<void> {
+  const saved = await electronAPI.loadLoadout();
+  if (!saved) return;
+
+  const spec = findLoadoutSpec(state.specs, saved);
+  if (spec) applyLoadout(saved, spec);
+}
+
+/**
+ * Switches to other talent data, carrying the open loadout over as if it
+ * had been saved and loaded again.
+ */
+function switchTalentData(data: TalentDataResult): void {
+  const current = state.activeSpec ? currentLoadout(state.activeSpec) : null;
+  state.setSpecs(data);
+  const spec = current && findLoadoutSpec(data.specs, current);
+  if (current && spec) applyLoadout(current, spec);
+  else showSplash(data.specs);
 }
 
 const headerActions = document.createElement("div");
@@ -717,27 +902,100 @@ headerSaveBtn.textContent = "Save";
 headerSaveBtn.addEventListener("click", saveLoadout);
 headerActions.appendChild(headerSaveBtn);
 
+const notesDialog = new NotesDialog();
+const headerNotesBtn = document.createElement("button");
+headerNotesBtn.className = "btn btn-secondary btn-sm";
+headerNotesBtn.textContent = "Notes";
+headerNotesBtn.title = "Notes saved with the loadout";
+headerNotesBtn.addEventListener("click", () => notesDialog.open());
+headerActions.appendChild(headerNotesBtn);
+
+const snapshotDialog = new SnapshotDialog(switchTalentData);
+const headerDataBtn = document.createElement("button");
+headerDataBtn.className = "btn btn-secondary btn-sm";
+headerDataBtn.textContent = "Data";
+headerDataBtn.addEventListener("click", () => void snapshotDialog.open());
+headerActions.appendChild(headerDataBtn);
+state.subscribe((event) => {
+  if (event.type !== "data-loaded") return;
+  const { snapshot, source } = event.data;
+  headerDataBtn.textContent = `Data: ${sourceLabel(source)}`;
+  headerDataBtn.title =
+    `Talent data ${snapshot.id}, ` +
+    `saved ${new Date(snapshot.savedAt).toLocaleString()}`;
+});
+
 const headerImportBtn = document.createElement("button");
 headerImportBtn.className = "btn btn-secondary btn-sm";
 headerImportBtn.textContent = "Import Hash";
 headerImportBtn.addEventListener("click", () => void importTalentHash());
 headerActions.appendChild(headerImportBtn);
 
+const resultsPanel = new ResultsPanel();
+const headerResultsBtn = document.createElement("button");
+headerResultsBtn.className = "btn btn-secondary btn-sm";
+headerResultsBtn.textContent = "Results";
+headerResultsBtn.title = "Import SimC or Raidbots results for the last export";
+headerResultsBtn.addEventListener("click", () => void resultsPanel.open());
+headerActions.appendChild(headerResultsBtn);
+
 const headerClearBtn = document.createElement("button");
 headerClearBtn.className = "btn btn-secondary btn-sm";
 headerClearBtn.textContent = "Clear All";
 headerClearBtn.addEventListener("click", () => {
   const spec = state.activeSpec;
-  if (spec) state.selectSpec(spec);
+  if (spec) state.record("Clear all", () => state.selectSpec(spec));
 });
 headerActions.appendChild(headerClearBtn);
 
+const headerUndoBtn = document.createElement("button");
+headerUndoBtn.className = "btn btn-secondary btn-sm";
+headerUndoBtn.textContent = "Undo";
+headerUndoBtn.addEventListener("click", () => state.undo());
+headerActions.appendChild(headerUndoBtn);
+
+const headerRedoBtn = document.createElement("button");
+headerRedoBtn.className = "btn btn-secondary btn-sm";
+headerRedoBtn.textContent = "Redo";
+headerRedoBtn.addEventListener("click", () => state.redo());
+headerActions.appendChild(headerRedoBtn);
+
+const historyPanel = new HistoryPanel();
+const headerHistoryBtn = document.createElement("button");
+headerHistoryBtn.className = "btn btn-secondary btn-sm";
+headerHistoryBtn.textContent = "History";
+headerHistoryBtn.addEventListener("click", () => historyPanel.open());
+headerActions.appendChild(headerHistoryBtn);
+
+function updateHistoryButtons(): void {
+  const undo = state.undoStack.at(-1);
+  const redo = state.redoStack[0];
+  headerUndoBtn.disabled = !undo;
+  headerUndoBtn.title = undo ? `Undo ${undo.label}` : "Nothing to undo";
+  headerRedoBtn.disabled = !redo;
+  headerRedoBtn.title = redo ? `Redo ${redo.label}` : "Nothing to redo";
+}
+updateHistoryButtons();
+state.subscribe((event) => {
+  if (event.type === "history-changed") updateHistoryButtons();
+});
+
+// Text fields keep their own undo
+document.addEventListener("keydown", (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+  const target = e.target as HTMLElement | null;
+  if (target?.closest("input, textarea, select")) return;
+  e.preventDefault();
+  if (e.shiftKey) state.redo();
+  else state.undo();
+});
+
 headerEl.appendChild(headerActions);
 
 async function init(): Promise<void> {
   try {
     const data = await electronAPI.fetchTalentData();
-    state.setSpecs(data.specs, data.version, data.cached);
+    state.setSpecs(data);
     showSplash(data.specs);
   } catch (err) {
     mainContent.innerHTML = "";
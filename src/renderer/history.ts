@@ -0,0 +1,52 @@
+// Edits kept for undo; the oldest are dropped past this
+export const HISTORY_LIMIT = 200;
+
+export interface Command {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+/** Undo and redo stacks of applied commands. */
+export class CommandHistory {
+  private done: Command[] = [];
+  private undone: Command[] = [];
+
+  /** Oldest first. */
+  get past(): readonly Command[] {
+    return this.done;
+  }
+
+  /** Next to redo first. */
+  get future(): readonly Command[] {
+    return [...this.undone].reverse();
+  }
+
+  /** Records a command that has just been applied; clears the redo stack. */
+  push(command: Command): void {
+    this.done.push(command);
+    if (this.done.length > HISTORY_LIMIT) this.done.shift();
+    this.undone = [];
+  }
+
+  undo(): Command | null {
+    const command = this.done.pop();
+    if (!command) return null;
+    command.undo();
+    this.undone.push(command);
+    return command;
+  }
+
+  redo(): Command | null {
+    const command = this.undone.pop();
+    if (!command) return null;
+    command.redo();
+    this.done.push(command);
+    return command;
+  }
+
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+  }
+}
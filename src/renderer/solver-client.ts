@@ -0,0 +1,51 @@
+import type { WorkerResponse } from "../shared/types";
+import type { WorkerTask, WorkerTaskResults } from "../shared/worker-tasks";
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(
+    new URL("../worker/solver.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    if (response.type !== "task-result" && response.type !== "error") return;
+    if (response.id == null) return;
+    const waiting = pending.get(response.id);
+    if (!waiting) return;
+    pending.delete(response.id);
+    if (response.type === "task-result") waiting.resolve(response.value);
+    else waiting.reject(new Error(response.message));
+  };
+  worker.onerror = (event) => {
+    console.error("[worker]", event.message);
+    for (const waiting of pending.values()) {
+      waiting.reject(new Error(event.message));
+    }
+    pending.clear();
+  };
+  return worker;
+}
+
+/** Runs `task` on the solver worker; tasks run one at a time, in order. */
+export function runInWorker<K extends WorkerTask["type"]>(
+  task: Extract<WorkerTask, { type: K }>,
+): Promise<WorkerTaskResults[K]> {
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      resolve: (value) => resolve(value as WorkerTaskResults[K]),
+      reject,
+    });
+    getWorker().postMessage({ id, task });
+  });
+}
@@ -1,16 +1,100 @@
 import type {
   AppEvent,
+  BooleanExpr,
   Constraint,
+  LoadoutRound,
   Specialization,
+  SpendTarget,
+  TalentDataResult,
+  TalentDataSource,
+  TalentSnapshot,
   TalentTree,
   TreeCounts,
 } from "../shared/types";
+import { heroAutoConstraints } from "../shared/loadout";
+import { isSpendTargetSet } from "../shared/spend";
+import { nodeDpsDeltas } from "../shared/sim-results";
+import type { BuildResult, NamedBuild } from "../shared/sim-results";
+import type { ConstraintSet } from "../shared/workspace-diff";
+import { CommandHistory } from "./history";
+import type { Command } from "./history";
 
 type Listener = (event: AppEvent) => void;
 
+// The user's edits at one point, to return to on undo or redo or when
+// switching back to a workspace tab. Constraints are user-owned only;
+// implied ones are derived again on restore.
+interface Snapshot extends ConstraintSet {
+  spec: Specialization | null;
+  heroTree: TalentTree | null;
+  heroConstraints: Map<TalentTree, Map<number, Constraint>>;
+}
+
+// Exported builds, sim results and rounds belong to the constraints they
+// came from, so each tab keeps its own
+interface TabWork {
+  exportedBuilds: Map<string, NamedBuild>;
+  simResults: BuildResult[];
+  rounds: LoadoutRound[];
+}
+
+// A named constraint set with its own undo history. The active tab lives
+// in the state itself; its snapshot and work are only current once
+// switched away.
+interface WorkspaceTab {
+  name: string;
+  snapshot: Snapshot | null;
+  work: TabWork | null;
+  history: CommandHistory;
+}
+
+export interface WorkspaceTabInfo {
+  name: string;
+  spec: Specialization | null;
+  heroTree: TalentTree | null;
+  set: ConstraintSet;
+}
+
+function sameEntries<K, V>(a: Map<K, V>, b: Map<K, V>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, value] of a) {
+    if (b.get(key) !== value) return false;
+  }
+  return true;
+}
+
+// Edits always replace constraints, rule lists and spend targets rather
+// than mutating them, so comparing references is enough
+function sameSnapshot(a: Snapshot, b: Snapshot): boolean {
+  return (
+    a.spec === b.spec &&
+    a.heroTree === b.heroTree &&
+    sameEntries(a.constraints, b.constraints) &&
+    sameEntries(a.heroConstraints, b.heroConstraints) &&
+    sameEntries(a.rules, b.rules) &&
+    sameEntries(a.spend, b.spend)
+  );
+}
+
+function constraintLabel(constraint: Constraint, name: string): string {
+  switch (constraint.type) {
+    case "always":
+      return `Always ${name}`;
+    case "never":
+      return `Never ${name}`;
+    case "range":
+      return `Ranks of ${name}`;
+    default:
+      return `Condition on ${name}`;
+  }
+}
+
 class AppState {
   private listeners: Listener[] = [];
   private _specs: Specialization[] = [];
+  private _dataVersion: string | null = null;
+  private _snapshot: TalentSnapshot | null = null;
+  private _source: TalentDataSource | null = null;
   private _activeSpec: Specialization | null = null;
   private _activeHeroTree: TalentTree | null = null;
   private _constraints = new Map<number, Constraint>();
@@ -24,11 +108,47 @@ class AppState {
   private _userOwned = new Set<number>();
   private _triggerNodeId: number | null = null;
   private _validationError: string | null = null;
+  private _highlightedNodes = new Set<number>();
   private _treeHashBySpec = new Map<number, number[]>();
+  // Constraints of inactive hero trees, restored when switching back
+  private _heroConstraints = new Map<TalentTree, Map<number, Constraint>>();
+  // Rules and spend targets of the active trees by tree type. The parsed
+  // trees are shared with exports, the worker and other tabs, so these
+  // only go onto copies of them; see resolveTree.
+  private _rules = new Map<TalentTree["type"], BooleanExpr[]>();
+  private _spend = new Map<TalentTree["type"], SpendTarget>();
+  // Rules and spend targets of inactive hero trees
+  private _heroRules = new Map<TalentTree, BooleanExpr[]>();
+  private _heroSpend = new Map<TalentTree, SpendTarget>();
+  // Builds of the last export by profileset name, to match sim results to
+  private _exportedBuilds = new Map<string, NamedBuild>();
+  private _simResults: BuildResult[] = [];
+  private _nodeDpsDeltas = new Map<number, number>();
+  private _marginalOverlay = false;
+  private _frequencyOverlay = false;
+  private _rounds: LoadoutRound[] = [];
+  // Free-form notes saved with the loadout
+  private _notes = "";
+  private _history = new CommandHistory();
+  private _tabs: WorkspaceTab[] = [
+    { name: "Main", snapshot: null, work: null, history: this._history },
+  ];
+  private _activeTab = 0;
+  // Set while an edit is being recorded, undone or redone
+  private _recording = false;
 
   get specs(): Specialization[] {
     return this._specs;
   }
+  get dataVersion(): string | null {
+    return this._dataVersion;
+  }
+  get dataSnapshot(): TalentSnapshot | null {
+    return this._snapshot;
+  }
+  get dataSource(): TalentDataSource | null {
+    return this._source;
+  }
   get activeSpec(): Specialization | null {
     return this._activeSpec;
   }
@@ -50,6 +170,79 @@ class AppState {
   get hasValidationError(): boolean {
     return this._validationError !== null;
   }
+  // Nodes a warning points at, e.g. the constraints in a conflict
+  get highlightedNodes(): ReadonlySet<number> {
+    return this._highlightedNodes;
+  }
+  get exportedBuilds(): ReadonlyMap<string, NamedBuild> {
+    return this._exportedBuilds;
+  }
+  get simResults(): BuildResult[] {
+    return this._simResults;
+  }
+  get nodeDpsDeltas(): ReadonlyMap<number, number> {
+    return this._nodeDpsDeltas;
+  }
+  get rounds(): LoadoutRound[] {
+    return this._rounds;
+  }
+  get notes(): string {
+    return this._notes;
+  }
+  // Whether trees label nodes with their marginal value from the results
+  get marginalOverlay(): boolean {
+    return this._marginalOverlay;
+  }
+  // Whether trees badge nodes with the share of remaining builds taking them
+  get frequencyOverlay(): boolean {
+    return this._frequencyOverlay;
+  }
+  get undoStack(): readonly Command[] {
+    return this._history.past;
+  }
+  get redoStack(): readonly Command[] {
+    return this._history.future;
+  }
+  get activeTabIndex(): number {
+    return this._activeTab;
+  }
+  get workspaceTabs(): WorkspaceTabInfo[] {
+    return this._tabs.map((tab, i) => {
+      const snapshot = i === this._activeTab ? this.snapshot() : tab.snapshot;
+      return {
+        name: tab.name,
+        spec: snapshot?.spec ?? null,
+        heroTree: snapshot?.heroTree ?? null,
+        set: snapshot ?? {
+          constraints: new Map(),
+          rules: new Map(),
+          spend: new Map(),
+        },
+      };
+    });
+  }
+  rulesFor(tree: TalentTree): BooleanExpr[] | undefined {
+    return this.isActiveTree(tree)
+      ? this._rules.get(tree.type)
+      : this._heroRules.get(tree);
+  }
+  spendFor(tree: TalentTree): SpendTarget | undefined {
+    return this.isActiveTree(tree)
+      ? this._spend.get(tree.type)
+      : this._heroSpend.get(tree);
+  }
+  /** A copy of `tree` carrying its rules and spend target, to count with. */
+  resolveTree(tree: TalentTree): TalentTree {
+    return { ...tree, rules: this.rulesFor(tree), spend: this.spendFor(tree) };
+  }
+  /** The active class, spec and hero trees, resolved. */
+  get activeTrees(): TalentTree[] {
+    const spec = this._activeSpec;
+    if (!spec) return [];
+    const trees = [spec.classTree, spec.specTree];
+    if (this._activeHeroTree) trees.push(this._activeHeroTree);
+    return trees.map((tree) => this.resolveTree(tree));
+  }
   getTreeHash(specId: number): number[] | undefined {
     return this._treeHashBySpec.get(specId);
   }
@@ -70,52 +263,334 @@ class AppState {
     }
   }
 
-  setSpecs(specs: Specialization[], version: string, cached: boolean): void {
-    this._specs = specs;
-    this.emit({ type: "data-loaded", data: { specs, version, cached } });
+  /**
+   * Runs `edit` as one undoable step. Edits made inside it, or while
+   * undoing and redoing, belong to the outer step.
+   */
+  record(label: string, edit: () => void): void {
+    if (this._recording) {
+      edit();
+      return;
+    }
+    const before = this.snapshot();
+    this._recording = true;
+    try {
+      edit();
+    } finally {
+      this._recording = false;
+    }
+    const after = this.snapshot();
+    if (!before.spec || sameSnapshot(before, after)) return;
+    this._history.push({
+      label,
+      undo: () => this.restore(before),
+      redo: () => this.restore(after),
+    });
+    this.emit({ type: "history-changed" });
+  }
+
+  undo(): void {
+    this.replay(() => this._history.undo());
   }
 
-  selectSpec(spec: Specialization): void {
-    this._activeSpec = spec;
-    this._activeHeroTree = null;
+  redo(): void {
+    this.replay(() => this._history.redo());
+  }
+
+  private replay(step: () => Command | null): void {
+    let command: Command | null;
+    this._recording = true;
+    try {
+      command = step();
+    } finally {
+      this._recording = false;
+    }
+    if (command) this.emit({ type: "history-changed" });
+  }
+
+  /**
+   * Opens a new tab after the others and switches to it. It starts from
+   * the current constraints when `copy` is set, otherwise from none.
+   */
+  addTab(name: string, copy: boolean): void {
+    const snapshot = copy ? this.snapshot() : this.blankSnapshot();
+    this._tabs.push({
+      name,
+      snapshot,
+      work: null,
+      history: new CommandHistory(),
+    });
+    this.switchTab(this._tabs.length - 1);
+  }
+
+  switchTab(index: number): void {
+    const target = this._tabs[index];
+    if (!target || index === this._activeTab) return;
+    const outgoing = this._tabs[this._activeTab];
+    outgoing.snapshot = this.snapshot();
+    outgoing.work = {
+      exportedBuilds: this._exportedBuilds,
+      simResults: this._simResults,
+      rounds: this._rounds,
+    };
+    this._activeTab = index;
+    this._history = target.history;
+    this._recording = true;
+    try {
+      if (target.snapshot) this.restore(target.snapshot);
+    } finally {
+      this._recording = false;
+    }
+    // Restoring another spec clears the work, so it is put back after
+    this._exportedBuilds = target.work?.exportedBuilds ?? new Map();
+    this._simResults = target.work?.simResults ?? [];
+    this._nodeDpsDeltas = nodeDpsDeltas(this._simResults);
+    this._rounds = target.work?.rounds ?? [];
+    this.emit({ type: "workspace-changed" });
+    this.emit({ type: "history-changed" });
+    this.emit({ type: "results-updated" });
+  }
+
+  renameTab(index: number, name: string): void {
+    const tab = this._tabs[index];
+    if (!tab || !name.trim()) return;
+    tab.name = name.trim();
+    this.emit({ type: "workspace-changed" });
+  }
+
+  /** Closes a tab other than the last one left. */
+  closeTab(index: number): void {
+    if (this._tabs.length <= 1 || !this._tabs[index]) return;
+    if (index === this._activeTab) {
+      this.switchTab(index === 0 ? 1 : index - 1);
+    }
+    this._tabs.splice(index, 1);
+    if (index < this._activeTab) this._activeTab--;
+    this.emit({ type: "workspace-changed" });
+  }
+
+  // The active spec and hero tree with nothing set but the hero tree's
+  // fixed picks, as selecting them afresh would leave it
+  private blankSnapshot(): Snapshot {
+    const snapshot = this.snapshot();
+    const heroTree = snapshot.heroTree;
+    const picks = heroTree ? heroAutoConstraints(heroTree, new Map()) : [];
+    snapshot.constraints = new Map(picks.map((c) => [c.nodeId, c]));
+    snapshot.heroConstraints = new Map();
+    for (const tree of snapshot.rules.keys()) {
+      snapshot.rules.set(tree, undefined);
+      snapshot.spend.set(tree, undefined);
+    }
+    return snapshot;
+  }
+
+  private snapshot(): Snapshot {
+    const spec = this._activeSpec;
+    const trees = spec
+      ? [spec.classTree, spec.specTree, ...spec.heroTrees]
+      : [];
+    const constraints = new Map<number, Constraint>();
+    for (const [nodeId, constraint] of this._constraints) {
+      if (this._userOwned.has(nodeId)) constraints.set(nodeId, constraint);
+    }
+    return {
+      spec,
+      heroTree: this._activeHeroTree,
+      constraints,
+      heroConstraints: new Map(this._heroConstraints),
+      rules: new Map(trees.map((tree) => [tree, this.rulesFor(tree)])),
+      spend: new Map(trees.map((tree) => [tree, this.spendFor(tree)])),
+    };
+  }
+
+  private restore(snapshot: Snapshot): void {
+    const { spec, heroTree } = snapshot;
+    if (!spec) return;
+    if (spec !== this._activeSpec) this.selectSpec(spec);
+    if (heroTree !== this._activeHeroTree) {
+      if (heroTree) this.selectHeroTree(heroTree);
+      else this._activeHeroTree = null;
+    }
     this._constraints.clear();
-    this._impliedBy.clear();
     this._userOwned.clear();
+    this._impliedBy.clear();
+    for (const [nodeId, constraint] of snapshot.constraints) {
+      this._constraints.set(nodeId, constraint);
+      this._userOwned.add(nodeId);
+    }
+    this._heroConstraints = new Map(snapshot.heroConstraints);
+    this.clearTreeSettings();
+    for (const [tree, rules] of snapshot.rules) {
+      if (rules) this.putRules(tree, rules);
+    }
+    for (const [tree, spend] of snapshot.spend) {
+      if (spend) this.putSpend(tree, spend);
+    }
     this._triggerNodeId = null;
     this._validationError = null;
-    this.emit({ type: "spec-selected", spec });
+    this.emit({ type: "constraints-restored" });
+  }
+
+  private isActiveTree(tree: TalentTree): boolean {
+    return tree.type !== "hero" || tree === this._activeHeroTree;
+  }
+
+  private putRules(tree: TalentTree, rules: BooleanExpr[]): void {
+    if (this.isActiveTree(tree)) this._rules.set(tree.type, rules);
+    else this._heroRules.set(tree, rules);
+  }
+
+  private putSpend(tree: TalentTree, target: SpendTarget | null): void {
+    const active = this.isActiveTree(tree);
+    if (target && isSpendTargetSet(target)) {
+      if (active) this._spend.set(tree.type, target);
+      else this._heroSpend.set(tree, target);
+    } else if (active) {
+      this._spend.delete(tree.type);
+    } else {
+      this._heroSpend.delete(tree);
+    }
+  }
+
+  private clearTreeSettings(): void {
+    this._rules.clear();
+    this._spend.clear();
+    this._heroRules.clear();
+    this._heroSpend.clear();
+  }
+
+  private nodeName(nodeId: number): string {
+    const spec = this._activeSpec;
+    if (!spec) return `#${nodeId}`;
+    for (const tree of [spec.classTree, spec.specTree, ...spec.heroTrees]) {
+      const node = tree.nodes.get(nodeId);
+      if (node) return node.name;
+    }
+    return `#${nodeId}`;
+  }
+
+  /**
+   * Replaces the talent data. Tabs and history point at the old data's
+   * trees, so switching data starts over from a single empty tab.
+   */
+  setSpecs(data: TalentDataResult): void {
+    const switching = this._specs.length > 0;
+    this._specs = data.specs;
+    this._dataVersion = data.version;
+    this._snapshot = data.snapshot;
+    this._source = data.source;
+    if (switching) {
+      this._activeSpec = null;
+      this._activeHeroTree = null;
+      this._constraints.clear();
+      this._impliedBy.clear();
+      this._userOwned.clear();
+      this._heroConstraints.clear();
+      this.clearTreeSettings();
+      this._history = new CommandHistory();
+      this._tabs = [
+        { name: "Main", snapshot: null, work: null, history: this._history },
+      ];
+      this._activeTab = 0;
+    }
+    this.emit({ type: "data-loaded", data });
+    if (switching) {
+      this.emit({ type: "workspace-changed" });
+      this.emit({ type: "history-changed" });
+    }
+  }
+
+  selectSpec(spec: Specialization): void {
+    this.record(`Select ${spec.specName} ${spec.className}`, () => {
+      this._activeSpec = spec;
+      this._activeHeroTree = null;
+      this._constraints.clear();
+      this._impliedBy.clear();
+      this._userOwned.clear();
+      this._heroConstraints.clear();
+      this._exportedBuilds = new Map();
+      this._simResults = [];
+      this._nodeDpsDeltas = new Map();
+      this._rounds = [];
+      this._triggerNodeId = null;
+      this._validationError = null;
+      this.clearTreeSettings();
+      this.emit({ type: "spec-selected", spec });
+    });
   }
 
   selectHeroTree(tree: TalentTree): void {
-    this._activeHeroTree = tree;
-    this._triggerNodeId = null;
-    this._validationError = null;
-    // Remove constraints belonging to other hero trees
-    for (const [nodeId] of this._constraints) {
-      if (tree.nodes.has(nodeId)) continue;
-      const fromOtherHero = this._activeSpec?.heroTrees.some(
-        (ht) => ht !== tree && ht.nodes.has(nodeId),
-      );
-      if (fromOtherHero) {
-        this._constraints.delete(nodeId);
-        this._userOwned.delete(nodeId);
+    this.record(`Switch to ${tree.subTreeName ?? "hero tree"}`, () => {
+      const previous = this._activeHeroTree;
+      if (previous && previous !== tree) {
+        this._heroConstraints.set(
+          previous,
+          this.getConstraintsForTree(previous),
+        );
       }
-    }
-    for (const sourceId of [...this._impliedBy.keys()]) {
-      if (!tree.nodes.has(sourceId)) {
+      if (previous !== tree) this.swapHeroSettings(previous, tree);
+      this._activeHeroTree = tree;
+      this._triggerNodeId = null;
+      this._validationError = null;
+      // Remove constraints belonging to other hero trees
+      for (const [nodeId] of this._constraints) {
+        if (tree.nodes.has(nodeId)) continue;
         const fromOtherHero = this._activeSpec?.heroTrees.some(
-          (ht) => ht !== tree && ht.nodes.has(sourceId),
+          (ht) => ht !== tree && ht.nodes.has(nodeId),
         );
-        if (fromOtherHero) this._impliedBy.delete(sourceId);
+        if (fromOtherHero) {
+          this._constraints.delete(nodeId);
+          this._userOwned.delete(nodeId);
+        }
       }
-    }
-    this.emit({ type: "hero-tree-selected", tree });
+      for (const sourceId of [...this._impliedBy.keys()]) {
+        if (!tree.nodes.has(sourceId)) {
+          const fromOtherHero = this._activeSpec?.heroTrees.some(
+            (ht) => ht !== tree && ht.nodes.has(sourceId),
+          );
+          if (fromOtherHero) this._impliedBy.delete(sourceId);
+        }
+      }
+      const saved = this._heroConstraints.get(tree);
+      if (saved) {
+        for (const [nodeId, constraint] of saved) {
+          if (this._constraints.has(nodeId)) continue;
+          this._constraints.set(nodeId, constraint);
+          this._userOwned.add(nodeId);
+        }
+        this._heroConstraints.delete(tree);
+      }
+      this.emit({ type: "hero-tree-selected", tree });
+    });
+  }
+
+  // Puts the outgoing hero tree's rules and spend aside and brings back
+  // those of the incoming one
+  private swapHeroSettings(
+    previous: TalentTree | null,
+    next: TalentTree,
+  ): void {
+    const rules = this._rules.get("hero");
+    const spend = this._spend.get("hero");
+    if (previous && rules) this._heroRules.set(previous, rules);
+    if (previous && spend) this._heroSpend.set(previous, spend);
+    this._rules.delete("hero");
+    this._spend.delete("hero");
+    const savedRules = this._heroRules.get(next);
+    const savedSpend = this._heroSpend.get(next);
+    if (savedRules) this._rules.set("hero", savedRules);
+    if (savedSpend) this._spend.set("hero", savedSpend);
+    this._heroRules.delete(next);
+    this._heroSpend.delete(next);
   }
 
   setConstraint(constraint: Constraint): void {
-    this._userOwned.add(constraint.nodeId);
-    this._constraints.set(constraint.nodeId, constraint);
-    this.emit({ type: "constraint-changed", constraint });
+    const label = constraintLabel(constraint, this.nodeName(constraint.nodeId));
+    this.record(label, () => {
+      this._userOwned.add(constraint.nodeId);
+      this._constraints.set(constraint.nodeId, constraint);
+      this.emit({ type: "constraint-changed", constraint });
+    });
   }
 
   setConstraintQuiet(constraint: Constraint): void {
@@ -124,9 +599,75 @@ class AppState {
   }
 
   removeConstraint(nodeId: number): void {
-    this._userOwned.delete(nodeId);
-    this._constraints.delete(nodeId);
-    this.emit({ type: "constraint-removed", nodeId });
+    this.record(`Clear ${this.nodeName(nodeId)}`, () => {
+      this._userOwned.delete(nodeId);
+      this._constraints.delete(nodeId);
+      this.emit({ type: "constraint-removed", nodeId });
+    });
+  }
+
+  /**
+   * Rules every build of `tree` must satisfy, honoured by counting and
+   * generation through resolveTree. Without `index` the rule is appended.
+   */
+  setRule(tree: TalentTree, expr: BooleanExpr, index?: number): void {
+    this.record(`Edit ${tree.type} rules`, () => {
+      const rules = [...(this.rulesFor(tree) ?? [])];
+      rules[index ?? rules.length] = expr;
+      this.putRules(tree, rules);
+      this.emit({ type: "rules-changed", tree });
+    });
+  }
+
+  removeRule(tree: TalentTree, index: number): void {
+    this.record(`Remove a ${tree.type} rule`, () => {
+      const rules = this.rulesFor(tree) ?? [];
+      this.putRules(
+        tree,
+        rules.filter((_, i) => i !== index),
+      );
+      this.emit({ type: "rules-changed", tree });
+    });
+  }
+
+  /** Sets the points builds of `tree` spend; null clears the target. */
+  setSpendTarget(tree: TalentTree, target: SpendTarget | null): void {
+    this.record(`Set ${tree.type} point spend`, () => {
+      this.putSpend(tree, target);
+      this.emit({ type: "spend-changed", tree });
+    });
+  }
+
+  setExportedBuilds(builds: NamedBuild[]): void {
+    this._exportedBuilds = new Map(builds.map((b) => [b.name, b]));
+  }
+
+  setSimResults(results: BuildResult[]): void {
+    this._simResults = results;
+    this._nodeDpsDeltas = nodeDpsDeltas(results);
+    this.emit({ type: "results-updated" });
+  }
+
+  setRounds(rounds: LoadoutRound[]): void {
+    this._rounds = rounds;
+  }
+
+  setNotes(notes: string): void {
+    this._notes = notes;
+  }
+
+  addRound(round: LoadoutRound): void {
+    this._rounds = [...this._rounds, round];
+  }
+
+  setMarginalOverlay(visible: boolean): void {
+    this._marginalOverlay = visible;
+    this.emit({ type: "results-updated" });
+  }
+
+  setFrequencyOverlay(visible: boolean): void {
+    this._frequencyOverlay = visible;
+    this.emit({ type: "frequency-overlay-changed" });
   }
 
   updateCounts(counts: TreeCounts): void {
@@ -147,6 +688,12 @@ class AppState {
     this.emit({ type: "validation-changed" });
   }
 
+  highlightNodes(nodeIds: number[]): void {
+    if (nodeIds.length === 0 && this._highlightedNodes.size === 0) return;
+    this._highlightedNodes = new Set(nodeIds);
+    this.emit({ type: "highlight-changed" });
+  }
+
   setImpliedConstraints(sourceId: number, impliedIds: number[]): void {
     this.clearImpliedConstraints(sourceId);
     if (impliedIds.length === 0) return;
@@ -195,6 +742,20 @@ class AppState {
     this._userOwned.add(nodeId);
   }
 
+  /**
+   * Constraints for any of the active spec's hero trees. Inactive trees get
+   * what the user set while they were active plus the implicit picks of
+   * their fixed nodes.
+   */
+  getHeroTreeConstraints(tree: TalentTree): Map<number, Constraint> {
+    if (tree === this._activeHeroTree) return this.getConstraintsForTree(tree);
+    const constraints = new Map(this._heroConstraints.get(tree));
+    for (const c of heroAutoConstraints(tree, constraints)) {
+      constraints.set(c.nodeId, c);
+    }
+    return constraints;
+  }
+
   getConstraintsForTree(tree: TalentTree): Map<number, Constraint> {
     const result = new Map<number, Constraint>();
     for (const [nodeId, constraint] of this._constraints) {
@@ -0,0 +1,216 @@
+import { state } from "../state";
+import type { BaseProfile, Specialization } from "../../shared/types";
+import { SIMC_FIGHT_STYLES } from "../../shared/constants";
+import { profilesForSpec } from "../../shared/simc-profile";
+
+declare const electronAPI: import("../../shared/types").ElectronAPI;
+
+/**
+ * Picker for the base SimC profile wrapped around exported profilesets,
+ * with an editor for the active spec's stored profiles.
+ */
+export class BaseProfileControls {
+  readonly el: HTMLElement;
+  private select: HTMLSelectElement;
+  private editBtn: HTMLButtonElement;
+  private profiles: BaseProfile[] = [];
+  private dialogContainer: HTMLElement;
+
+  constructor() {
+    this.el = document.createElement("div");
+    this.el.className = "sampling-controls";
+
+    this.select = document.createElement("select");
+    this.select.className = "sampling-select";
+    this.select.title = "Character profile to wrap the profilesets in";
+    this.select.addEventListener("change", () => this.updateEditButton());
+
+    this.editBtn = document.createElement("button");
+    this.editBtn.className = "btn btn-secondary btn-sm";
+    this.editBtn.addEventListener("click", () =>
+      this.showEditor(this.selected),
+    );
+
+    this.el.append(this.select, this.editBtn);
+    this.dialogContainer = document.getElementById("dialog-container")!;
+
+    state.subscribe((event) => {
+      if (event.type === "spec-selected") this.populate(event.spec);
+    });
+    void electronAPI.loadBaseProfiles().then((profiles) => {
+      this.profiles = profiles;
+      if (state.activeSpec) this.populate(state.activeSpec);
+    });
+  }
+
+  get selected(): BaseProfile | null {
+    const spec = state.activeSpec;
+    if (!spec || this.select.value === "") return null;
+    return profilesForSpec(this.profiles, spec)[Number(this.select.value)];
+  }
+
+  private populate(spec: Specialization, selectName?: string): void {
+    const previous = selectName ?? this.selected?.name;
+    this.select.replaceChildren(new Option("No base profile", ""));
+    profilesForSpec(this.profiles, spec).forEach((profile, i) => {
+      const option = new Option(profile.name, String(i));
+      option.selected = profile.name === previous;
+      this.select.add(option);
+    });
+    this.updateEditButton();
+  }
+
+  private updateEditButton(): void {
+    this.editBtn.textContent = this.selected ? "Edit" : "New";
+    this.editBtn.title = this.selected
+      ? "Edit the selected base profile"
+      : "Create a base profile for this spec";
+  }
+
+  private async store(
+    profiles: BaseProfile[],
+    selectName?: string,
+  ): Promise<void> {
+    const previous = selectName ?? this.selected?.name;
+    this.profiles = profiles;
+    if (state.activeSpec) this.populate(state.activeSpec, previous);
+    await electronAPI.saveBaseProfiles(profiles);
+  }
+
+  private showEditor(existing: BaseProfile | null): void {
+    const spec = state.activeSpec;
+    if (!spec) return;
+
+    const overlay = document.createElement("div");
+    overlay.className = "export-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+    content.style.cssText = "width: 560px;";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = existing ? "Edit Base Profile" : "New Base Profile";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => overlay.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body base-profile-form";
+
+    const field = (label: string, input: HTMLElement): HTMLElement => {
+      const row = document.createElement("label");
+      row.className = "base-profile-field";
+      row.append(label, input);
+      return row;
+    };
+    const numberInput = (
+      value: number | undefined,
+      step: string,
+    ): HTMLInputElement => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.className = "sampling-seed";
+      input.min = "0";
+      input.step = step;
+      input.value = value != null ? String(value) : "";
+      return input;
+    };
+
+    const nameInput = document.createElement("input");
+    nameInput.className = "sampling-select";
+    nameInput.value = existing?.name ?? `${spec.specName} ${spec.className}`;
+
+    const fightSelect = document.createElement("select");
+    fightSelect.className = "sampling-select";
+    for (const style of SIMC_FIGHT_STYLES) {
+      fightSelect.add(new Option(style, style));
+    }
+    fightSelect.value = existing?.fightStyle ?? SIMC_FIGHT_STYLES[0];
+
+    const iterationsInput = numberInput(existing?.iterations, "1");
+    const targetErrorInput = numberInput(existing?.targetError, "0.01");
+    const threadsInput = numberInput(existing?.workThreads, "1");
+
+    const textarea = document.createElement("textarea");
+    textarea.className = "export-output";
+    textarea.style.cssText = "min-height: 200px;";
+    textarea.placeholder =
+      "Paste the SimulationCraft addon or armory export. Its talent lines " +
+      "are replaced by the base talents from your Always constraints.";
+    textarea.value = existing?.profileText ?? "";
+
+    const errorMsg = document.createElement("p");
+    errorMsg.className = "base-profile-error";
+
+    body.append(
+      field("Name", nameInput),
+      field("Fight style", fightSelect),
+      field("Iterations", iterationsInput),
+      field("Target error", targetErrorInput),
+      field("Profileset threads", threadsInput),
+      textarea,
+      errorMsg,
+    );
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+
+    const deleteBtn = document.createElement("button");
+    deleteBtn.className = "btn btn-secondary";
+    deleteBtn.textContent = "Delete";
+    deleteBtn.style.visibility = existing ? "" : "hidden";
+    deleteBtn.addEventListener("click", async () => {
+      await this.store(this.profiles.filter((p) => p !== existing));
+      overlay.remove();
+    });
+
+    const saveBtn = document.createElement("button");
+    saveBtn.className = "btn btn-primary";
+    saveBtn.textContent = "Save";
+    saveBtn.addEventListener("click", async () => {
+      const name = nameInput.value.trim();
+      const clash = profilesForSpec(this.profiles, spec).some(
+        (p) => p !== existing && p.name === name,
+      );
+      if (!name || clash) {
+        errorMsg.textContent = name
+          ? "A base profile with this name already exists."
+          : "Give the profile a name.";
+        return;
+      }
+
+      const optional = (input: HTMLInputElement): number | undefined =>
+        input.value === "" ? undefined : Number(input.value);
+      const profile: BaseProfile = {
+        name,
+        className: spec.className,
+        specName: spec.specName,
+        profileText: textarea.value.trim(),
+        fightStyle: fightSelect.value,
+        iterations: optional(iterationsInput),
+        targetError: optional(targetErrorInput),
+        workThreads: optional(threadsInput),
+      };
+      const profiles = existing
+        ? this.profiles.map((p) => (p === existing ? profile : p))
+        : [...this.profiles, profile];
+      await this.store(profiles, name);
+      overlay.remove();
+    });
+
+    footer.append(deleteBtn, saveBtn);
+    content.append(header, body, footer);
+    overlay.appendChild(content);
+
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) overlay.remove();
+    });
+
+    this.dialogContainer.appendChild(overlay);
+    nameInput.focus();
+  }
+}
@@ -1,6 +1,7 @@
 import { state } from "../state";
 import type { TreeCounts, CountResult, CountWarning } from "../../shared/types";
 import { MAX_PROFILESETS, COUNT_THRESHOLDS } from "../../shared/constants";
+import { spendBudget } from "../../shared/spend";
 
 const MAX_PROFILESETS_BIG = BigInt(MAX_PROFILESETS);
 const GREEN_THRESHOLD_BIG = BigInt(COUNT_THRESHOLDS.green);
@@ -30,6 +31,7 @@ export class CombinationCounter {
   private el: HTMLElement;
   private countEl: HTMLElement;
   private breakdownEl: HTMLElement;
+  private budgetEl: HTMLElement;
   private warningEl: HTMLElement;
   private errorsEl: HTMLElement;
   private errorsInner: HTMLElement;
@@ -56,10 +58,24 @@ export class CombinationCounter {
     this.breakdownEl.className = "count-breakdown";
     countDisplay.appendChild(this.breakdownEl);
 
+    this.budgetEl = document.createElement("span");
+    this.budgetEl.className = "count-budget";
+    countDisplay.appendChild(this.budgetEl);
+
     this.warningEl = document.createElement("span");
     this.warningEl.className = "count-warning";
     countDisplay.appendChild(this.warningEl);
 
+    const frequencyToggle = document.createElement("button");
+    frequencyToggle.className = "btn btn-secondary btn-sm count-frequency";
+    frequencyToggle.textContent = "% of builds";
+    frequencyToggle.title = "Show how many remaining builds take each talent";
+    frequencyToggle.addEventListener("click", () => {
+      state.setFrequencyOverlay(!state.frequencyOverlay);
+      frequencyToggle.classList.toggle("active", state.frequencyOverlay);
+    });
+    countDisplay.appendChild(frequencyToggle);
+
     this.el.appendChild(countDisplay);
 
     state.subscribe((event) => {
@@ -78,7 +94,8 @@ export class CombinationCounter {
     this.showWarnings(warnings);
 
     const countText = total === 0n ? "0" : formatCount(total);
-    this.countEl.textContent = `${countText} builds`;
+    const approximate = counts.totalWarning ? "\u2248" : "";
+    this.countEl.textContent = `${approximate}${countText} builds`;
     this.countEl.className = "count-value";
 
     let color: string;
@@ -109,6 +126,20 @@ export class CombinationCounter {
       parts.push(formatCount(counts.heroCount));
     }
     this.breakdownEl.textContent = parts.join(" \u00d7 ");
+    this.budgetEl.textContent = this.budgetText();
+  }
+
+  /** Points each tree's builds spend, as "25/34" when short of the budget. */
+  private budgetText(): string {
+    const trees = state.activeTrees;
+    if (trees.length === 0) return "";
+    const parts = trees.map((tree) => {
+      const spend = spendBudget(tree);
+      return spend === tree.pointBudget
+        ? String(spend)
+        : `${spend}/${tree.pointBudget}`;
+    });
+    return `${parts.join(" + ")} pts`;
   }
 
   private collectWarnings(counts: TreeCounts): CountWarning[] {
@@ -116,6 +147,7 @@ export class CombinationCounter {
     if (!details) return [];
 
     const warnings: CountWarning[] = [];
+    if (counts.totalWarning) warnings.push(counts.totalWarning);
     const entries: [string, CountResult | undefined][] = [
       ["Class", details.class],
       ["Spec", details.spec],
@@ -149,6 +181,7 @@ export class CombinationCounter {
     if (state.hasValidationError) return;
 
     this.errorsInner.innerHTML = "";
+    state.highlightNodes([]);
     if (warnings.length === 0) {
       this.errorsEl.classList.remove("has-errors");
       return;
@@ -161,6 +194,15 @@ export class CombinationCounter {
           ? "validation-error-line"
           : "validation-warning-line";
       line.textContent = w.message;
+      const nodeIds = w.nodeIds;
+      if (nodeIds && nodeIds.length > 0) {
+        // Point at the talents involved while hovering the line
+        line.classList.add("has-nodes");
+        line.addEventListener("mouseenter", () =>
+          state.highlightNodes(nodeIds),
+        );
+        line.addEventListener("mouseleave", () => state.highlightNodes([]));
+      }
       this.errorsInner.appendChild(line);
     }
     this.errorsEl.classList.add("has-errors");
@@ -1,5 +1,12 @@
 import { state } from "../state";
-import type { BooleanExpr, TalentNode, TalentTree } from "../../shared/types";
+import type {
+  BooleanExpr,
+  CardinalityExpr,
+  CardinalityOp,
+  TalentNode,
+  TalentTree,
+} from "../../shared/types";
+import { isCardinalityExpr } from "../../shared/cardinality";
 
 interface TalentRef {
   nodeId: number;
@@ -10,13 +17,24 @@ interface TalentRef {
 
 interface RuleGroup {
   talents: TalentRef[];
+  // "At least / at most / exactly N of" instead of the mode's inner op
+  cardinality?: { op: CardinalityOp; count: number };
 }
 
+const CARDINALITY_LABELS: [CardinalityOp, string][] = [
+  ["AT_LEAST", "At least"],
+  ["AT_MOST", "At most"],
+  ["EXACTLY", "Exactly"],
+];
+
 export class ConditionEditor {
   private panel: HTMLElement | null = null;
   private currentNode: TalentNode | null = null;
   private currentTree: TalentTree | null = null;
   private entryIndex: number | null = null;
+  // Editing a tree-level rule rather than a node's condition
+  private editingRule = false;
+  private ruleIndex: number | null = null;
   private groups: RuleGroup[] = [];
   private mode: "any" | "all" = "any";
   private targetGroupIndex: number | null = null;
@@ -27,6 +45,8 @@ export class ConditionEditor {
     this.currentNode = node;
     this.currentTree = tree;
     this.entryIndex = entryIndex ?? null;
+    this.editingRule = false;
+    this.ruleIndex = null;
 
     const existing = state.constraints.get(node.id);
     if (
@@ -50,6 +70,31 @@ export class ConditionEditor {
       this.mode = "any";
     }
 
+    this.mount();
+  }
+
+  /** Edits `tree`'s rule at `ruleIndex`, or a new rule without one. */
+  openRule(tree: TalentTree, ruleIndex?: number): void {
+    this.close();
+    this.currentNode = null;
+    this.currentTree = tree;
+    this.entryIndex = null;
+    this.editingRule = true;
+    this.ruleIndex = ruleIndex ?? null;
+
+    const existing =
+      ruleIndex != null ? state.rulesFor(tree)?.[ruleIndex] : undefined;
+    if (existing) {
+      this.loadCondition(existing);
+    } else {
+      this.groups = [];
+      this.mode = "any";
+    }
+
+    this.mount();
+  }
+
+  private mount(): void {
     const overlay = document.createElement("div");
     overlay.className = "cond-overlay";
     overlay.addEventListener("click", (e) => {
@@ -94,6 +139,11 @@ export class ConditionEditor {
       return;
     }
 
+    if (isCardinalityExpr(expr)) {
+      this.groups.push(this.cardinalityGroup(expr));
+      return;
+    }
+
     if (expr.op === "OR") {
       // DNF: OR of ANDs or leaves → "any" mode
       this.mode = "any";
@@ -110,7 +160,7 @@ export class ConditionEditor {
       return;
     }
 
-    if (expr.children.some((c) => c.op === "OR")) {
+    if (expr.children.some((c) => c.op === "OR" || isCardinalityExpr(c))) {
       // AND of ORs → CNF → "all" mode
       this.mode = "all";
       this.loadGroupChildren(expr.children);
@@ -126,6 +176,8 @@ export class ConditionEditor {
     for (const child of children) {
       if (child.op === "TALENT_SELECTED") {
         this.groups.push({ talents: [this.refFromExpr(child)] });
+      } else if (isCardinalityExpr(child)) {
+        this.groups.push(this.cardinalityGroup(child));
       } else if (
         child.op === innerOp &&
         child.children.every((c) => c.op === "TALENT_SELECTED")
@@ -156,8 +208,19 @@ export class ConditionEditor {
     };
   }
 
+  private cardinalityGroup(expr: CardinalityExpr): RuleGroup {
+    return {
+      talents: expr.nodeIds.map((nodeId) => ({
+        nodeId,
+        name: this.findNodeName(nodeId),
+      })),
+      cardinality: { op: expr.op, count: expr.count },
+    };
+  }
+
   private collectLeaves(expr: BooleanExpr): TalentRef[] {
     if (expr.op === "TALENT_SELECTED") return [this.refFromExpr(expr)];
+    if (isCardinalityExpr(expr)) return this.cardinalityGroup(expr).talents;
     return expr.children.flatMap((c) => this.collectLeaves(c));
   }
 
@@ -167,7 +230,7 @@ export class ConditionEditor {
     const node =
       spec.classTree.nodes.get(nodeId) ??
       spec.specTree.nodes.get(nodeId) ??
-      state.activeHeroTree?.nodes.get(nodeId);
+      spec.heroTrees.find((t) => t.nodes.has(nodeId))?.nodes.get(nodeId);
     return node?.name ?? `Node ${nodeId}`;
   }
 
@@ -186,12 +249,12 @@ export class ConditionEditor {
     return (
       spec.classTree.nodes.get(nodeId) ??
       spec.specTree.nodes.get(nodeId) ??
-      state.activeHeroTree?.nodes.get(nodeId)
+      spec.heroTrees.find((t) => t.nodes.has(nodeId))?.nodes.get(nodeId)
     );
   }
 
   private render(): void {
-    if (!this.panel || !this.currentNode) return;
+    if (!this.panel || (!this.currentNode && !this.editingRule)) return;
     const target = this.panel.querySelector(".cond-dialog") ?? this.panel;
     target.innerHTML = "";
 
@@ -206,7 +269,9 @@ export class ConditionEditor {
 
     const title = document.createElement("span");
     title.className = "cond-title";
-    if (this.entryIndex != null) {
+    if (this.editingRule) {
+      title.textContent = "Tree rule";
+    } else if (this.entryIndex != null) {
       const entry = this.currentNode!.entries[this.entryIndex];
       title.textContent = `Conditional: ${entry?.name || this.currentNode!.name}`;
     } else {
@@ -232,7 +297,9 @@ export class ConditionEditor {
 
     const sentence = document.createElement("div");
     sentence.className = "cond-sentence";
-    sentence.textContent = "Include this talent when:";
+    sentence.textContent = this.editingRule
+      ? "Every build must satisfy:"
+      : "Include this talent when:";
     body.appendChild(sentence);
 
     if (this.groups.length > 0) {
@@ -325,6 +392,8 @@ export class ConditionEditor {
       card.appendChild(deleteBtn);
     }
 
+    card.appendChild(this.buildCountRow(group));
+
     for (let ti = 0; ti < group.talents.length; ti++) {
       const talent = group.talents[ti];
       const item = document.createElement("div");
@@ -333,7 +402,11 @@ export class ConditionEditor {
       if (ti > 0) {
         const innerLabel = document.createElement("span");
         innerLabel.className = "cond-inner-label";
-        innerLabel.textContent = this.mode === "any" ? "and" : "or";
+        innerLabel.textContent = group.cardinality
+          ? ","
+          : this.mode === "any"
+            ? "and"
+            : "or";
         card.appendChild(innerLabel);
       }
 
@@ -343,11 +416,13 @@ export class ConditionEditor {
       const nameEl = document.createElement("span");
       nameEl.className = "cond-chip-name";
       nameEl.textContent = talent.negated ? `NOT ${talent.name}` : talent.name;
-      nameEl.title = "Click to toggle NOT";
-      nameEl.addEventListener("click", () => {
-        talent.negated = !talent.negated;
-        this.render();
-      });
+      if (!group.cardinality) {
+        nameEl.title = "Click to toggle NOT";
+        nameEl.addEventListener("click", () => {
+          talent.negated = !talent.negated;
+          this.render();
+        });
+      }
       chip.appendChild(nameEl);
 
       const removeBtn = document.createElement("button");
@@ -385,6 +460,70 @@ export class ConditionEditor {
     return card;
   }
 
+  /** Chooses between the mode's plain and/or and a counted group. */
+  private buildCountRow(group: RuleGroup): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "cond-count-row";
+
+    const select = document.createElement("select");
+    select.className = "cond-count-op";
+    const plain = document.createElement("option");
+    plain.value = "";
+    plain.textContent = this.mode === "any" ? "All of" : "Any of";
+    select.appendChild(plain);
+    for (const [op, label] of CARDINALITY_LABELS) {
+      const option = document.createElement("option");
+      option.value = op;
+      option.textContent = label;
+      select.appendChild(option);
+    }
+    select.value = group.cardinality?.op ?? "";
+    select.addEventListener("change", () => {
+      if (select.value === "") {
+        delete group.cardinality;
+      } else {
+        group.cardinality = {
+          op: select.value as CardinalityOp,
+          count: group.cardinality?.count ?? 1,
+        };
+        // Counts are per node; negation and choice entries don't apply
+        group.talents = this.nodeRefs(group.talents);
+      }
+      this.render();
+    });
+    row.appendChild(select);
+
+    if (group.cardinality) {
+      const cardinality = group.cardinality;
+      const input = document.createElement("input");
+      input.type = "number";
+      input.className = "cond-count-input";
+      input.min = "0";
+      input.value = String(cardinality.count);
+      input.addEventListener("change", () => {
+        cardinality.count = Math.max(0, Math.floor(Number(input.value)) || 0);
+        input.value = String(cardinality.count);
+      });
+      const suffix = document.createElement("span");
+      suffix.textContent = "of";
+      row.append(input, suffix);
+    }
+
+    return row;
+  }
+
+  /** Whole-node refs for `refs`, one per node. */
+  private nodeRefs(refs: TalentRef[]): TalentRef[] {
+    const seen = new Set<number>();
+    const result: TalentRef[] = [];
+    for (const ref of refs) {
+      if (seen.has(ref.nodeId)) continue;
+      seen.add(ref.nodeId);
+      result.push({ nodeId: ref.nodeId, name: this.findNodeName(ref.nodeId) });
+    }
+    return result;
+  }
+
   private buildSearchSection(): HTMLElement {
     const section = document.createElement("div");
     section.className = "cond-search-section";
@@ -422,18 +561,23 @@ export class ConditionEditor {
     const candidates = this.getCandidates();
 
     const addTalent = (ref: TalentRef): void => {
+      let group: RuleGroup;
       if (
         this.targetGroupIndex !== null &&
         this.targetGroupIndex < this.groups.length
       ) {
-        this.groups[this.targetGroupIndex].talents.push(ref);
+        group = this.groups[this.targetGroupIndex];
+        group.talents.push(ref);
       } else if (this.groups.length > 0) {
         // Add to last group
-        this.groups[this.groups.length - 1].talents.push(ref);
+        group = this.groups[this.groups.length - 1];
+        group.talents.push(ref);
       } else {
         // Create first group
-        this.groups.push({ talents: [ref] });
+        group = { talents: [ref] };
+        this.groups.push(group);
       }
+      if (group.cardinality) group.talents = this.nodeRefs(group.talents);
       this.targetGroupIndex = null;
       this.render();
     };
@@ -522,18 +666,21 @@ export class ConditionEditor {
     const spec = state.activeSpec;
     const trees: TalentTree[] = [this.currentTree];
     if (spec) {
-      for (const tree of [spec.classTree, spec.specTree]) {
+      // Every hero tree: a talent of an inactive one stands for "hero tree
+      // is X", which matters when exporting all hero trees
+      for (const tree of [spec.classTree, spec.specTree, ...spec.heroTrees]) {
         if (tree !== this.currentTree) trees.push(tree);
       }
-      if (state.activeHeroTree && state.activeHeroTree !== this.currentTree) {
-        trees.push(state.activeHeroTree);
-      }
     }
 
     const result: TalentRef[] = [];
     for (const tree of trees) {
+      const suffix =
+        tree.type === "hero" && tree !== state.activeHeroTree
+          ? ` (${tree.subTreeName ?? "Hero"})`
+          : "";
       for (const node of tree.nodes.values()) {
-        if (node.id === this.currentNode!.id) continue;
+        if (node.id === this.currentNode?.id) continue;
 
         const hasDistinctChoices =
           node.type === "choice" &&
@@ -546,17 +693,20 @@ export class ConditionEditor {
             if (!excludeKeys.has(key)) {
               result.push({
                 nodeId: node.id,
-                name: entry.name,
+                name: `${entry.name}${suffix}`,
                 entryId: entry.id,
               });
             }
           }
           if (!excludeKeys.has(`${node.id}`)) {
-            result.push({ nodeId: node.id, name: `${node.name} (either)` });
+            result.push({
+              nodeId: node.id,
+              name: `${node.name} (either)${suffix}`,
+            });
           }
         } else {
           if (!excludeKeys.has(`${node.id}`)) {
-            result.push({ nodeId: node.id, name: node.name });
+            result.push({ nodeId: node.id, name: `${node.name}${suffix}` });
           }
         }
       }
@@ -574,7 +724,11 @@ export class ConditionEditor {
     clearBtn.className = "btn btn-secondary cond-btn";
     clearBtn.textContent = "Clear";
     clearBtn.addEventListener("click", () => {
-      if (this.entryIndex != null) {
+      if (this.editingRule) {
+        if (this.ruleIndex != null) {
+          state.removeRule(this.currentTree!, this.ruleIndex);
+        }
+      } else if (this.entryIndex != null) {
         const existing = state.constraints.get(this.currentNode!.id);
         if (
           existing?.type === "entry-conditional" &&
@@ -632,7 +786,7 @@ export class ConditionEditor {
   }
 
   private save(): void {
-    if (!this.currentNode) return;
+    if (!this.currentNode && !this.editingRule) return;
 
     const nonEmpty = this.groups.filter((g) => g.talents.length > 0);
     if (nonEmpty.length === 0) return;
@@ -641,6 +795,13 @@ export class ConditionEditor {
     const innerOp: "AND" | "OR" = this.mode === "any" ? "AND" : "OR";
 
     const groupToExpr = (g: RuleGroup): BooleanExpr => {
+      if (g.cardinality) {
+        return {
+          op: g.cardinality.op,
+          nodeIds: this.nodeRefs(g.talents).map((t) => t.nodeId),
+          count: g.cardinality.count,
+        };
+      }
       if (g.talents.length === 1) return this.talentLeaf(g.talents[0]);
       return {
         op: innerOp,
@@ -655,9 +816,11 @@ export class ConditionEditor {
       condition = { op: outerOp, children: nonEmpty.map(groupToExpr) };
     }
 
-    if (this.entryIndex != null) {
+    if (this.editingRule) {
+      state.setRule(this.currentTree!, condition, this.ruleIndex ?? undefined);
+    } else if (this.entryIndex != null) {
       // Per-entry conditional: merge with existing entryConditions
-      const existing = state.constraints.get(this.currentNode.id);
+      const existing = state.constraints.get(this.currentNode!.id);
       const others =
         existing?.type === "entry-conditional" && existing.entryConditions
           ? existing.entryConditions.filter(
@@ -666,13 +829,13 @@ export class ConditionEditor {
           : [];
       others.push({ entryIndex: this.entryIndex, condition });
       state.setConstraint({
-        nodeId: this.currentNode.id,
+        nodeId: this.currentNode!.id,
         type: "entry-conditional",
         entryConditions: others,
       });
     } else {
       state.setConstraint({
-        nodeId: this.currentNode.id,
+        nodeId: this.currentNode!.id,
         type: "conditional",
         condition,
       });
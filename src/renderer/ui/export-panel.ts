@@ -1,24 +1,60 @@
 import { state } from "../state";
-import type { Build, Specialization, TalentTree } from "../../shared/types";
-import { MAX_PROFILESETS } from "../../shared/constants";
-import { generateTreeBuilds } from "../../shared/build-counter";
+import type {
+  Build,
+  Constraint,
+  ExportFile,
+  Specialization,
+  TalentTree,
+  TreeCounts,
+} from "../../shared/types";
 import {
-  encodeTalentHash,
-  buildEntryLookup,
-  buildAllNodesForSpec,
-} from "../hash-encoder";
-import type { EncodeInput, NodeSelection } from "../hash-encoder";
+  MAX_CHUNKED_PROFILESETS,
+  MAX_PROFILESETS,
+} from "../../shared/constants";
+import {
+  profilesetBlocks,
+  hashProfilesetBlocks,
+  heroTreeLabel,
+  baseTalentLines,
+} from "../../shared/profilesets";
+import type { HashExportContext } from "../../shared/profilesets";
+import {
+  alwaysBuilds,
+  formatBaseProfile,
+  wrapProfilesets,
+} from "../../shared/simc-profile";
+import { chunkProfilesets } from "../../shared/export-chunks";
+import type { ChunkedExport } from "../../shared/export-chunks";
+import type { BuildSpace } from "../../shared/sampling";
+import {
+  buildMapFileName,
+  namedBuilds,
+  serializeBuildMap,
+} from "../../shared/sim-results";
+import type { NamedBuild } from "../../shared/sim-results";
+import { SamplingControls } from "./sampling-controls";
+import { BaseProfileControls } from "./base-profile-controls";
+import { runInWorker } from "../solver-client";
 
 declare const electronAPI: import("../../shared/types").ElectronAPI;
 
-const TREE_TYPE_NAMES: Record<string, string> = {
-  class: "class_talents",
-  spec: "spec_talents",
-  hero: "hero_talents",
-};
+// Spaces hold the parsed trees, which exported builds and sim results are
+// matched by; counting and sampling need copies carrying rules and spend
+function resolveSpace(space: BuildSpace): BuildSpace {
+  return {
+    ...space,
+    trees: space.trees.map((tree) => state.resolveTree(tree)),
+  };
+}
 
 type ExportFormat = "simc" | "hash";
 
+/** Builds to export; approximate when conditions between trees were ignored. */
+interface ExportTotal {
+  total: bigint;
+  approximate: boolean;
+}
+
 export class ExportPanel {
   private generateBtn: HTMLButtonElement;
   private hintEl: HTMLElement;
@@ -26,7 +62,16 @@ export class ExportPanel {
   private format: ExportFormat = "simc";
   private simcBtn!: HTMLButtonElement;
   private hashBtn!: HTMLButtonElement;
-  private lastTotal = 0n;
+  private allHeroesLabel: HTMLLabelElement;
+  private allHeroesInput: HTMLInputElement;
+  private splitInput: HTMLInputElement;
+  private chunkSizeInput: HTMLInputElement;
+  private sampling = new SamplingControls();
+  private baseProfile = new BaseProfileControls();
+  private lastCounts: TreeCounts | null = null;
+  // Total across every hero tree, counted on the worker; null while counting
+  private heroTotal: ExportTotal | null = null;
+  private heroTotalGeneration = 0;
 
   constructor(counterBar: HTMLElement) {
     const actionsEl = document.createElement("div");
@@ -48,6 +93,45 @@ export class ExportPanel {
     toggle.append(this.simcBtn, this.hashBtn);
     actionsEl.appendChild(toggle);
 
+    this.allHeroesLabel = document.createElement("label");
+    this.allHeroesLabel.className = "export-all-heroes";
+    this.allHeroesLabel.title =
+      "Export class \u00d7 spec \u00d7 hero builds for every hero tree";
+    this.allHeroesInput = document.createElement("input");
+    this.allHeroesInput.type = "checkbox";
+    this.allHeroesInput.addEventListener("change", () => {
+      void this.refreshHeroTotal();
+    });
+    this.allHeroesLabel.append(this.allHeroesInput, "All hero trees");
+    this.allHeroesLabel.style.display = "none";
+    actionsEl.appendChild(this.allHeroesLabel);
+
+    const splitLabel = document.createElement("label");
+    splitLabel.className = "export-all-heroes";
+    splitLabel.title =
+      "Write several files of at most this many profilesets each, " +
+      "plus a manifest of the index range in each file";
+    this.splitInput = document.createElement("input");
+    this.splitInput.type = "checkbox";
+    this.splitInput.addEventListener("change", () => this.updateButtonState());
+    this.chunkSizeInput = document.createElement("input");
+    this.chunkSizeInput.type = "number";
+    this.chunkSizeInput.className = "export-chunk-size";
+    this.chunkSizeInput.min = "1";
+    this.chunkSizeInput.max = String(MAX_PROFILESETS);
+    this.chunkSizeInput.value = String(MAX_PROFILESETS);
+    this.chunkSizeInput.addEventListener("change", () =>
+      this.updateButtonState(),
+    );
+    splitLabel.append(
+      this.splitInput,
+      "Split into files of",
+      this.chunkSizeInput,
+    );
+    actionsEl.appendChild(splitLabel);
+    actionsEl.appendChild(this.sampling.el);
+    actionsEl.appendChild(this.baseProfile.el);
+
     this.generateBtn = document.createElement("button");
     this.generateBtn.className = "btn btn-primary";
     this.generateBtn.textContent = "Generate";
@@ -64,8 +148,12 @@ export class ExportPanel {
 
     state.subscribe((event) => {
       if (event.type === "count-updated") {
-        this.lastTotal = event.counts.totalCount;
-        this.updateButtonState();
+        this.lastCounts = event.counts;
+        void this.refreshHeroTotal();
+      } else if (event.type === "spec-selected") {
+        const multiple = event.spec.heroTrees.length > 1;
+        this.allHeroesLabel.style.display = multiple ? "" : "none";
+        if (!multiple) this.allHeroesInput.checked = false;
       }
     });
   }
@@ -77,18 +165,174 @@ export class ExportPanel {
     this.updateButtonState();
   }
 
+  private get allHeroes(): boolean {
+    return (
+      this.allHeroesInput.checked &&
+      (state.activeSpec?.heroTrees.length ?? 0) > 1
+    );
+  }
+
+  private get split(): boolean {
+    return this.splitInput.checked;
+  }
+
+  private get limit(): number {
+    return this.split ? MAX_CHUNKED_PROFILESETS : MAX_PROFILESETS;
+  }
+
+  /** Profilesets per file, clamped to what one Raidbots job accepts. */
+  private get chunkSize(): number {
+    const size = Math.floor(Number(this.chunkSizeInput.value));
+    if (!Number.isFinite(size) || size < 1) return MAX_PROFILESETS;
+    return Math.min(size, MAX_PROFILESETS);
+  }
+
+  /** Null while the all-hero-trees total is still being counted. */
+  private totalBuilds(): ExportTotal | null {
+    const counts = this.lastCounts;
+    if (!counts) return { total: 0n, approximate: false };
+    if (!this.allHeroes) {
+      return {
+        total: counts.totalCount,
+        approximate: counts.totalWarning != null,
+      };
+    }
+    return this.heroTotal;
+  }
+
+  /**
+   * Recounts the all-hero-trees total on the worker. A total superseded by
+   * newer counts is dropped.
+   */
+  private async refreshHeroTotal(): Promise<void> {
+    const generation = ++this.heroTotalGeneration;
+    const counts = this.lastCounts;
+    const spec = state.activeSpec;
+    this.heroTotal = null;
+    this.updateButtonState();
+    if (!counts || !spec || !this.allHeroes) return;
+
+    let total = 0n;
+    let approximate = false;
+    for (const space of this.heroSpaces(spec)) {
+      // The active hero tree's total already came from the worker
+      if (space.trees[2] === state.activeHeroTree) {
+        total += counts.totalCount;
+        approximate ||= counts.totalWarning != null;
+        continue;
+      }
+      const count = await this.heroSpaceTotal(space, counts);
+      total += count.total;
+      approximate ||= count.approximate;
+    }
+    if (generation !== this.heroTotalGeneration) return;
+    this.heroTotal = { total, approximate };
+    this.updateButtonState();
+  }
+
+  /**
+   * Builds in an inactive hero tree's space. If the conditions between
+   * trees can't be counted, falls back to class × spec × hero.
+   */
+  private async heroSpaceTotal(
+    space: BuildSpace,
+    counts: TreeCounts,
+  ): Promise<ExportTotal> {
+    const trees = resolveSpace(space).trees;
+    try {
+      const total = await runInWorker({
+        type: "count-total",
+        trees,
+        constraints: space.constraints,
+      });
+      return { total, approximate: false };
+    } catch (err) {
+      console.error("[export] cross-tree total failed:", err);
+    }
+    try {
+      const heroCount = await runInWorker({
+        type: "count-total",
+        trees: [trees[2]],
+        constraints: state.getHeroTreeConstraints(space.trees[2]),
+      });
+      return {
+        total: counts.classCount * counts.specCount * heroCount,
+        approximate: true,
+      };
+    } catch (err) {
+      console.error("[export] hero tree count failed:", err);
+      return { total: 0n, approximate: true };
+    }
+  }
+
+  /**
+   * Class × spec × hero space for each of `heroTrees`, or just class × spec
+   * when there are none.
+   */
+  private heroSpaces(
+    spec: Specialization,
+    heroTrees = spec.heroTrees,
+  ): BuildSpace[] {
+    const baseTrees = [spec.classTree, spec.specTree];
+    const baseConstraints = new Map<number, Constraint>();
+    for (const tree of baseTrees) {
+      for (const [id, c] of state.getConstraintsForTree(tree)) {
+        baseConstraints.set(id, c);
+      }
+    }
+    if (heroTrees.length === 0) {
+      return [{ trees: baseTrees, constraints: baseConstraints }];
+    }
+    return heroTrees.map((heroTree) => ({
+      trees: [...baseTrees, heroTree],
+      constraints: new Map([
+        ...baseConstraints,
+        ...state.getHeroTreeConstraints(heroTree),
+      ]),
+    }));
+  }
+
   private updateButtonState(): void {
-    const total = this.lastTotal;
-    const MAX_BIG = BigInt(MAX_PROFILESETS);
+    const counted = this.totalBuilds();
+    this.chunkSizeInput.disabled = !this.split;
+    if (!counted) {
+      this.sampling.setVisible(false);
+      this.generateBtn.disabled = true;
+      this.hintEl.textContent = "Counting builds across hero trees\u2026";
+      return;
+    }
+
+    const total = counted.total;
+    const totalText =
+      (counted.approximate ? "\u2248" : "") + total.toLocaleString();
+    const limit = this.limit;
+    const sampling = total > BigInt(limit);
+    this.sampling.setVisible(sampling);
+
+    let totalHint = "";
+    if (sampling) {
+      totalHint = `Sampling ${limit.toLocaleString()} of ${totalText} builds`;
+    } else if (this.allHeroes) {
+      totalHint = `${totalText} builds across hero trees`;
+    }
+    if (this.split && total > 0n) {
+      const exported = sampling ? BigInt(limit) : total;
+      const chunk = BigInt(this.chunkSize);
+      const files = (exported + chunk - 1n) / chunk;
+      const filesHint = `${files.toLocaleString()} files`;
+      totalHint = totalHint ? `${totalHint} \u00b7 ${filesHint}` : filesHint;
+    }
     if (this.format === "simc") {
-      this.generateBtn.disabled = total <= 0n || total > MAX_BIG;
-      this.hintEl.textContent = "";
+      this.generateBtn.disabled = total <= 0n;
+      this.hintEl.textContent = totalHint;
     } else {
       const specId = state.activeSpec?.specId;
       const hasHash = specId != null && state.getTreeHash(specId) != null;
       const noHash = total > 0n && !hasHash;
-      this.generateBtn.disabled = total <= 0n || !hasHash || total > MAX_BIG;
-      this.hintEl.textContent = noHash ? "Import a talent hash to enable" : "";
+      this.generateBtn.disabled = total <= 0n || !hasHash;
+      this.hintEl.textContent = noHash
+        ? "Import a talent hash to enable"
+        : totalHint;
     }
   }
 
@@ -100,192 +344,144 @@ export class ExportPanel {
       const spec = state.activeSpec;
       if (!spec) return;
 
-      const trees: TalentTree[] = [spec.classTree, spec.specTree];
-      const heroTree = state.activeHeroTree;
-      if (heroTree) trees.push(heroTree);
+      // One space per exported hero tree; all-heroes mode labels each
+      // profileset with its hero tree.
+      const heroTrees = this.allHeroes
+        ? spec.heroTrees
+        : [state.activeHeroTree].filter((t): t is TalentTree => t != null);
+      const spaces = this.heroSpaces(spec, heroTrees);
+
+      const sampled = await runInWorker({
+        type: "sample",
+        spaces: spaces.map(resolveSpace),
+        options: { ...this.sampling.options, limit: this.limit },
+      });
 
-      const allBuilds = trees.map((tree) => {
-        const constraints = state.getConstraintsForTree(tree);
-        return generateTreeBuilds(tree, constraints);
+      const blocks: string[] = [];
+      const named: NamedBuild[] = [];
+      spaces.forEach((space, i) => {
+        const heroTree = heroTrees[i] ?? null;
+        const label =
+          this.allHeroes && heroTree ? heroTreeLabel(heroTree) : undefined;
+        named.push(...namedBuilds(sampled[i], space.trees, label));
+        blocks.push(
+          ...(this.format === "simc"
+            ? profilesetBlocks(sampled[i], space.trees, label)
+            : this.generateHashes(
+                sampled[i],
+                space.trees,
+                spec,
+                heroTree,
+                label,
+              )),
+        );
       });
 
-      if (this.format === "simc") {
-        const output = this.generateProfilesets(allBuilds, trees);
-        this.showExportDialog(output, "simc");
+      state.setExportedBuilds(named);
+      // Saved next to the export so results can be matched later on
+      const buildMap: ExportFile = {
+        name: buildMapFileName(this.exportBaseName(this.format)),
+        content: JSON.stringify(serializeBuildMap(named, spec)),
+      };
+
+      // With a base profile every output is a runnable .simc file; its
+      // talents come from the active hero tree's space.
+      const active = heroTrees.findIndex((t) => t === state.activeHeroTree);
+      const header = this.baseProfileHeader(spec, spaces[Math.max(0, active)]);
+
+      if (this.split) {
+        const ext = this.format === "hash" && !header ? "txt" : "simc";
+        const chunked = chunkProfilesets(
+          blocks,
+          this.exportBaseName(this.format),
+          this.chunkSize,
+          ext,
+          header ?? undefined,
+        );
+        chunked.files.push(buildMap);
+        this.showChunkedDialog(chunked, this.format);
       } else {
-        const output = this.generateHashes(allBuilds, trees, spec);
-        this.showExportDialog(output, "hash");
+        const output = blocks.join("\n");
+        this.showExportDialog(
+          header ? wrapProfilesets(header, output) : output,
+          this.format,
+          buildMap,
+          header != null,
+        );
       }
+    } catch (err) {
+      console.error("Failed to generate builds:", err);
+      this.hintEl.textContent =
+        err instanceof Error ? err.message : String(err);
     } finally {
       this.generateBtn.disabled = false;
       this.generateBtn.textContent = "Generate";
     }
   }
 
-  private generateProfilesets(
-    allBuilds: Build[][],
-    trees: TalentTree[],
-  ): string {
-    if (allBuilds.some((b) => b.length === 0)) return "";
-
-    const treeTypes = trees.map((t) => TREE_TYPE_NAMES[t.type]);
-    const lines: string[] = [];
-    let index = 0;
-    const indices = new Array(allBuilds.length).fill(0);
-
-    while (true) {
-      const name = String(index).padStart(4, "0");
-      const parts: string[] = [];
-
-      for (let i = 0; i < allBuilds.length; i++) {
-        const build = allBuilds[i][indices[i]];
-        const encoded = this.encodeBuild(build);
-        if (i === 0) {
-          parts.push(`profileset.build_${name}=${treeTypes[i]}=${encoded}`);
-        } else {
-          parts.push(`profileset.build_${name}+=${treeTypes[i]}=${encoded}`);
-        }
-      }
-
-      lines.push(parts.join("\n"));
-      index++;
-
-      let carry = true;
-      for (let i = allBuilds.length - 1; i >= 0 && carry; i--) {
-        indices[i]++;
-        if (indices[i] < allBuilds[i].length) {
-          carry = false;
-        } else {
-          indices[i] = 0;
-        }
-      }
-      if (carry) break;
-    }
-
-    return lines.join("\n");
-  }
-
   private generateHashes(
-    allBuilds: Build[][],
+    combos: Build[][],
     trees: TalentTree[],
     spec: Specialization,
-  ): string {
-    if (allBuilds.some((b) => b.length === 0)) return "";
-
-    const specId = spec.specId;
-    if (specId == null) return "";
-    const treeHashBytes = state.getTreeHash(specId);
-    if (!treeHashBytes) return "";
+    heroTree: TalentTree | null,
+    label?: string,
+  ): string[] {
+    const ctx = this.hashContext(spec, heroTree, label);
+    return ctx ? hashProfilesetBlocks(combos, trees, ctx) : [];
+  }
 
-    const entryLookups = trees.map((tree) =>
-      buildEntryLookup(tree.nodes.values()),
-    );
+  private hashContext(
+    spec: Specialization,
+    heroTree: TalentTree | null,
+    label?: string,
+  ): HashExportContext | null {
+    if (spec.specId == null) return null;
+    const treeHashBytes = state.getTreeHash(spec.specId);
+    if (!treeHashBytes) return null;
+
+    return {
+      spec,
+      sameClassSpecs: state.specs.filter(
+        (s) => s.className === spec.className,
+      ),
+      treeHashBytes,
+      heroTree,
+      label,
+    };
+  }
 
-    const sameClassSpecs = state.specs.filter(
-      (s) => s.className === spec.className,
+  /**
+   * The selected base profile with the space's Always picks as its
+   * talents — a `talents=` string when a tree hash is known.
+   */
+  private baseProfileHeader(
+    spec: Specialization,
+    space: BuildSpace,
+  ): string | null {
+    const profile = this.baseProfile.selected;
+    if (!profile) return null;
+
+    const heroTree = space.trees.find((t) => t.type === "hero") ?? null;
+    const talents = baseTalentLines(
+      alwaysBuilds(space.trees, space.constraints),
+      space.trees,
+      this.hashContext(spec, heroTree) ?? undefined,
     );
-    const { allNodes, allNodeMap } = buildAllNodesForSpec(sameClassSpecs);
-
-    const heroTree = state.activeHeroTree;
-    let subTreeNodeId: number | undefined;
-    let subTreeEntryIndex: number | undefined;
-    if (heroTree?.subTreeId != null) {
-      for (const s of sameClassSpecs) {
-        for (const stn of s.subTreeNodes) {
-          const idx = stn.entries.findIndex(
-            (e) => e.traitSubTreeId === heroTree.subTreeId,
-          );
-          if (idx >= 0) {
-            subTreeNodeId = stn.id;
-            subTreeEntryIndex = idx;
-            break;
-          }
-        }
-        if (subTreeNodeId != null) break;
-      }
-    }
-
-    // Free/granted nodes from the active spec's trees only — selected but
-    // not purchased. Other specs' free nodes remain unselected (0 bit).
-    const freeNodeIds = new Set<number>();
-    for (const tree of trees) {
-      for (const node of tree.nodes.values()) {
-        if (node.freeNode || node.entryNode) freeNodeIds.add(node.id);
-      }
-    }
-
-    const lines: string[] = [];
-    const indices = new Array(allBuilds.length).fill(0);
-    let index = 0;
-
-    while (true) {
-      const selections = new Map<number, NodeSelection>();
-
-      // Free/granted nodes — selected but not purchased
-      for (const nodeId of freeNodeIds) {
-        const node = allNodeMap.get(nodeId);
-        if (node) {
-          selections.set(nodeId, {
-            ranks: node.maxRanks,
-            isPurchased: false,
-          });
-        }
-      }
-
-      // SubTreeNode selection (hero tree choice)
-      if (subTreeNodeId != null && subTreeEntryIndex != null) {
-        selections.set(subTreeNodeId, {
-          ranks: 1,
-          entryIndex: subTreeEntryIndex,
-          isPurchased: true,
-        });
-      }
-
-      for (let i = 0; i < allBuilds.length; i++) {
-        const build = allBuilds[i][indices[i]];
-        const lookup = entryLookups[i];
-        for (const [entryId, points] of build.entries) {
-          if (points <= 0) continue;
-          const info = lookup.get(entryId);
-          if (!info) continue;
-          selections.set(info.nodeId, {
-            ranks: points,
-            entryIndex: info.entryIndex,
-            isPurchased: true,
-          });
-        }
-      }
-
-      const input: EncodeInput = { specId, treeHashBytes, selections };
-      const hash = encodeTalentHash(input, allNodes);
-      const name = String(index).padStart(4, "0");
-      lines.push(`profileset.build_${name}=talents=${hash}`);
-      index++;
-
-      let carry = true;
-      for (let i = allBuilds.length - 1; i >= 0 && carry; i--) {
-        indices[i]++;
-        if (indices[i] < allBuilds[i].length) {
-          carry = false;
-        } else {
-          indices[i] = 0;
-        }
-      }
-      if (carry) break;
-    }
-
-    return lines.join("\n");
+    return formatBaseProfile(profile, talents);
   }
 
-  private encodeBuild(build: Build): string {
-    return Array.from(build.entries.entries())
-      .filter(([, points]) => points > 0)
-      .sort(([a], [b]) => a - b)
-      .map(([id, points]) => `${id}:${points}`)
-      .join("/");
+  private exportBaseName(format: ExportFormat): string {
+    const spec = state.activeSpec;
+    const suffix = format === "hash" ? "hashes" : "profiles";
+    return spec ? `${spec.className}_${spec.specName}_${suffix}` : suffix;
   }
 
-  private showExportDialog(output: string, format: ExportFormat): void {
+  private showExportDialog(
+    output: string,
+    format: ExportFormat,
+    buildMap: ExportFile,
+    runnable = false,
+  ): void {
     const isHash = format === "hash";
     const dialog = document.createElement("div");
     dialog.className = "export-dialog";
@@ -346,18 +542,9 @@ export class ExportPanel {
     saveBtn.className = "btn btn-primary";
     saveBtn.textContent = "Save to File";
     saveBtn.addEventListener("click", async () => {
-      const spec = state.activeSpec;
-      let defaultName: string;
-      if (spec && isHash) {
-        defaultName = `${spec.className}_${spec.specName}_hashes.txt`;
-      } else if (spec) {
-        defaultName = `${spec.className}_${spec.specName}_profiles.simc`;
-      } else if (isHash) {
-        defaultName = "hashes.txt";
-      } else {
-        defaultName = "profiles.simc";
-      }
-      await electronAPI.saveFile(output, defaultName);
+      const ext = isHash && !runnable ? "txt" : "simc";
+      const defaultName = `${this.exportBaseName(format)}.${ext}`;
+      await electronAPI.saveFile(output, defaultName, [buildMap]);
     });
     actions.appendChild(saveBtn);
 
@@ -371,4 +558,86 @@ export class ExportPanel {
 
     this.dialogContainer.appendChild(dialog);
   }
+
+  private showChunkedDialog(
+    chunked: ChunkedExport,
+    format: ExportFormat,
+  ): void {
+    const { manifest } = chunked;
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+
+    const title = document.createElement("h2");
+    title.textContent =
+      format === "hash" ? "Export Talent Hashes" : "Export Profilesets";
+    header.appendChild(title);
+
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "\u00d7";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.appendChild(closeBtn);
+
+    content.appendChild(header);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+
+    const table = document.createElement("table");
+    table.className = "export-chunk-table";
+    const headRow = table.createTHead().insertRow();
+    for (const label of ["File", "Indices", "Profilesets"]) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      headRow.appendChild(th);
+    }
+    const tbody = table.createTBody();
+    for (const entry of manifest.files) {
+      const row = tbody.insertRow();
+      row.insertCell().textContent = entry.file;
+      row.insertCell().textContent =
+        `${entry.firstIndex}\u2013${entry.lastIndex}`;
+      row.insertCell().textContent = entry.count.toLocaleString();
+    }
+    body.appendChild(table);
+    content.appendChild(body);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    stats.textContent =
+      `${manifest.totalProfilesets.toLocaleString()} profilesets in ` +
+      `${manifest.files.length.toLocaleString()} files + manifest and ` +
+      "build map";
+    footer.appendChild(stats);
+
+    const saveBtn = document.createElement("button");
+    saveBtn.className = "btn btn-primary";
+    saveBtn.textContent = "Save to Folder";
+    saveBtn.addEventListener("click", async () => {
+      const dir = await electronAPI.saveDirectory(
+        chunked.files,
+        manifest.baseName,
+      );
+      if (dir) stats.textContent = `Saved to ${dir}`;
+    });
+    footer.appendChild(saveBtn);
+
+    content.appendChild(footer);
+    dialog.appendChild(content);
+
+    dialog.addEventListener("click", (e) => {
+      if (e.target === dialog) dialog.remove();
+    });
+
+    this.dialogContainer.appendChild(dialog);
+  }
 }
@@ -0,0 +1,100 @@
+import { state } from "../state";
+
+/**
+ * Lists undoable and redoable edits. Clicking an entry undoes or redoes
+ * back to the point just after it.
+ */
+export class HistoryPanel {
+  private dialogContainer: HTMLElement;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  open(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = state.subscribe((event) => {
+      if (event.type === "history-changed") this.show();
+    });
+    this.show();
+  }
+
+  private close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.dialogContainer.querySelector(".history-dialog")?.remove();
+  }
+
+  private show(): void {
+    this.dialogContainer.querySelector(".history-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog history-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "History";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => this.close());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+    body.appendChild(this.renderList());
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    stats.textContent = "Ctrl/Cmd+Z to undo · Shift+Ctrl/Cmd+Z to redo";
+    footer.appendChild(stats);
+
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+    this.dialogContainer.appendChild(dialog);
+  }
+
+  private renderList(): HTMLElement {
+    const past = state.undoStack;
+    const future = state.redoStack;
+    const list = document.createElement("ol");
+    list.className = "history-list";
+
+    const addItem = (label: string, className: string, go: () => void) => {
+      const item = document.createElement("li");
+      item.className = `history-item ${className}`;
+      item.textContent = label;
+      item.addEventListener("click", go);
+      list.appendChild(item);
+    };
+
+    const undoTimes = (n: number) => () => {
+      for (let i = 0; i < n; i++) state.undo();
+    };
+    const redoTimes = (n: number) => () => {
+      for (let i = 0; i < n; i++) state.redo();
+    };
+
+    const atStart = past.length === 0;
+    addItem("Start", atStart ? "current" : "", undoTimes(past.length));
+    past.forEach((command, i) => {
+      const isCurrent = i === past.length - 1;
+      addItem(
+        command.label,
+        isCurrent ? "current" : "",
+        undoTimes(past.length - 1 - i),
+      );
+    });
+    future.forEach((command, i) => {
+      addItem(command.label, "undone", redoTimes(i + 1));
+    });
+    return list;
+  }
+}
@@ -0,0 +1,68 @@
+import { state } from "../state";
+import type { CheckedLoadout } from "../../shared/loadout-format";
+
+/** Lists what changed in the talent data since a loaded loadout was saved. */
+export class LoadoutReportDialog {
+  private dialogContainer: HTMLElement;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  show(checked: CheckedLoadout): void {
+    this.dialogContainer.querySelector(".loadout-report-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog loadout-report-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Loadout Check";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => {
+      state.highlightNodes([]);
+      dialog.remove();
+    });
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+    const list = document.createElement("ul");
+    list.className = "next-round-list";
+    for (const issue of checked.issues) {
+      const item = document.createElement("li");
+      item.textContent = issue.message;
+      const { nodeId } = issue;
+      if (nodeId != null) {
+        item.addEventListener("mouseenter", () =>
+          state.highlightNodes([nodeId]),
+        );
+        item.addEventListener("mouseleave", () => state.highlightNodes([]));
+      }
+      list.appendChild(item);
+    }
+    body.appendChild(list);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    const { skippedConstraints, skippedRules } = checked;
+    stats.textContent =
+      skippedConstraints + skippedRules > 0
+        ? `Skipped ${skippedConstraints} constraints and ${skippedRules} ` +
+          "rules on talents that are gone"
+        : "Everything in the loadout was applied";
+    footer.appendChild(stats);
+
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+    this.dialogContainer.appendChild(dialog);
+  }
+}
@@ -0,0 +1,194 @@
+import { state } from "../state";
+import type { TalentTree } from "../../shared/types";
+import { analyzeMarginals, samplesForTree } from "../../shared/marginals";
+import type { MarginalAnalysis, NodeValue } from "../../shared/marginals";
+
+const DEFAULT_TOP_K = 10;
+
+function formatDps(value: number | null): string {
+  return value != null ? Math.round(value).toLocaleString() : "—";
+}
+
+function formatDelta(value: number | null): string {
+  if (value == null) return "—";
+  const sign = value >= 0 ? "+" : "−";
+  return `${sign}${Math.abs(Math.round(value)).toLocaleString()}`;
+}
+
+function treeTitle(tree: TalentTree): string {
+  if (tree.type === "hero") return tree.subTreeName ?? "Hero";
+  return tree.type === "class" ? "Class" : "Spec";
+}
+
+/**
+ * Per-talent statistics from imported sim results: DPS with and without
+ * each node, top-K presence and the strongest pairwise synergies.
+ */
+export class MarginalsPanel {
+  private dialogContainer: HTMLElement;
+  private topK = DEFAULT_TOP_K;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  show(): void {
+    this.dialogContainer.querySelector(".marginals-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog marginals-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+    content.style.cssText = "width: 820px;";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Talent Values";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+    this.renderBody(body);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+
+    const topKLabel = document.createElement("label");
+    topKLabel.className = "export-all-heroes";
+    const topKInput = document.createElement("input");
+    topKInput.type = "number";
+    topKInput.className = "export-chunk-size";
+    topKInput.min = "1";
+    topKInput.value = String(this.topK);
+    topKInput.addEventListener("change", () => {
+      this.topK = Math.max(1, Math.floor(Number(topKInput.value)) || 1);
+      this.renderBody(body);
+    });
+    topKLabel.append("Top", topKInput, "builds");
+
+    const overlayLabel = document.createElement("label");
+    overlayLabel.className = "export-all-heroes";
+    const overlayInput = document.createElement("input");
+    overlayInput.type = "checkbox";
+    overlayInput.checked = state.marginalOverlay;
+    overlayInput.addEventListener("change", () =>
+      state.setMarginalOverlay(overlayInput.checked),
+    );
+    overlayLabel.append(overlayInput, "Show on trees");
+
+    footer.append(topKLabel, overlayLabel);
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+
+    dialog.addEventListener("click", (e) => {
+      if (e.target === dialog) dialog.remove();
+    });
+
+    this.dialogContainer.appendChild(dialog);
+  }
+
+  private renderBody(body: HTMLElement): void {
+    body.replaceChildren();
+
+    const trees: TalentTree[] = [];
+    for (const result of state.simResults) {
+      for (const tree of result.trees) {
+        if (!trees.includes(tree)) trees.push(tree);
+      }
+    }
+
+    for (const tree of trees) {
+      const analysis = analyzeMarginals(
+        tree,
+        samplesForTree(state.simResults, tree),
+        { topK: this.topK },
+      );
+      const heading = document.createElement("h3");
+      heading.className = "marginals-heading";
+      heading.textContent =
+        `${treeTitle(tree)} · ` +
+        `${analysis.sampleCount.toLocaleString()} builds`;
+      body.append(heading, this.nodeTable(tree, analysis));
+      if (analysis.synergies.length > 0) {
+        body.appendChild(this.synergyTable(tree, analysis));
+      }
+    }
+  }
+
+  private nodeTable(
+    tree: TalentTree,
+    analysis: MarginalAnalysis,
+  ): HTMLTableElement {
+    const table = document.createElement("table");
+    table.className = "export-chunk-table results-table";
+    const headRow = table.createTHead().insertRow();
+    for (const label of [
+      "Talent",
+      "Taken",
+      "With",
+      "Without",
+      "Δ",
+      `Top ${analysis.topK}`,
+      "Best #",
+    ]) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      headRow.appendChild(th);
+    }
+
+    // Nodes every build agrees on carry no information
+    const rows = analysis.nodes
+      .filter((v): v is NodeValue & { delta: number } => v.delta != null)
+      .sort((a, b) => b.delta - a.delta);
+
+    const tbody = table.createTBody();
+    for (const value of rows) {
+      const row = tbody.insertRow();
+      row.insertCell().textContent = tree.nodes.get(value.nodeId)?.name ?? "";
+      row.insertCell().textContent =
+        `${value.withCount.toLocaleString()} / ` +
+        `${analysis.sampleCount.toLocaleString()}`;
+      row.insertCell().textContent = formatDps(value.meanWith);
+      row.insertCell().textContent = formatDps(value.meanWithout);
+      const deltaCell = row.insertCell();
+      deltaCell.textContent = formatDelta(value.delta);
+      deltaCell.className = value.delta >= 0 ? "results-up" : "results-down";
+      row.insertCell().textContent = `${Math.round(value.topShare * 100)}%`;
+      row.insertCell().textContent =
+        value.bestRank != null ? String(value.bestRank) : "—";
+    }
+    return table;
+  }
+
+  private synergyTable(
+    tree: TalentTree,
+    analysis: MarginalAnalysis,
+  ): HTMLTableElement {
+    const table = document.createElement("table");
+    table.className = "export-chunk-table results-table marginals-synergy";
+    const headRow = table.createTHead().insertRow();
+    for (const label of ["Talent pair", "Synergy"]) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      headRow.appendChild(th);
+    }
+
+    const tbody = table.createTBody();
+    for (const synergy of analysis.synergies) {
+      const row = tbody.insertRow();
+      const a = tree.nodes.get(synergy.nodeA)?.name ?? "";
+      const b = tree.nodes.get(synergy.nodeB)?.name ?? "";
+      row.insertCell().textContent = `${a} + ${b}`;
+      const scoreCell = row.insertCell();
+      scoreCell.textContent = formatDelta(synergy.score);
+      scoreCell.className = synergy.score >= 0 ? "results-up" : "results-down";
+    }
+    return table;
+  }
+}
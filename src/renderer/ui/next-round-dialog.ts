@@ -0,0 +1,197 @@
+import { state } from "../state";
+import type { Constraint, TalentTree } from "../../shared/types";
+import { makeRound, proposeConstraints } from "../../shared/next-round";
+import { rankRangeText } from "../../shared/rank-range";
+import { runInWorker } from "../solver-client";
+
+const DEFAULT_TOP_N = 10;
+
+function describe(constraint: Constraint, trees: TalentTree[]): string {
+  const node = trees
+    .map((t) => t.nodes.get(constraint.nodeId))
+    .find((n) => n != null);
+  if (!node) return `Node ${constraint.nodeId}`;
+  if (constraint.type === "never") return `Never: ${node.name}`;
+
+  const entry =
+    constraint.entryIndex != null
+      ? node.entries[constraint.entryIndex]?.name
+      : null;
+  const ranks = rankRangeText(node, constraint);
+  const rank = ranks != null ? ` ${ranks}/${node.maxRanks}` : "";
+  return `Always: ${entry ?? node.name}${rank}`;
+}
+
+/**
+ * Proposes constraints from the imported results — lock what the top
+ * builds agree on — previews the resulting build count and applies the
+ * chosen ones as a new round.
+ */
+export class NextRoundDialog {
+  private dialogContainer: HTMLElement;
+  private topN = DEFAULT_TOP_N;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  show(): void {
+    const spec = state.activeSpec;
+    if (!spec) return;
+    const trees = [spec.classTree, spec.specTree];
+    if (state.activeHeroTree) trees.push(state.activeHeroTree);
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+    content.style.cssText = "width: 560px;";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = `Next Round (${state.rounds.length + 1})`;
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+
+    const topNLabel = document.createElement("label");
+    topNLabel.className = "export-all-heroes";
+    const topNInput = document.createElement("input");
+    topNInput.type = "number";
+    topNInput.className = "export-chunk-size";
+    topNInput.min = "1";
+    topNInput.value = String(this.topN);
+    topNLabel.append("Lock what the top", topNInput, "builds agree on");
+
+    const list = document.createElement("div");
+    list.className = "next-round-list";
+
+    const preview = document.createElement("p");
+    preview.className = "results-note";
+
+    const history = document.createElement("div");
+    history.className = "next-round-history";
+    for (const round of state.rounds) {
+      const item = document.createElement("div");
+      item.textContent =
+        `Round ${round.round} · ${round.date.slice(0, 10)} · ` +
+        `${round.simmedBuilds.toLocaleString()} simmed, top ${round.topN} · ` +
+        `${round.added.length} constraints added`;
+      history.appendChild(item);
+    }
+
+    body.append(topNLabel, list, preview);
+    if (state.rounds.length > 0) {
+      const historyTitle = document.createElement("h3");
+      historyTitle.className = "marginals-heading";
+      historyTitle.textContent = "Previous rounds";
+      body.append(historyTitle, history);
+    }
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+    footer.style.cssText = "justify-content: flex-end; gap: 8px;";
+
+    const applyBtn = document.createElement("button");
+    applyBtn.className = "btn btn-primary";
+    applyBtn.textContent = "Apply";
+
+    let proposals: Constraint[] = [];
+    const checks: HTMLInputElement[] = [];
+    const chosen = (): Constraint[] =>
+      proposals.filter((_, i) => checks[i].checked);
+
+    // Counted on the worker; a preview superseded by a later one is dropped
+    const resolved = state.activeTrees;
+    const before = runInWorker({
+      type: "count-total",
+      trees: resolved,
+      constraints: state.constraints,
+    });
+    let previewGeneration = 0;
+    const updatePreview = async (): Promise<void> => {
+      const generation = ++previewGeneration;
+      applyBtn.disabled = chosen().length === 0;
+      const after = new Map(state.constraints);
+      for (const c of chosen()) after.set(c.nodeId, c);
+      preview.textContent = "Builds: counting…";
+      try {
+        const [from, to] = await Promise.all([
+          before,
+          runInWorker({
+            type: "count-total",
+            trees: resolved,
+            constraints: after,
+          }),
+        ]);
+        if (generation !== previewGeneration) return;
+        preview.textContent =
+          `Builds: ${from.toLocaleString()} → ${to.toLocaleString()}`;
+      } catch (err) {
+        if (generation !== previewGeneration) return;
+        console.error("[next-round] count failed:", err);
+        const reason = err instanceof Error ? err.message : String(err);
+        preview.textContent = `Builds: couldn't count (${reason})`;
+      }
+    };
+
+    const propose = (): void => {
+      this.topN = Math.max(1, Math.floor(Number(topNInput.value)) || 1);
+      proposals = proposeConstraints(
+        state.simResults,
+        trees,
+        state.constraints,
+        this.topN,
+      );
+      list.replaceChildren();
+      checks.length = 0;
+      if (proposals.length === 0) {
+        list.textContent = "The top builds don't agree on any open talent.";
+      }
+      for (const constraint of proposals) {
+        const row = document.createElement("label");
+        row.className = "export-all-heroes next-round-item";
+        const check = document.createElement("input");
+        check.type = "checkbox";
+        check.checked = true;
+        check.addEventListener("change", () => void updatePreview());
+        checks.push(check);
+        row.append(check, describe(constraint, trees));
+        list.appendChild(row);
+      }
+      void updatePreview();
+    };
+    topNInput.addEventListener("change", propose);
+
+    applyBtn.addEventListener("click", () => {
+      const added = chosen();
+      const round = makeRound(state.rounds, state.simResults, this.topN, added);
+      state.record(`Next round (${added.length} talents)`, () => {
+        for (const constraint of added) {
+          state.setConstraint(constraint);
+          if (state.hasValidationError) break;
+        }
+      });
+      state.addRound(round);
+      dialog.remove();
+    });
+
+    footer.appendChild(applyBtn);
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+
+    dialog.addEventListener("click", (e) => {
+      if (e.target === dialog) dialog.remove();
+    });
+
+    this.dialogContainer.appendChild(dialog);
+    propose();
+  }
+}
@@ -0,0 +1,52 @@
+import { state } from "../state";
+
+/** Edits the free-form notes saved with the loadout. */
+export class NotesDialog {
+  private dialogContainer: HTMLElement;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  open(): void {
+    this.dialogContainer.querySelector(".notes-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog notes-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Loadout Notes";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+    const textarea = document.createElement("textarea");
+    textarea.className = "export-output";
+    textarea.rows = 10;
+    textarea.placeholder = "What this loadout is for, what to try next…";
+    textarea.value = state.notes;
+    textarea.addEventListener("input", () => state.setNotes(textarea.value));
+    body.appendChild(textarea);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    stats.textContent = "Saved with the loadout";
+    footer.appendChild(stats);
+
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+    this.dialogContainer.appendChild(dialog);
+    textarea.focus();
+  }
+}
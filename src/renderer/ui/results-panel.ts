@@ -0,0 +1,274 @@
+import { state } from "../state";
+import {
+  matchResults,
+  parseBuildMap,
+  parseSimResults,
+} from "../../shared/sim-results";
+import type { BuildResult, SimResultSet } from "../../shared/sim-results";
+import { MarginalsPanel } from "./marginals-panel";
+import { NextRoundDialog } from "./next-round-dialog";
+
+declare const electronAPI: import("../../shared/types").ElectronAPI;
+
+type SortKey = "name" | "dps" | "error";
+
+// Rows beyond this are summarised rather than rendered
+const MAX_ROWS = 500;
+
+/**
+ * Imports SimC / Raidbots profileset results for the last export and shows
+ * them as a sortable table.
+ */
+export class ResultsPanel {
+  private dialogContainer: HTMLElement;
+  private baselineDps: number | undefined;
+  // Imported results waiting for a build map to match them against
+  private unmatched: SimResultSet | null = null;
+  private sortKey: SortKey = "dps";
+  private descending = true;
+  private marginals = new MarginalsPanel();
+  private nextRound = new NextRoundDialog();
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  /** Shows the current results, or asks for a file if there are none. */
+  async open(): Promise<void> {
+    if (state.simResults.length > 0) {
+      this.show();
+    } else {
+      await this.importResults();
+    }
+  }
+
+  async importResults(): Promise<void> {
+    const json = await electronAPI.loadSimResults();
+    if (json == null) return;
+
+    let parsed: SimResultSet;
+    try {
+      parsed = parseSimResults(json);
+    } catch (e) {
+      this.show(e instanceof Error ? e.message : String(e));
+      return;
+    }
+
+    this.applyResults(parsed);
+  }
+
+  /** Matches waiting results against the build map saved with an export. */
+  private async openBuildMap(): Promise<void> {
+    const pending = this.unmatched;
+    const spec = state.activeSpec;
+    if (!pending || !spec) return;
+    const json = await electronAPI.loadBuildMap();
+    if (json == null) return;
+
+    try {
+      state.setExportedBuilds(parseBuildMap(json, spec));
+    } catch (e) {
+      this.show(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    this.applyResults(pending);
+  }
+
+  private applyResults(parsed: SimResultSet): void {
+    const { matched, unmatched } = matchResults(
+      parsed.results,
+      state.exportedBuilds,
+    );
+    if (matched.length === 0) {
+      this.unmatched = parsed;
+      this.show(
+        `None of the ${parsed.results.length.toLocaleString()} profilesets ` +
+          "match this session's export. Open the build map (_builds.json) " +
+          "saved with the export to match them.",
+      );
+      return;
+    }
+
+    this.unmatched = null;
+    this.baselineDps = parsed.baselineDps;
+    state.setSimResults(matched);
+    this.show(
+      unmatched.length > 0
+        ? `${unmatched.length.toLocaleString()} profilesets did not match ` +
+            "the last export and were skipped."
+        : undefined,
+    );
+  }
+
+  private sorted(): BuildResult[] {
+    const dir = this.descending ? -1 : 1;
+    return [...state.simResults].sort((a, b) => {
+      switch (this.sortKey) {
+        case "name":
+          return dir * a.name.localeCompare(b.name);
+        case "dps":
+          return dir * (a.dps - b.dps);
+        case "error":
+          return dir * ((a.error ?? 0) - (b.error ?? 0));
+      }
+    });
+  }
+
+  private show(note?: string): void {
+    this.dialogContainer.querySelector(".results-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog results-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Sim Results";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+
+    if (note) {
+      const noteEl = document.createElement("p");
+      noteEl.className = "results-note";
+      noteEl.textContent = note;
+      body.appendChild(noteEl);
+    }
+
+    const results = state.simResults;
+    if (results.length > 0) body.appendChild(this.renderTable());
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    stats.textContent =
+      results.length > 0
+        ? `${results.length.toLocaleString()} builds · nodes coloured ` +
+          "by average DPS when taken"
+        : "";
+    footer.appendChild(stats);
+
+    const actions = document.createElement("div");
+    actions.style.cssText = "display: flex; gap: 8px;";
+
+    if (results.length > 0) {
+      const clearBtn = document.createElement("button");
+      clearBtn.className = "btn btn-secondary";
+      clearBtn.textContent = "Clear";
+      clearBtn.addEventListener("click", () => {
+        state.setSimResults([]);
+        dialog.remove();
+      });
+      actions.appendChild(clearBtn);
+
+      const valuesBtn = document.createElement("button");
+      valuesBtn.className = "btn btn-secondary";
+      valuesBtn.textContent = "Talent Values";
+      valuesBtn.addEventListener("click", () => this.marginals.show());
+      actions.appendChild(valuesBtn);
+
+      const nextBtn = document.createElement("button");
+      nextBtn.className = "btn btn-secondary";
+      nextBtn.textContent = "Next Round";
+      nextBtn.title = "Lock in what the top builds agree on";
+      nextBtn.addEventListener("click", () => {
+        dialog.remove();
+        this.nextRound.show();
+      });
+      actions.appendChild(nextBtn);
+    }
+
+    if (this.unmatched) {
+      const mapBtn = document.createElement("button");
+      mapBtn.className = "btn btn-secondary";
+      mapBtn.textContent = "Open Build Map…";
+      mapBtn.addEventListener("click", () => void this.openBuildMap());
+      actions.appendChild(mapBtn);
+    }
+
+    const importBtn = document.createElement("button");
+    importBtn.className = "btn btn-primary";
+    importBtn.textContent = "Import JSON…";
+    importBtn.addEventListener("click", () => void this.importResults());
+    actions.appendChild(importBtn);
+
+    footer.appendChild(actions);
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+
+    dialog.addEventListener("click", (e) => {
+      if (e.target === dialog) dialog.remove();
+    });
+
+    this.dialogContainer.appendChild(dialog);
+  }
+
+  private renderTable(): HTMLTableElement {
+    const table = document.createElement("table");
+    table.className = "export-chunk-table results-table";
+
+    const reference =
+      this.baselineDps ??
+      state.simResults.reduce((best, r) => Math.max(best, r.dps), 0);
+    const columns: [string, SortKey | null][] = [
+      ["#", null],
+      ["Profileset", "name"],
+      ["DPS", "dps"],
+      [this.baselineDps != null ? "vs base" : "vs best", "dps"],
+      ["Error", "error"],
+    ];
+
+    const headRow = table.createTHead().insertRow();
+    for (const [label, key] of columns) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      if (key) {
+        th.classList.add("sortable");
+        if (key === this.sortKey) {
+          th.textContent += this.descending ? " ▼" : " ▲";
+        }
+        th.addEventListener("click", () => {
+          this.descending = key === this.sortKey ? !this.descending : true;
+          this.sortKey = key;
+          table.replaceWith(this.renderTable());
+        });
+      }
+      headRow.appendChild(th);
+    }
+
+    const tbody = table.createTBody();
+    const rows = this.sorted();
+    rows.slice(0, MAX_ROWS).forEach((result, i) => {
+      const row = tbody.insertRow();
+      const delta = result.dps - reference;
+      row.insertCell().textContent = String(i + 1);
+      row.insertCell().textContent = result.name;
+      row.insertCell().textContent = Math.round(result.dps).toLocaleString();
+      const deltaCell = row.insertCell();
+      const percent = Math.abs((delta / reference) * 100).toFixed(2);
+      deltaCell.textContent = `${delta >= 0 ? "+" : "−"}${percent}%`;
+      deltaCell.className = delta >= 0 ? "results-up" : "results-down";
+      row.insertCell().textContent =
+        result.error != null ? Math.round(result.error).toLocaleString() : "";
+    });
+    if (rows.length > MAX_ROWS) {
+      const row = tbody.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = columns.length;
+      cell.className = "results-note";
+      const more = (rows.length - MAX_ROWS).toLocaleString();
+      cell.textContent = `… ${more} more`;
+    }
+    return table;
+  }
+}
@@ -0,0 +1,129 @@
+import { state } from "../state";
+import type { Specialization } from "../../shared/types";
+import type { SamplingMode, SamplingOptions } from "../../shared/sampling";
+import { canStratify } from "../../shared/sampling";
+import { isRealChoice } from "../../shared/loadout";
+
+const MODE_LABELS: Record<SamplingMode, string> = {
+  even: "Evenly spaced",
+  random: "Random",
+  stratified: "Stratified",
+  diverse: "Most diverse",
+};
+
+/**
+ * Sampling strategy picker, shown when the build count exceeds the
+ * profileset limit.
+ */
+export class SamplingControls {
+  readonly el: HTMLElement;
+  private modeSelect: HTMLSelectElement;
+  private seedInput: HTMLInputElement;
+  private nodeSelect: HTMLSelectElement;
+
+  constructor() {
+    this.el = document.createElement("div");
+    this.el.className = "sampling-controls";
+    this.el.style.display = "none";
+
+    this.modeSelect = document.createElement("select");
+    this.modeSelect.className = "sampling-select";
+    this.modeSelect.title = "How to pick builds when there are too many";
+    for (const [mode, label] of Object.entries(MODE_LABELS)) {
+      this.modeSelect.add(new Option(label, mode));
+    }
+    this.modeSelect.addEventListener("change", () => this.updateVisibility());
+
+    this.seedInput = document.createElement("input");
+    this.seedInput.type = "number";
+    this.seedInput.className = "sampling-seed";
+    this.seedInput.title = "Seed — the same seed picks the same builds";
+    this.seedInput.value = "1";
+    this.seedInput.min = "0";
+
+    this.nodeSelect = document.createElement("select");
+    this.nodeSelect.className = "sampling-select";
+    this.nodeSelect.title = "Split the sample evenly across this choice";
+
+    this.el.append(this.modeSelect, this.nodeSelect, this.seedInput);
+    this.updateVisibility();
+
+    state.subscribe((event) => {
+      if (event.type === "spec-selected") this.populateNodes(event.spec);
+      if (
+        event.type === "constraint-changed" ||
+        event.type === "constraint-removed" ||
+        event.type === "constraints-restored"
+      ) {
+        this.updateStratifiable();
+      }
+    });
+  }
+
+  get options(): Omit<SamplingOptions, "limit"> {
+    const mode = this.modeSelect.value as SamplingMode;
+    const nodeId = Number(this.nodeSelect.value);
+    return {
+      mode,
+      seed: Number(this.seedInput.value) || 0,
+      stratifyNodeId:
+        mode === "stratified" && nodeId > 0 ? nodeId : undefined,
+    };
+  }
+
+  setVisible(visible: boolean): void {
+    this.el.style.display = visible ? "" : "none";
+  }
+
+  private updateVisibility(): void {
+    const mode = this.modeSelect.value as SamplingMode;
+    this.nodeSelect.style.display = mode === "stratified" ? "" : "none";
+    this.seedInput.style.display = mode === "even" ? "none" : "";
+  }
+
+  /** Choice nodes of the spec's trees, grouped by tree. */
+  private populateNodes(spec: Specialization): void {
+    const previous = this.nodeSelect.value;
+    this.nodeSelect.replaceChildren();
+
+    const trees = [spec.classTree, spec.specTree, ...spec.heroTrees];
+    for (const tree of trees) {
+      const choices = [...tree.nodes.values()]
+        .filter(isRealChoice)
+        .sort((a, b) => a.row - b.row || a.col - b.col);
+      if (choices.length === 0) continue;
+
+      const group = document.createElement("optgroup");
+      group.label =
+        tree.type === "hero"
+          ? (tree.subTreeName ?? "Hero")
+          : tree.type === "class"
+            ? "Class"
+            : "Spec";
+      for (const node of choices) {
+        group.appendChild(new Option(node.name, String(node.id)));
+      }
+      this.nodeSelect.appendChild(group);
+    }
+
+    if ([...this.nodeSelect.options].some((o) => o.value === previous)) {
+      this.nodeSelect.value = previous;
+    }
+    this.updateStratifiable();
+  }
+
+  /** Conditional nodes can't be split into strata, so can't be picked. */
+  private updateStratifiable(): void {
+    for (const option of this.nodeSelect.options) {
+      const constraint = state.constraints.get(Number(option.value));
+      option.disabled = !canStratify(constraint);
+      option.title = option.disabled
+        ? "Conditional talents can't be stratified"
+        : "";
+    }
+    if (this.nodeSelect.selectedOptions[0]?.disabled) {
+      const first = [...this.nodeSelect.options].find((o) => !o.disabled);
+      this.nodeSelect.value = first?.value ?? "";
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import { state } from "../state";
+import { LIVE_SOURCE, sourceLabel } from "../../shared/talent-source";
+import type {
+  TalentDataResult,
+  TalentDataSource,
+  TalentSnapshot,
+  TalentSnapshotList,
+} from "../../shared/types";
+
+declare const electronAPI: import("../../shared/types").ElectronAPI;
+
+type SourceKind = TalentDataSource["kind"];
+
+const SOURCE_OPTIONS: [SourceKind, string][] = [
+  ["live", "Live"],
+  ["ptr", "PTR"],
+  ["beta", "Beta"],
+  ["url", "Custom URL"],
+  ["file", "Local file"],
+];
+
+function originLabel(snapshot: TalentSnapshot): string {
+  if (snapshot.source === "file") return snapshot.fileName ?? "Imported file";
+  const source = state.dataSource;
+  return source ? `Fetched from ${sourceLabel(source)}` : "Fetched";
+}
+
+/**
+ * Picks where talent data comes from and lists the snapshots stored for
+ * that source, to switch to, pin for later sessions, or add to from a
+ * talents.json on disk.
+ */
+export class SnapshotDialog {
+  private dialogContainer: HTMLElement;
+  private onLoad: (data: TalentDataResult) => void;
+
+  constructor(onLoad: (data: TalentDataResult) => void) {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+    this.onLoad = onLoad;
+  }
+
+  async open(): Promise<void> {
+    try {
+      this.show(await electronAPI.listTalentSnapshots());
+    } catch (err) {
+      console.error("Failed to list talent data snapshots:", err);
+    }
+  }
+
+  private show(list: TalentSnapshotList): void {
+    this.dialogContainer.querySelector(".snapshot-dialog")?.remove();
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog snapshot-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Talent Data";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+    body.appendChild(this.renderSource(dialog));
+    const table = document.createElement("table");
+    table.className = "export-chunk-table snapshot-table";
+    const head = document.createElement("tr");
+    for (const label of ["Snapshot", "Saved", "Source", ""]) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      head.appendChild(th);
+    }
+    table.appendChild(head);
+
+    for (const snapshot of list.snapshots) {
+      const inUse = snapshot.id === state.dataVersion;
+      const pinned = snapshot.id === list.pinned;
+      const row = document.createElement("tr");
+      if (inUse) row.className = "snapshot-in-use";
+      const cells = [
+        snapshot.id,
+        new Date(snapshot.savedAt).toLocaleString(),
+        originLabel(snapshot),
+      ];
+      for (const text of cells) {
+        const td = document.createElement("td");
+        td.textContent = text;
+        row.appendChild(td);
+      }
+
+      const actions = document.createElement("td");
+      actions.className = "snapshot-actions";
+      const useBtn = document.createElement("button");
+      useBtn.className = "btn btn-secondary btn-sm";
+      useBtn.textContent = inUse ? "In use" : "Use";
+      useBtn.disabled = inUse;
+      useBtn.addEventListener(
+        "click",
+        () => void this.useSnapshot(snapshot.id, dialog),
+      );
+      const pinBtn = document.createElement("button");
+      pinBtn.className = "btn btn-secondary btn-sm";
+      pinBtn.textContent = pinned ? "Unpin" : "Pin";
+      pinBtn.title = pinned
+        ? "Fetch the latest data at startup again"
+        : "Load this snapshot at startup instead of fetching";
+      pinBtn.addEventListener(
+        "click",
+        () => void this.pin(pinned ? null : snapshot.id),
+      );
+      actions.append(useBtn, pinBtn);
+      row.appendChild(actions);
+      table.appendChild(row);
+    }
+    body.appendChild(table);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+    const stats = document.createElement("span");
+    stats.className = "export-stats";
+    stats.textContent = list.pinned
+      ? `Pinned to ${list.pinned}`
+      : "Fetching the latest data at startup";
+    const importBtn = document.createElement("button");
+    importBtn.className = "btn btn-primary";
+    importBtn.textContent = "Import talents.json…";
+    importBtn.addEventListener("click", () => void this.importFile(dialog));
+    footer.append(stats, importBtn);
+
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+    this.dialogContainer.appendChild(dialog);
+  }
+
+  private renderSource(dialog: HTMLElement): HTMLElement {
+    const current = state.dataSource ?? LIVE_SOURCE;
+    const row = document.createElement("div");
+    row.className = "snapshot-source";
+
+    const label = document.createElement("span");
+    label.textContent = "Source";
+    const select = document.createElement("select");
+    select.className = "sampling-select";
+    for (const [kind, text] of SOURCE_OPTIONS) {
+      select.add(new Option(text, kind));
+    }
+    select.value = current.kind;
+
+    const urlInput = document.createElement("input");
+    urlInput.type = "text";
+    urlInput.className = "sampling-select snapshot-url";
+    urlInput.placeholder = "https://…/talents.json";
+    urlInput.value = current.kind === "url" ? current.url : "";
+
+    const applyBtn = document.createElement("button");
+    applyBtn.className = "btn btn-secondary btn-sm";
+
+    const error = document.createElement("p");
+    error.className = "base-profile-error";
+
+    const update = (): void => {
+      const kind = select.value as SourceKind;
+      urlInput.hidden = kind !== "url";
+      applyBtn.hidden = kind !== "url" && kind !== "file";
+      applyBtn.textContent = kind === "file" ? "Choose file…" : "Load";
+      error.textContent = "";
+    };
+    update();
+
+    const apply = async (): Promise<void> => {
+      const kind = select.value as SourceKind;
+      let source: TalentDataSource;
+      if (kind === "url") {
+        source = { kind, url: urlInput.value.trim() };
+      } else if (kind === "file") {
+        const path = await electronAPI.pickTalentFile();
+        if (!path) return;
+        source = { kind, path };
+      } else {
+        source = { kind };
+      }
+      try {
+        const data = await electronAPI.setTalentSource(source);
+        dialog.remove();
+        this.onLoad(data);
+      } catch (err) {
+        console.error("Failed to switch talent data source:", err);
+        error.textContent = err instanceof Error ? err.message : String(err);
+      }
+    };
+
+    select.addEventListener("change", () => {
+      update();
+      if (applyBtn.hidden) void apply();
+    });
+    applyBtn.addEventListener("click", () => void apply());
+    urlInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") void apply();
+    });
+
+    row.append(label, select, urlInput, applyBtn);
+    const wrapper = document.createElement("div");
+    wrapper.append(row, error);
+    return wrapper;
+  }
+
+  private async useSnapshot(id: string, dialog: HTMLElement): Promise<void> {
+    try {
+      const data = await electronAPI.loadTalentSnapshot(id);
+      dialog.remove();
+      this.onLoad(data);
+    } catch (err) {
+      console.error("Failed to load talent data snapshot:", err);
+    }
+  }
+
+  private async pin(id: string | null): Promise<void> {
+    try {
+      await electronAPI.pinTalentSnapshot(id);
+    } catch (err) {
+      console.error("Failed to pin talent data snapshot:", err);
+    }
+    await this.open();
+  }
+
+  private async importFile(dialog: HTMLElement): Promise<void> {
+    try {
+      const data = await electronAPI.importTalentData();
+      if (!data) return;
+      dialog.remove();
+      this.onLoad(data);
+    } catch (err) {
+      console.error("Failed to import talent data:", err);
+    }
+  }
+}
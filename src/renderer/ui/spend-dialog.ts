@@ -0,0 +1,146 @@
+import { state } from "../state";
+import type { RowSpend, SpendTarget, TalentTree } from "../../shared/types";
+import { spendBudget } from "../../shared/spend";
+
+interface RowInputs {
+  points: HTMLInputElement;
+  row: HTMLSelectElement;
+}
+
+/**
+ * Edits a tree's spend target: how many points builds spend in total, and
+ * how many must go into the top rows.
+ */
+export class SpendDialog {
+  private dialogContainer: HTMLElement;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  show(tree: TalentTree): void {
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+    content.style.cssText = "width: 460px;";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = `Point Spend · ${tree.subTreeName ?? tree.type}`;
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body base-profile-form";
+
+    const numberInput = (value: number, max: number): HTMLInputElement => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.className = "sampling-seed";
+      input.min = "0";
+      input.max = String(max);
+      input.value = String(value);
+      return input;
+    };
+
+    const totalInput = numberInput(
+      spendBudget(state.resolveTree(tree)),
+      tree.pointBudget,
+    );
+    const totalField = document.createElement("label");
+    totalField.className = "base-profile-field";
+    totalField.append("Points to spend", totalInput, `of ${tree.pointBudget}`);
+
+    const treeRows = [...new Set([...tree.nodes.values()].map((n) => n.row))];
+    treeRows.sort((a, b) => a - b);
+
+    const rowList = document.createElement("div");
+    rowList.className = "base-profile-form";
+    const rowInputs: RowInputs[] = [];
+
+    const addRow = (target: RowSpend): void => {
+      const field = document.createElement("div");
+      field.className = "base-profile-field";
+      const points = numberInput(target.points, tree.pointBudget);
+      const row = document.createElement("select");
+      row.className = "sampling-select";
+      for (const r of treeRows) row.add(new Option(String(r + 1), String(r)));
+      row.value = String(target.row);
+      const inputs = { points, row };
+      rowInputs.push(inputs);
+
+      const remove = document.createElement("button");
+      remove.className = "tree-rule-remove";
+      remove.textContent = "×";
+      remove.title = "Remove row target";
+      remove.addEventListener("click", () => {
+        rowInputs.splice(rowInputs.indexOf(inputs), 1);
+        field.remove();
+      });
+
+      field.append("At least", points, "points in rows 1 to", row, remove);
+      rowList.appendChild(field);
+    };
+    for (const target of state.spendFor(tree)?.rows ?? []) addRow(target);
+
+    const addRowBtn = document.createElement("button");
+    addRowBtn.className = "tree-rule-add";
+    addRowBtn.textContent = "+ Row target";
+    addRowBtn.addEventListener("click", () => {
+      const middle = treeRows[Math.floor(treeRows.length / 2)] ?? 0;
+      addRow({ row: middle, points: 0 });
+    });
+
+    body.append(totalField, rowList, addRowBtn);
+
+    const footer = document.createElement("div");
+    footer.className = "export-dialog-footer";
+
+    const resetBtn = document.createElement("button");
+    resetBtn.className = "btn btn-secondary";
+    resetBtn.textContent = "Spend full budget";
+    resetBtn.addEventListener("click", () => {
+      state.setSpendTarget(tree, null);
+      dialog.remove();
+    });
+
+    const applyBtn = document.createElement("button");
+    applyBtn.className = "btn btn-primary";
+    applyBtn.textContent = "Apply";
+    applyBtn.addEventListener("click", () => {
+      const clamp = (input: HTMLInputElement): number =>
+        Math.min(
+          tree.pointBudget,
+          Math.max(0, Math.floor(Number(input.value)) || 0),
+        );
+      const target: SpendTarget = {};
+      const total = clamp(totalInput);
+      if (total !== tree.pointBudget) target.total = total;
+      const rows = rowInputs
+        .map(({ points, row }) => ({
+          row: Number(row.value),
+          points: clamp(points),
+        }))
+        .filter((r) => r.points > 0);
+      if (rows.length > 0) target.rows = rows;
+      state.setSpendTarget(tree, target);
+      dialog.remove();
+    });
+
+    footer.append(resetBtn, applyBtn);
+    content.append(header, body, footer);
+    dialog.appendChild(content);
+
+    dialog.addEventListener("click", (e) => {
+      if (e.target === dialog) dialog.remove();
+    });
+
+    this.dialogContainer.appendChild(dialog);
+  }
+}
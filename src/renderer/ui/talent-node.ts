@@ -1,4 +1,5 @@
 import type { TalentNode, NodeState, Constraint } from "../../shared/types";
+import { rankRangeText } from "../../shared/rank-range";
 import { NODE_SIZE, ICON_CDN_URL } from "../../shared/constants";
 
 const SVG_NS = "http://www.w3.org/2000/svg";
@@ -19,6 +20,9 @@ export class TalentNodeView {
   private eitherGroup: SVGGElement | null = null;
   private eitherLeftImg: SVGImageElement | null = null;
   private eitherRightImg: SVGImageElement | null = null;
+  private dpsRing: SVGElement;
+  private marginalLabel: SVGTextElement;
+  private frequencyBadge: SVGTextElement;
 
   constructor(
     readonly node: TalentNode,
@@ -46,7 +50,13 @@ export class TalentNodeView {
       ? this.createOctagon()
       : this.createRoundedRect();
     bgShape.classList.add("node-bg");
-    this.group.appendChild(bgShape);
+
+    // Sim results overlay — an outline behind the node, hidden until set
+    this.dpsRing = bgShape.cloneNode() as SVGElement;
+    this.dpsRing.setAttribute("class", "dps-ring");
+    this.dpsRing.setAttribute("transform", "scale(1.18)");
+    this.dpsRing.style.display = "none";
+    this.group.append(this.dpsRing, bgShape);
 
     this.addPlaceholderIcon();
 
@@ -151,6 +161,20 @@ export class TalentNodeView {
         : displayName;
     this.group.appendChild(nameText);
 
+    this.marginalLabel = document.createElementNS(SVG_NS, "text");
+    this.marginalLabel.classList.add("marginal-label");
+    this.marginalLabel.setAttribute("x", "0");
+    this.marginalLabel.setAttribute("y", String(NODE_SIZE / 2 + 23));
+    this.marginalLabel.style.display = "none";
+    this.group.appendChild(this.marginalLabel);
+
+    this.frequencyBadge = document.createElementNS(SVG_NS, "text");
+    this.frequencyBadge.classList.add("frequency-badge");
+    this.frequencyBadge.setAttribute("x", String(NODE_SIZE / 2 + 4));
+    this.frequencyBadge.setAttribute("y", String(-NODE_SIZE / 2 - 4));
+    this.frequencyBadge.style.display = "none";
+    this.group.appendChild(this.frequencyBadge);
+
     this.preloadIcons();
 
     this.group.addEventListener("click", (e) => this.onClick(node, e));
@@ -361,11 +385,14 @@ export class TalentNodeView {
       nodeState === "conditional" ? "" : "none";
 
     if (this.rankText && this.node.maxRanks > 1) {
-      if (constraint?.type === "always" && constraint.exactRank != null) {
-        this.rankText.textContent = `${constraint.exactRank}/${this.node.maxRanks}`;
-      } else {
-        this.rankText.textContent = `${this.node.maxRanks}`;
-      }
+      const ranks =
+        constraint?.type === "always" || constraint?.type === "range"
+          ? rankRangeText(this.node, constraint)
+          : null;
+      this.rankText.textContent =
+        ranks != null
+          ? `${ranks}/${this.node.maxRanks}`
+          : `${this.node.maxRanks}`;
     }
 
     // Swap icon for choice nodes when entryIndex changes
@@ -396,6 +423,45 @@ export class TalentNodeView {
     }
   }
 
+  /** Outlines the node while a warning about it is hovered. */
+  setHighlighted(highlighted: boolean): void {
+    this.group.classList.toggle("highlighted", highlighted);
+  }
+
+  /**
+   * Colours the node by the average DPS delta of builds taking it: green
+   * above the mean, red below, stronger the closer |delta| is to `scale`.
+   */
+  setDpsDelta(delta: number | null, scale: number): void {
+    if (delta == null || scale <= 0) {
+      this.dpsRing.style.display = "none";
+      return;
+    }
+    const strength = Math.min(1, Math.abs(delta) / scale);
+    this.dpsRing.style.display = "";
+    this.dpsRing.style.stroke =
+      delta >= 0 ? "var(--color-green)" : "var(--color-red)";
+    this.dpsRing.style.opacity = String(0.25 + 0.75 * strength);
+  }
+
+  /** Shows the node's marginal value under its name; null hides it. */
+  setMarginalLabel(text: string | null, positive = true): void {
+    this.marginalLabel.style.display = text ? "" : "none";
+    this.marginalLabel.textContent = text ?? "";
+    this.marginalLabel.classList.toggle("negative", !positive);
+  }
+
+  /**
+   * Badges the node with the share of remaining builds taking it, shaded
+   * from muted (rare) to bright (common); null hides it.
+   */
+  setFrequency(share: number | null): void {
+    this.frequencyBadge.style.display = share == null ? "none" : "";
+    if (share == null) return;
+    this.frequencyBadge.textContent = `${Math.round(share * 100)}%`;
+    this.frequencyBadge.style.opacity = String(0.45 + 0.55 * share);
+  }
+
   get centerX(): number {
     return this.x;
   }
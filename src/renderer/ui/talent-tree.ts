@@ -1,6 +1,7 @@
 import { state } from "../state";
 import { TalentNodeView } from "./talent-node";
 import { ConditionEditor } from "./condition-editor";
+import { SpendDialog } from "./spend-dialog";
 import { addDismissHandler } from "./dismiss";
 import { clampToViewport } from "./clamp";
 import type {
@@ -10,31 +11,59 @@ import type {
   Constraint,
   SpellTooltip,
   BooleanExpr,
+  CountResult,
 } from "../../shared/types";
 import {
   NODE_SIZE,
   NODE_GAP_X,
   NODE_GAP_Y,
   TREE_PADDING,
+  SOLVER_DEBOUNCE_MS,
 } from "../../shared/constants";
-import { computeReachable } from "../../shared/build-counter";
+import {
+  computeReachable,
+  countTreeBuilds,
+} from "../../shared/build-counter";
+import { isCardinalityExpr } from "../../shared/cardinality";
+import { spendText } from "../../shared/spend";
+import { rankRangeText, takenRankRange } from "../../shared/rank-range";
+import { analyzeMarginals, samplesForTree } from "../../shared/marginals";
+import { explainNode } from "../../shared/explain";
+import type { NodeExplanation } from "../../shared/explain";
+import { previewNodeCounts } from "../../shared/count-preview";
+import type { CountPreview } from "../../shared/count-preview";
+import { hasCrossTreeConditions } from "../../shared/cross-tree";
 
 declare const electronAPI: import("../../shared/types").ElectronAPI;
 
 const SVG_NS = "http://www.w3.org/2000/svg";
 const descriptionCache = new Map<number, SpellTooltip | null>();
 
+/** `part / whole` as a fraction, exact enough for display at any size. */
+function share(part: bigint | undefined, whole: bigint): number {
+  return Number(((part ?? 0n) * 10_000n) / whole) / 10_000;
+}
+
 export class TalentTreeView {
   private container: HTMLElement;
   private nodeViews = new Map<number, TalentNodeView>();
   private connectors = new Map<string, SVGLineElement>();
   private tree: TalentTree | null = null;
   private conditionEditor: ConditionEditor;
+  private spendDialog = new SpendDialog();
   private tooltipEl: HTMLElement;
   private summaryEl: HTMLElement | null = null;
   private rankPopover: HTMLElement | null = null;
   private hoveredNode: TalentNode | null = null;
   private lastHoverEvent: MouseEvent | null = null;
+  // Per-node explanations, dropped whenever constraints, rules or spend change
+  private explanations = new Map<number, NodeExplanation | null>();
+  // Hypothetical totals per hovered node, computed after a short pause
+  private previews = new Map<number, CountPreview | null>();
+  private previewTimer: ReturnType<typeof setTimeout> | null = null;
+  // Selection counts for tooltips while the overlay is off, dropped with
+  // each new count
+  private tooltipCount: CountResult | null | undefined;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -44,8 +73,11 @@ export class TalentTreeView {
     state.subscribe((event) => {
       if (
         event.type === "constraint-changed" ||
-        event.type === "constraint-removed"
+        event.type === "constraint-removed" ||
+        event.type === "constraints-restored"
       ) {
+        this.explanations.clear();
+        this.previews.clear();
         this.updateNodeStates();
         this.updateConnectors();
         this.updateConstraintSummary();
@@ -53,12 +85,32 @@ export class TalentTreeView {
           this.renderTooltip(this.hoveredNode, this.lastHoverEvent);
         }
       }
+      if (event.type === "rules-changed" || event.type === "spend-changed") {
+        this.explanations.clear();
+        this.previews.clear();
+        this.updateConstraintSummary();
+      }
       if (
         event.type === "count-updated" ||
         event.type === "validation-changed"
       ) {
         this.updateNodeStates();
       }
+      if (
+        event.type === "count-updated" ||
+        event.type === "frequency-overlay-changed"
+      ) {
+        this.updateFrequencies();
+      }
+      if (event.type === "count-updated") {
+        this.previews.clear();
+        this.tooltipCount = undefined;
+        if (this.hoveredNode && this.lastHoverEvent) {
+          this.renderTooltip(this.hoveredNode, this.lastHoverEvent);
+        }
+      }
+      if (event.type === "results-updated") this.updateDpsOverlay();
+      if (event.type === "highlight-changed") this.updateHighlights();
     });
   }
 
@@ -192,6 +244,83 @@ export class TalentTreeView {
     this.updateNodeStates();
     this.updateConnectors();
     this.updateConstraintSummary();
+    this.updateDpsOverlay();
+    this.updateFrequencies();
+  }
+
+  /** This tree's latest count, if it carries selection counts. */
+  private treeCount(): CountResult | null {
+    if (!this.tree) return null;
+    const detail = state.counts.details?.[this.tree.type];
+    return detail?.selections ? detail : null;
+  }
+
+  /**
+   * Selection counts for a tooltip: the latest count's when the overlay
+   * asked for them, else counted once for this tree on first hover.
+   */
+  private tooltipSelections(): CountResult | null {
+    const counted = this.treeCount();
+    if (counted || !this.tree) return counted;
+    if (this.tooltipCount === undefined) {
+      try {
+        this.tooltipCount = countTreeBuilds(
+          state.resolveTree(this.tree),
+          state.getConstraintsForTree(this.tree),
+          { selections: true },
+        );
+      } catch (err) {
+        console.error("[tooltip] selection count failed:", err);
+        this.tooltipCount = null;
+      }
+    }
+    return this.tooltipCount;
+  }
+
+  private updateFrequencies(): void {
+    const result = state.frequencyOverlay ? this.treeCount() : null;
+    for (const [id, view] of this.nodeViews) {
+      const node = this.tree?.nodes.get(id);
+      if (!result || result.count === 0n || !node || node.freeNode) {
+        view.setFrequency(null);
+        continue;
+      }
+      const taken = result.selections!.nodes.get(id);
+      view.setFrequency(share(taken, result.count));
+    }
+  }
+
+  private updateDpsOverlay(): void {
+    const deltas = state.nodeDpsDeltas;
+    let scale = 0;
+    for (const id of this.nodeViews.keys()) {
+      scale = Math.max(scale, Math.abs(deltas.get(id) ?? 0));
+    }
+    for (const [id, view] of this.nodeViews) {
+      view.setDpsDelta(deltas.get(id) ?? null, scale);
+    }
+
+    const analysis =
+      state.marginalOverlay && this.tree
+        ? analyzeMarginals(
+            this.tree,
+            samplesForTree(state.simResults, this.tree),
+            { maxSynergies: 0 },
+          )
+        : null;
+    for (const [id, view] of this.nodeViews) {
+      const value = analysis?.nodes.find((v) => v.nodeId === id);
+      if (value?.delta == null || !analysis?.meanDps) {
+        view.setMarginalLabel(null);
+        continue;
+      }
+      const percent = (value.delta / analysis.meanDps) * 100;
+      const sign = percent >= 0 ? "+" : "\u2212";
+      view.setMarginalLabel(
+        `${sign}${Math.abs(percent).toFixed(1)}%`,
+        percent >= 0,
+      );
+    }
   }
 
   private handleClick(node: TalentNode, event: MouseEvent): void {
@@ -329,12 +458,13 @@ export class TalentTreeView {
         }
 
         const anyActive =
-          current?.type === "always" && current.exactRank == null
+          current?.type === "always" && rankRangeText(node, current) == null
             ? "active-always"
             : null;
         addBtn("Always (any rank)", anyActive, () =>
           state.setConstraint({ nodeId: node.id, type: "always" }),
         );
+        popover.appendChild(this.rankRangeRow(node, current));
       }
 
       addBtn("Never", current?.type === "never" ? "active-never" : null, () =>
@@ -354,6 +484,86 @@ export class TalentTreeView {
     addDismissHandler(popover, () => this.closeRankPopover());
   }
 
+  /**
+   * "Ranks [min] to [max]" editor for a multi-rank node's rank range. A
+   * minimum of 0 lets builds skip the node.
+   */
+  private rankRangeRow(
+    node: TalentNode,
+    current: Constraint | undefined,
+  ): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "node-popover-range";
+    const optional = current?.type === "range";
+    const isRange =
+      (current?.type === "always" || optional) &&
+      (current.minRank != null || current.maxRank != null);
+    if (isRange) row.classList.add("active-always");
+
+    const { minRank, maxRank } = takenRankRange(node, current);
+    const ranged = current?.type === "always" || optional;
+    const rankSelect = (value: number, from = 1): HTMLSelectElement => {
+      const select = document.createElement("select");
+      for (let r = from; r <= node.maxRanks; r++) {
+        const option = document.createElement("option");
+        option.value = String(r);
+        option.textContent = String(r);
+        select.appendChild(option);
+      }
+      select.value = String(value);
+      return select;
+    };
+    const minSelect = rankSelect(
+      optional ? 0 : current?.type === "always" ? minRank : 1,
+      0,
+    );
+    const maxSelect = rankSelect(ranged ? maxRank : node.maxRanks);
+    // Keep the range non-empty whichever end moves
+    minSelect.addEventListener("change", () => {
+      if (Number(minSelect.value) > Number(maxSelect.value)) {
+        maxSelect.value = minSelect.value;
+      }
+    });
+    maxSelect.addEventListener("change", () => {
+      if (Number(maxSelect.value) < Number(minSelect.value)) {
+        minSelect.value = maxSelect.value;
+      }
+    });
+
+    const setBtn = document.createElement("button");
+    setBtn.className = "btn btn-secondary";
+    setBtn.textContent = "Set";
+    setBtn.addEventListener("click", () => {
+      const min = Number(minSelect.value);
+      const max = Number(maxSelect.value);
+      this.closeRankPopover();
+      if (min === 0) {
+        // Skipping or taking any rank needs no constraint at all
+        if (max < node.maxRanks) {
+          state.setConstraint({
+            nodeId: node.id,
+            type: "range",
+            maxRank: max,
+          });
+        } else if (current) {
+          state.removeConstraint(node.id);
+        }
+        return;
+      }
+      const constraint: Constraint = { nodeId: node.id, type: "always" };
+      if (min === max) {
+        constraint.exactRank = min;
+      } else {
+        if (min > 1) constraint.minRank = min;
+        if (max < node.maxRanks) constraint.maxRank = max;
+      }
+      state.setConstraint(constraint);
+    });
+
+    row.append("Ranks", minSelect, "to", maxSelect, setBtn);
+    return row;
+  }
+
   private closeRankPopover(): void {
     if (this.rankPopover) {
       this.rankPopover.remove();
@@ -439,6 +649,36 @@ export class TalentTreeView {
       tooltip.appendChild(rank);
     }
 
+    const counted = this.tooltipSelections();
+    if (counted && counted.count > 0n && !node.freeNode) {
+      const { nodes, entries: entryCounts } = counted.selections!;
+      const percent = (taken: bigint | undefined): string =>
+        `${(share(taken, counted.count) * 100).toFixed(1)}%`;
+      const parts = [`In ${percent(nodes.get(node.id))} of builds`];
+      if (node.type === "choice" && node.entries.length > 1) {
+        for (const entry of node.entries) {
+          const entryName = entry.name || `Entry ${entry.id}`;
+          parts.push(`${entryName} ${percent(entryCounts.get(entry.id))}`);
+        }
+      }
+      const frequencyEl = document.createElement("div");
+      frequencyEl.className = "tooltip-detail";
+      frequencyEl.textContent = parts.join(" \u00b7 ");
+      tooltip.appendChild(frequencyEl);
+    }
+
+    this.renderPreview(tooltip, node);
+
+    const dpsDelta = state.nodeDpsDeltas.get(node.id);
+    if (dpsDelta != null) {
+      const deltaEl = document.createElement("div");
+      deltaEl.className = "tooltip-detail";
+      const sign = dpsDelta >= 0 ? "+" : "\u2212";
+      const amount = Math.abs(Math.round(dpsDelta)).toLocaleString();
+      deltaEl.textContent = `Avg DPS when taken: ${sign}${amount} vs all`;
+      tooltip.appendChild(deltaEl);
+    }
+
     if (constraint) {
       const statusDiv = document.createElement("div");
       statusDiv.className = `tooltip-status status-${constraint.type}`;
@@ -465,12 +705,130 @@ export class TalentTreeView {
       }
     }
 
+    const explanation = this.explanation(node);
+    if (explanation) this.renderExplanation(tooltip, explanation);
+
     this.tooltipEl.innerHTML = "";
     this.tooltipEl.appendChild(tooltip);
 
     this.positionTooltip(tooltip, event);
   }
 
+  /**
+   * "Always → 1,204 / Never → 8,930": the total if the node were set either
+   * way. Computed once the pointer settles, like the live count.
+   */
+  private renderPreview(tooltip: HTMLElement, node: TalentNode): void {
+    const isHeroNonChoice =
+      this.tree?.type === "hero" && !(node.type === "choice" && !node.isApex);
+    if (node.freeNode || isHeroNonChoice || state.hasValidationError) return;
+
+    if (!this.previews.has(node.id)) {
+      if (this.previewTimer) clearTimeout(this.previewTimer);
+      this.previewTimer = setTimeout(() => {
+        this.previewTimer = null;
+        if (this.hoveredNode !== node || !this.lastHoverEvent) return;
+        this.previews.set(node.id, this.previewTotals(node));
+        this.renderTooltip(node, this.lastHoverEvent);
+      }, SOLVER_DEBOUNCE_MS);
+      return;
+    }
+
+    const preview = this.previews.get(node.id);
+    if (!preview) return;
+    const previewEl = document.createElement("div");
+    previewEl.className = "tooltip-detail";
+    previewEl.textContent =
+      `Always \u2192 ${preview.always.toLocaleString()} / ` +
+      `Never \u2192 ${preview.never.toLocaleString()}`;
+    tooltip.appendChild(previewEl);
+  }
+
+  /**
+   * Total builds across the active trees with `node` set either way. Left
+   * out when the trees are tied by conditions or the total is approximate,
+   * since scaling this tree's count by the others only holds for exact,
+   * independent counts.
+   */
+  private previewTotals(node: TalentNode): CountPreview | null {
+    if (!this.tree || state.counts.totalWarning) return null;
+    if (hasCrossTreeConditions(state.activeTrees, state.constraints)) {
+      return null;
+    }
+
+    try {
+      const own = previewNodeCounts(
+        state.resolveTree(this.tree),
+        state.getConstraintsForTree(this.tree),
+        node.id,
+        state.counts.details?.[this.tree.type],
+      );
+      const { classCount, specCount, heroCount } = state.counts;
+      const others = {
+        class: specCount * heroCount,
+        spec: classCount * heroCount,
+        hero: classCount * specCount,
+      }[this.tree.type];
+      return { always: own.always * others, never: own.never * others };
+    } catch (err) {
+      console.error("[preview] count failed:", err);
+      return null;
+    }
+  }
+
+  /**
+   * Which of the user's constraints force `node` on or off. Nodes the user
+   * constrained themselves need no explanation.
+   */
+  private explanation(node: TalentNode): NodeExplanation | null {
+    if (!this.tree || state.isUserOwned(node.id)) return null;
+    if (!this.explanations.has(node.id)) {
+      const own = new Map(
+        [...state.getConstraintsForTree(this.tree)].filter(([id]) =>
+          state.isUserOwned(id),
+        ),
+      );
+      this.explanations.set(
+        node.id,
+        explainNode(state.resolveTree(this.tree), own, node.id),
+      );
+    }
+    return this.explanations.get(node.id) ?? null;
+  }
+
+  private renderExplanation(
+    tooltip: HTMLElement,
+    explanation: NodeExplanation,
+  ): void {
+    const forcedEl = document.createElement("div");
+    const on = explanation.forced === "on";
+    forcedEl.className = `tooltip-status status-${on ? "always" : "never"}`;
+    const names = explanation.nodeIds.map(
+      (id) => this.tree?.nodes.get(id)?.name ?? `Node ${id}`,
+    );
+    forcedEl.textContent =
+      names.length > 0
+        ? `Forced ${explanation.forced} by ${names.join(", ")}`
+        : `Forced ${explanation.forced} by the tree`;
+    tooltip.appendChild(forcedEl);
+
+    for (const id of explanation.nodeIds) {
+      const source = this.tree?.nodes.get(id);
+      const constraint = state.constraints.get(id);
+      if (!source || !constraint) continue;
+      const item = document.createElement("div");
+      item.className = "tooltip-explain";
+      item.textContent = `${source.name}: ${this.constraintLabel(constraint, source)}`;
+      tooltip.appendChild(item);
+    }
+    for (const reason of explanation.reasons) {
+      const item = document.createElement("div");
+      item.className = "tooltip-explain";
+      item.textContent = reason;
+      tooltip.appendChild(item);
+    }
+  }
+
   private fetchDescription(
     spellId: number,
     placeholder: HTMLElement,
@@ -525,7 +883,9 @@ export class TalentTreeView {
 
   private constraintLabel(constraint: Constraint, node: TalentNode): string {
     if (constraint.type === "never") return "never";
-    if (constraint.type === "conditional") return "conditional";
+    if (constraint.type === "range") {
+      return `at ${rankRangeText(node, constraint)}/${node.maxRanks}`;
+    }
     if (constraint.type === "entry-conditional") {
       const names = constraint.entryConditions
         ?.map(
@@ -542,20 +902,23 @@ export class TalentTreeView {
         `Choice ${constraint.entryIndex + 1}`;
       return `always: ${entryName}`;
     }
-    if (constraint.exactRank != null) {
-      return `always at ${constraint.exactRank}/${node.maxRanks}`;
-    }
+    const ranks = rankRangeText(node, constraint);
+    if (ranks != null) return `always at ${ranks}/${node.maxRanks}`;
     return "always";
   }
 
   private conditionText(expr: BooleanExpr): string {
+    return `if ${this.exprText(expr)}`;
+  }
+
+  private exprText(expr: BooleanExpr): string {
     const name = (nodeId: number): string => {
       const spec = state.activeSpec;
       if (!spec) return `Node ${nodeId}`;
       const node =
         spec.classTree.nodes.get(nodeId) ??
         spec.specTree.nodes.get(nodeId) ??
-        state.activeHeroTree?.nodes.get(nodeId);
+        spec.heroTrees.find((t) => t.nodes.has(nodeId))?.nodes.get(nodeId);
       return node?.name ?? `Node ${nodeId}`;
     };
 
@@ -565,7 +928,7 @@ export class TalentTreeView {
       const node =
         spec.classTree.nodes.get(nodeId) ??
         spec.specTree.nodes.get(nodeId) ??
-        state.activeHeroTree?.nodes.get(nodeId);
+        spec.heroTrees.find((t) => t.nodes.has(nodeId))?.nodes.get(nodeId);
       if (node) {
         const entry = node.entries.find((e) => e.id === entryId);
         if (entry?.name) return entry.name;
@@ -580,9 +943,23 @@ export class TalentTreeView {
         if (e.negated) label = `NOT ${label}`;
         return label;
       }
+      if (isCardinalityExpr(e)) {
+        const count =
+          e.op === "AT_LEAST"
+            ? "at least"
+            : e.op === "AT_MOST"
+              ? "at most"
+              : "exactly";
+        const names = e.nodeIds.map((id) => name(id)).join(", ");
+        return `${count} ${e.count} of (${names})`;
+      }
       const joiner = e.op === "AND" ? " and " : " or ";
       const parts = e.children.map((c) => {
-        if (c.op !== "TALENT_SELECTED" && c.op !== e.op)
+        if (
+          c.op !== "TALENT_SELECTED" &&
+          c.op !== e.op &&
+          !isCardinalityExpr(c)
+        )
           return `(${format(c)})`;
         return format(c);
       });
@@ -596,7 +973,7 @@ export class TalentTreeView {
       (expr.op === "OR" &&
         expr.children.every((c) => c.op === "TALENT_SELECTED"));
     const verb = hasNegated ? "" : singular ? " is selected" : " are selected";
-    return `if ${text}${verb}`;
+    return `${text}${verb}`;
   }
 
   private updateNodeStates(): void {
@@ -616,7 +993,8 @@ export class TalentTreeView {
         nodeState = "implied";
       } else {
         nodeState =
-          constraint?.type === "entry-conditional"
+          constraint?.type === "entry-conditional" ||
+          constraint?.type === "range"
             ? "conditional"
             : (constraint?.type ?? "available");
       }
@@ -625,6 +1003,12 @@ export class TalentTreeView {
     }
   }
 
+  private updateHighlights(): void {
+    for (const [nodeId, view] of this.nodeViews) {
+      view.setHighlighted(state.highlightedNodes.has(nodeId));
+    }
+  }
+
   private updateConnectors(): void {
     if (!this.tree) return;
 
@@ -669,12 +1053,15 @@ export class TalentTreeView {
       const isHeroNonChoice =
         this.tree!.type === "hero" && !(node.type === "choice" && !node.isApex);
       if (isHeroNonChoice && constraint.type === "always") continue;
-      const cost = node.freeNode ? 0 : (constraint.exactRank ?? node.maxRanks);
+      const cost = node.freeNode
+        ? 0
+        : (constraint.exactRank ?? constraint.maxRank ?? node.maxRanks);
       if (constraint.type === "always") always += cost;
       else if (constraint.type === "never") never += cost;
       else if (
         constraint.type === "conditional" ||
-        constraint.type === "entry-conditional"
+        constraint.type === "entry-conditional" ||
+        constraint.type === "range"
       )
         conditional += cost;
     }
@@ -684,6 +1071,74 @@ export class TalentTreeView {
     if (never > 0) parts.push(`${never} pts blocked`);
     if (conditional > 0) parts.push(`${conditional} pts conditional`);
 
-    this.summaryEl.textContent = parts.length > 0 ? parts.join(", ") : "";
+    const points = document.createElement("div");
+    points.textContent = parts.length > 0 ? parts.join(", ") : "";
+    this.summaryEl.replaceChildren(points, this.buildRulesSection(this.tree));
+  }
+
+  private buildRulesSection(tree: TalentTree): HTMLElement {
+    const section = document.createElement("div");
+    section.className = "tree-rules";
+
+    (state.rulesFor(tree) ?? []).forEach((rule, index) => {
+      const chip = document.createElement("span");
+      chip.className = "tree-rule";
+
+      const text = document.createElement("span");
+      text.className = "tree-rule-text";
+      text.textContent = this.exprText(rule);
+      text.title = "Edit rule";
+      text.addEventListener("click", () =>
+        this.conditionEditor.openRule(tree, index),
+      );
+
+      const remove = document.createElement("button");
+      remove.className = "tree-rule-remove";
+      remove.textContent = "\u00d7";
+      remove.title = "Remove rule";
+      remove.addEventListener("click", () => state.removeRule(tree, index));
+
+      chip.append(text, remove);
+      section.appendChild(chip);
+    });
+
+    const spend = state.spendFor(tree);
+    if (spend) {
+      const chip = document.createElement("span");
+      chip.className = "tree-rule";
+
+      const text = document.createElement("span");
+      text.className = "tree-rule-text";
+      text.textContent = spendText(tree, spend);
+      text.title = "Edit point spend";
+      text.addEventListener("click", () => this.spendDialog.show(tree));
+
+      const remove = document.createElement("button");
+      remove.className = "tree-rule-remove";
+      remove.textContent = "\u00d7";
+      remove.title = "Spend the full budget";
+      remove.addEventListener("click", () => state.setSpendTarget(tree, null));
+
+      chip.append(text, remove);
+      section.appendChild(chip);
+    }
+
+    const add = document.createElement("button");
+    add.className = "tree-rule-add";
+    add.textContent = "+ Rule";
+    add.title = "Add a rule every build of this tree must satisfy";
+    add.addEventListener("click", () => this.conditionEditor.openRule(tree));
+    section.appendChild(add);
+
+    if (!spend) {
+      const addSpend = document.createElement("button");
+      addSpend.className = "tree-rule-add";
+      addSpend.textContent = "+ Spend";
+      addSpend.title = "Spend fewer points, or require points in the top rows";
+      addSpend.addEventListener("click", () => this.spendDialog.show(tree));
+      section.appendChild(addSpend);
+    }
+
+    return section;
   }
 }
@@ -0,0 +1,247 @@
+import { state } from "../state";
+import type { WorkspaceTabInfo } from "../state";
+import {
+  countConstraintSet,
+  diffConstraints,
+  diffTreeSettings,
+} from "../../shared/workspace-diff";
+import type { SettingDiff } from "../../shared/workspace-diff";
+import { rankRangeText } from "../../shared/rank-range";
+import { spendText } from "../../shared/spend";
+import type { Constraint, TalentNode, TalentTree } from "../../shared/types";
+
+const TREE_LABELS: Record<TalentTree["type"], string> = {
+  class: "Class",
+  spec: "Spec",
+  hero: "Hero",
+};
+
+function describe(node: TalentNode, constraint?: Constraint): string {
+  if (!constraint) return "—";
+  const parts: string[] = [];
+  switch (constraint.type) {
+    case "always":
+      parts.push("Always");
+      break;
+    case "never":
+      parts.push("Never");
+      break;
+    case "conditional":
+      parts.push("Conditional");
+      break;
+    case "range":
+      parts.push("Optional");
+      break;
+    case "entry-conditional":
+      parts.push("Per-choice conditions");
+      break;
+  }
+  if (constraint.entryIndex != null) {
+    const entry = node.entries[constraint.entryIndex];
+    if (entry) parts.push(entry.name);
+  }
+  const ranks = rankRangeText(node, constraint);
+  if (ranks) parts.push(`rank ${ranks}`);
+  return parts.join(" · ");
+}
+
+function describeSetting(diff: SettingDiff, tab: WorkspaceTabInfo): string {
+  if (diff.setting === "spend") {
+    return spendText(diff.tree, tab.set.spend.get(diff.tree)) || "—";
+  }
+  const count = tab.set.rules.get(diff.tree)?.length ?? 0;
+  if (count === 0) return "—";
+  return count === 1 ? "1 rule" : `${count} rules`;
+}
+
+function tabTrees(tab: WorkspaceTabInfo): TalentTree[] {
+  if (!tab.spec) return [];
+  const trees = [tab.spec.classTree, tab.spec.specTree];
+  if (tab.heroTree) trees.push(tab.heroTree);
+  return trees;
+}
+
+function countOf(tab: WorkspaceTabInfo): bigint | null {
+  try {
+    return countConstraintSet(tabTrees(tab), tab.set);
+  } catch (err) {
+    console.error("[workspace] count failed:", err);
+    return null;
+  }
+}
+
+/** Compares two workspace tabs talent by talent, and by build count. */
+export class WorkspaceDiffDialog {
+  private dialogContainer: HTMLElement;
+  private left = 0;
+  private right = 1;
+
+  constructor() {
+    this.dialogContainer = document.getElementById("dialog-container")!;
+  }
+
+  open(): void {
+    if (state.workspaceTabs.length < 2) return;
+    this.left = state.activeTabIndex;
+    this.right = this.left === 0 ? 1 : 0;
+    this.show();
+  }
+
+  private show(): void {
+    this.dialogContainer.querySelector(".workspace-diff-dialog")?.remove();
+    const tabs = state.workspaceTabs;
+
+    const dialog = document.createElement("div");
+    dialog.className = "export-dialog workspace-diff-dialog";
+
+    const content = document.createElement("div");
+    content.className = "export-dialog-content";
+
+    const header = document.createElement("div");
+    header.className = "export-dialog-header";
+    const title = document.createElement("h2");
+    title.textContent = "Compare Tabs";
+    const closeBtn = document.createElement("button");
+    closeBtn.className = "btn btn-secondary";
+    closeBtn.textContent = "×";
+    closeBtn.addEventListener("click", () => dialog.remove());
+    header.append(title, closeBtn);
+
+    const body = document.createElement("div");
+    body.className = "export-dialog-body";
+
+    const pickers = document.createElement("div");
+    pickers.className = "workspace-diff-pickers";
+    const picker = (selected: number, onPick: (i: number) => void) => {
+      const select = document.createElement("select");
+      tabs.forEach((tab, i) => {
+        const option = document.createElement("option");
+        option.value = String(i);
+        option.textContent = tab.name;
+        option.selected = i === selected;
+        select.appendChild(option);
+      });
+      select.addEventListener("change", () => {
+        onPick(Number(select.value));
+        this.show();
+      });
+      return select;
+    };
+    const vs = document.createElement("span");
+    vs.textContent = "vs";
+    pickers.append(
+      picker(this.left, (i) => (this.left = i)),
+      vs,
+      picker(this.right, (i) => (this.right = i)),
+    );
+    body.appendChild(pickers);
+
+    const a = tabs[this.left];
+    const b = tabs[this.right];
+    body.appendChild(this.renderCounts(a, b));
+    body.appendChild(this.renderDiff(a, b));
+
+    content.append(header, body);
+    dialog.appendChild(content);
+    this.dialogContainer.appendChild(dialog);
+  }
+
+  private renderCounts(a: WorkspaceTabInfo, b: WorkspaceTabInfo): HTMLElement {
+    const countA = countOf(a);
+    const countB = countOf(b);
+    const text = (tab: WorkspaceTabInfo, count: bigint | null): string =>
+      `${tab.name}: ${count == null ? "?" : count.toLocaleString()} builds`;
+
+    const el = document.createElement("p");
+    el.className = "results-note";
+    let summary = `${text(a, countA)} · ${text(b, countB)}`;
+    if (countA != null && countB != null && countA > 0n && countB > 0n) {
+      const ratio = Number(countB) / Number(countA);
+      summary += ` · ${b.name} has ${ratio.toPrecision(3)}× as many`;
+    }
+    el.textContent = summary;
+    return el;
+  }
+
+  private renderDiff(a: WorkspaceTabInfo, b: WorkspaceTabInfo): HTMLElement {
+    const note = (message: string): HTMLElement => {
+      const el = document.createElement("p");
+      el.className = "results-note";
+      el.textContent = message;
+      return el;
+    };
+    if (!a.spec || a.spec !== b.spec) {
+      return note(
+        "These tabs are for different specs, so only counts compare.",
+      );
+    }
+
+    const trees = [a.spec.classTree, a.spec.specTree];
+    for (const hero of [a.heroTree, b.heroTree]) {
+      if (hero && !trees.includes(hero)) trees.push(hero);
+    }
+    const diffs = diffConstraints(trees, a.set.constraints, b.set.constraints);
+    const settings = diffTreeSettings(trees, a.set, b.set);
+
+    const wrapper = document.createElement("div");
+    if (a.heroTree !== b.heroTree) {
+      wrapper.appendChild(
+        note(
+          `Hero tree: ${a.heroTree?.subTreeName ?? "none"} vs ` +
+            `${b.heroTree?.subTreeName ?? "none"}`,
+        ),
+      );
+    }
+    if (diffs.length === 0 && settings.length === 0) {
+      wrapper.appendChild(note("Both tabs constrain the same talents alike."));
+      return wrapper;
+    }
+
+    const table = document.createElement("table");
+    table.className = "export-chunk-table workspace-diff-table";
+    const head = document.createElement("tr");
+    for (const label of ["Tree", "Talent", a.name, b.name]) {
+      const th = document.createElement("th");
+      th.textContent = label;
+      head.appendChild(th);
+    }
+    table.appendChild(head);
+
+    const treeLabel = (tree: TalentTree): string =>
+      tree.subTreeName ?? TREE_LABELS[tree.type];
+    const addRow = (cells: string[]): HTMLTableRowElement => {
+      const row = document.createElement("tr");
+      for (const text of cells) {
+        const td = document.createElement("td");
+        td.textContent = text;
+        row.appendChild(td);
+      }
+      table.appendChild(row);
+      return row;
+    };
+
+    for (const diff of settings) {
+      addRow([
+        treeLabel(diff.tree),
+        diff.setting === "rules" ? "Rules" : "Spend",
+        describeSetting(diff, a),
+        describeSetting(diff, b),
+      ]);
+    }
+    for (const diff of diffs) {
+      const node = diff.tree.nodes.get(diff.nodeId)!;
+      const row = addRow([
+        treeLabel(diff.tree),
+        node.name,
+        describe(node, diff.a),
+        describe(node, diff.b),
+      ]);
+      row.addEventListener("mouseenter", () =>
+        state.highlightNodes([diff.nodeId]),
+      );
+      row.addEventListener("mouseleave", () => state.highlightNodes([]));
+    }
+    wrapper.appendChild(table);
+    return wrapper;
+  }
+}
@@ -0,0 +1,113 @@
+import { state } from "../state";
+import { WorkspaceDiffDialog } from "./workspace-diff-dialog";
+
+/**
+ * Tabs over the workspace's named constraint sets, with buttons to open,
+ * duplicate and compare them. Double-click a tab to rename it.
+ */
+export class WorkspaceTabs {
+  readonly element: HTMLElement;
+  private diffDialog = new WorkspaceDiffDialog();
+
+  constructor() {
+    this.element = document.createElement("div");
+    this.element.className = "workspace-tabs";
+    state.subscribe((event) => {
+      if (
+        event.type === "workspace-changed" ||
+        event.type === "spec-selected" ||
+        event.type === "hero-tree-selected"
+      ) {
+        this.render();
+      }
+    });
+    this.render();
+  }
+
+  private render(): void {
+    this.element.innerHTML = "";
+    const tabs = state.workspaceTabs;
+
+    tabs.forEach((tab, index) => {
+      const btn = document.createElement("button");
+      btn.className = "workspace-tab";
+      btn.classList.toggle("active", index === state.activeTabIndex);
+      btn.title = tab.spec
+        ? `${tab.spec.specName} ${tab.spec.className}` +
+          (tab.heroTree?.subTreeName ? ` · ${tab.heroTree.subTreeName}` : "")
+        : "";
+      btn.addEventListener("click", () => state.switchTab(index));
+      btn.addEventListener("dblclick", () => this.rename(btn, index));
+
+      const label = document.createElement("span");
+      label.textContent = tab.name;
+      btn.appendChild(label);
+
+      if (tabs.length > 1) {
+        const close = document.createElement("span");
+        close.className = "workspace-tab-close";
+        close.textContent = "×";
+        close.title = "Close tab";
+        close.addEventListener("click", (e) => {
+          e.stopPropagation();
+          const ok = window.confirm(
+            `Close "${tab.name}"? Its constraints will be lost.`,
+          );
+          if (ok) state.closeTab(index);
+        });
+        btn.appendChild(close);
+      }
+      this.element.appendChild(btn);
+    });
+
+    const addBtn = document.createElement("button");
+    addBtn.className = "workspace-tab-action";
+    addBtn.textContent = "+";
+    addBtn.title = "New tab without constraints";
+    addBtn.addEventListener("click", () =>
+      state.addTab(`Set ${tabs.length + 1}`, false),
+    );
+
+    const duplicateBtn = document.createElement("button");
+    duplicateBtn.className = "workspace-tab-action";
+    duplicateBtn.textContent = "Duplicate";
+    duplicateBtn.title = "New tab starting from this one's constraints";
+    duplicateBtn.addEventListener("click", () => {
+      const current = tabs[state.activeTabIndex];
+      state.addTab(`${current.name} copy`, true);
+    });
+
+    const compareBtn = document.createElement("button");
+    compareBtn.className = "workspace-tab-action";
+    compareBtn.textContent = "Compare";
+    compareBtn.title = "Show which talents differ between two tabs";
+    compareBtn.disabled = tabs.length < 2;
+    compareBtn.addEventListener("click", () => this.diffDialog.open());
+
+    this.element.append(addBtn, duplicateBtn, compareBtn);
+  }
+
+  private rename(btn: HTMLButtonElement, index: number): void {
+    const input = document.createElement("input");
+    input.className = "workspace-tab-rename";
+    input.value = state.workspaceTabs[index].name;
+    let done = false;
+    const commit = (): void => {
+      if (done) return;
+      done = true;
+      state.renameTab(index, input.value);
+      this.render();
+    };
+    input.addEventListener("blur", commit);
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") commit();
+      if (e.key === "Escape") {
+        done = true;
+        this.render();
+      }
+    });
+    btn.replaceWith(input);
+    input.focus();
+    input.select();
+  }
+}
@@ -6,14 +6,19 @@ import type {
   CountResult,
   CountWarning,
   BooleanExpr,
+  SelectionCounts,
 } from "./types";
+import { cardinalityMet } from "./cardinality";
+import { takenRankRange } from "./rank-range";
+import { rowSpendCheckpoints, spendBudget } from "./spend";
 
-type Poly = number[];
+// Coefficients are bigints so counts stay exact past 2^53.
+type Poly = bigint[];
 
 function polyConvolve(a: Poly, b: Poly, maxDeg: number): Poly {
-  const result = new Array(maxDeg + 1).fill(0);
+  const result: Poly = new Array(maxDeg + 1).fill(0n);
   for (let i = 0; i < a.length && i <= maxDeg; i++) {
-    if (a[i] === 0) continue;
+    if (a[i] === 0n) continue;
     for (let j = 0; j < b.length && i + j <= maxDeg; j++) {
       result[i + j] += a[i] * b[j];
     }
@@ -23,9 +28,9 @@ function polyConvolve(a: Poly, b: Poly, maxDeg: number): Poly {
 
 function polyAdd(a: Poly, b: Poly, maxDeg: number): Poly {
   const len = Math.max(a.length, b.length);
-  const result = new Array(Math.min(len, maxDeg + 1)).fill(0);
+  const result: Poly = new Array(Math.min(len, maxDeg + 1)).fill(0n);
   for (let i = 0; i < result.length; i++) {
-    result[i] = (a[i] ?? 0) + (b[i] ?? 0);
+    result[i] = (a[i] ?? 0n) + (b[i] ?? 0n);
   }
   return result;
 }
@@ -60,11 +65,11 @@ function enforceGate(
 ): Map<number, Poly> {
   const newDp = new Map<number, Poly>();
   for (const [bitmap, poly] of dp) {
-    const trimmed = new Array(Math.min(poly.length, budget + 1)).fill(0);
+    const trimmed: Poly = new Array(Math.min(poly.length, budget + 1)).fill(0n);
     for (let p = requiredPoints; p < trimmed.length; p++) {
       trimmed[p] = poly[p];
     }
-    if (trimmed.some((c) => c > 0)) {
+    if (trimmed.some((c) => c > 0n)) {
       mergePoly(newDp, bitmap, trimmed, budget);
     }
   }
@@ -124,37 +129,27 @@ function buildNodePoly(
     const selPoly: Poly = [];
     for (const entry of entriesToUse) {
       const cost = isFree ? 0 : entry.maxRanks;
-      while (selPoly.length <= cost) selPoly.push(0);
-      selPoly[cost] += 1;
+      while (selPoly.length <= cost) selPoly.push(0n);
+      selPoly[cost] += 1n;
     }
 
     if (isAlways) {
       return { skipPoly: null, selectPoly: selPoly };
     }
-    return { skipPoly: [1], selectPoly: selPoly };
+    return { skipPoly: [1n], selectPoly: selPoly };
   }
 
-  let minRank: number, maxRank: number;
-  if (constraint?.exactRank != null) {
-    minRank = maxRank = constraint.exactRank;
-  } else if (isFree) {
-    // Free/entry nodes are always taken at max rank — no variation
-    minRank = maxRank = node.maxRanks;
-  } else {
-    minRank = isAlways ? 1 : 0;
-    maxRank = node.maxRanks;
-  }
-
-  const startRank = Math.max(minRank, 1);
+  // Free/entry nodes are always taken at max rank — no variation
+  const { minRank, maxRank } = takenRankRange(node, constraint, isFree);
   const selPoly: Poly = [];
-  for (let rank = startRank; rank <= maxRank; rank++) {
+  for (let rank = minRank; rank <= maxRank; rank++) {
     const cost = isFree ? 0 : rank;
-    while (selPoly.length <= cost) selPoly.push(0);
-    selPoly[cost] += 1;
+    while (selPoly.length <= cost) selPoly.push(0n);
+    selPoly[cost] += 1n;
   }
 
-  const skipPoly = minRank > 0 ? null : ([1] as Poly);
-  return { skipPoly, selectPoly: selPoly };
+  const canSkip = !isAlways && !isFree && constraint?.exactRank == null;
+  return { skipPoly: canSkip ? [1n] : null, selectPoly: selPoly };
 }
 
 function isAccessibleByBitmap(
@@ -203,7 +198,7 @@ function nodeName(tree: TalentTree, nodeId: number): string {
   return tree.nodes.get(nodeId)?.name ?? `#${nodeId}`;
 }
 
-function nameList(tree: TalentTree, ids: Iterable<number>): string {
+export function nameList(tree: TalentTree, ids: Iterable<number>): string {
   const names = [...ids].map((id) => `"${nodeName(tree, id)}"`);
   if (names.length <= 2) return names.join(" and ");
   return names.slice(0, -1).join(", ") + ", and " + names[names.length - 1];
@@ -218,6 +213,7 @@ function validateBudgetAndGates(
   warnings: CountWarning[],
 ): void {
   if (alwaysNodes.size === 0 && neverNodes.size === 0) return;
+  const budget = spendBudget(tree);
 
   let totalAvailable = 0;
   for (const node of tree.nodes.values()) {
@@ -225,11 +221,11 @@ function validateBudgetAndGates(
       totalAvailable += node.maxRanks;
     }
   }
-  if (totalAvailable < tree.pointBudget) {
-    const gap = tree.pointBudget - totalAvailable;
+  if (totalAvailable < budget) {
+    const gap = budget - totalAvailable;
     warnings.push({
       severity: "error",
-      message: `Blocked too many talents — ${totalAvailable} points selectable, ${tree.pointBudget} needed. Unblock ${gap} points of talents to fix.`,
+      message: `Blocked too many talents — ${totalAvailable} points selectable, ${budget} needed. Unblock ${gap} points of talents to fix.`,
       nodeIds: [...neverNodes],
     });
   }
@@ -242,9 +238,8 @@ function validateBudgetAndGates(
     const node = tree.nodes.get(nodeId);
     if (!node || node.freeNode) return 0;
     const c = constraints.get(nodeId);
-    if (c?.exactRank != null) return c.exactRank;
     if (node.type === "choice") return freeNodeCost(node);
-    return 1;
+    return takenRankRange(node, c).minRank;
   }
 
   if (alwaysNodes.size > 0) {
@@ -297,11 +292,11 @@ function validateBudgetAndGates(
       totalForced += mandatoryRanks(nodeId);
     }
 
-    if (totalForced > tree.pointBudget) {
-      const gap = totalForced - tree.pointBudget;
+    if (totalForced > budget) {
+      const gap = totalForced - budget;
       warnings.push({
         severity: "error",
-        message: `${nameList(tree, alwaysNodes)} and their prerequisites need ${totalForced} points — exceeds the ${tree.pointBudget}-point budget by ${gap}`,
+        message: `${nameList(tree, alwaysNodes)} and their prerequisites need ${totalForced} points — exceeds the ${budget}-point budget by ${gap}`,
         nodeIds: [...forcedNodes],
       });
     }
@@ -327,11 +322,11 @@ function validateBudgetAndGates(
 
     // Budget check: gate minimum + forced after must fit in budget
     const minBefore = Math.max(forcedBefore, gateReq);
-    if (forcedAfter > 0 && minBefore + forcedAfter > tree.pointBudget) {
-      const availableAfter = tree.pointBudget - minBefore;
+    if (forcedAfter > 0 && minBefore + forcedAfter > budget) {
+      const availableAfter = budget - minBefore;
       warnings.push({
         severity: "error",
-        message: `Required talents after ${gate.requiredPoints}-point gate need ${forcedAfter} points, but only ${availableAfter} remain (${tree.pointBudget} budget − ${minBefore} before gate)`,
+        message: `Required talents after ${gate.requiredPoints}-point gate need ${forcedAfter} points, but only ${availableAfter} remain (${budget} budget − ${minBefore} before gate)`,
         nodeIds: forcedAfterIds,
       });
     }
@@ -348,7 +343,8 @@ function validateBudgetAndGates(
         }
       }
     }
-    if (availableBefore < gate.requiredPoints) {
+    // Only needed when the budget reaches past the gate
+    if (budget > gateReq && availableBefore < gate.requiredPoints) {
       const gap = gate.requiredPoints - availableBefore;
       warnings.push({
         severity: "error",
@@ -358,7 +354,7 @@ function validateBudgetAndGates(
     }
 
     // Enough selectable nodes after gate to fill remaining budget
-    if (neverNodes.size > 0) {
+    if (budget > gateReq && neverNodes.size > 0) {
       let availableAfterGate = 0;
       const neverAfterGate: number[] = [];
       for (const node of tree.nodes.values()) {
@@ -370,7 +366,7 @@ function validateBudgetAndGates(
           }
         }
       }
-      const pointsNeededAfter = tree.pointBudget - gateReq;
+      const pointsNeededAfter = budget - gateReq;
       if (availableAfterGate < pointsNeededAfter) {
         const gap = pointsNeededAfter - availableAfterGate;
         warnings.push({
@@ -384,7 +380,7 @@ function validateBudgetAndGates(
 }
 
 interface ConditionalConstraintInfo {
-  targetId: number;
+  targetId: number | null; // null for a tree-level rule
   condition: BooleanExpr;
   entryId?: number; // for per-entry enforcement
 }
@@ -408,6 +404,11 @@ function collectExprRefs(expr: BooleanExpr): ExprRefs {
       case "OR":
         for (const child of e.children) walk(child);
         break;
+      case "AT_LEAST":
+      case "AT_MOST":
+      case "EXACTLY":
+        for (const id of e.nodeIds) nodeIds.add(id);
+        break;
     }
   }
 
@@ -454,6 +455,18 @@ function evalBitmapExpr(
       return expr.children.some((c) =>
         evalBitmapExpr(c, bitmap, condBit, condEntryBit, condNodeEntryBits),
       );
+    case "AT_LEAST":
+    case "AT_MOST":
+    case "EXACTLY": {
+      let taken = 0;
+      for (const nodeId of expr.nodeIds) {
+        const bit = condBit.get(nodeId);
+        const bits =
+          bit != null ? [bit] : (condNodeEntryBits.get(nodeId) ?? []);
+        if (bits.some((b) => (bitmap & (1 << b)) !== 0)) taken++;
+      }
+      return cardinalityMet(expr, taken);
+    }
   }
 }
 
@@ -465,7 +478,20 @@ function isValidBitmapForConstraints(
   condNodeEntryBits: Map<number, number[]>,
 ): boolean {
   for (const { targetId, condition, entryId } of enforcements) {
-    if (entryId != null) {
+    if (targetId == null) {
+      // Tree-level rule: must hold in every build
+      if (
+        !evalBitmapExpr(
+          condition,
+          bitmap,
+          condBit,
+          condEntryBit,
+          condNodeEntryBits,
+        )
+      ) {
+        return false;
+      }
+    } else if (entryId != null) {
       // Per-entry: entry chosen but condition not met → invalid
       const entryBitPos = condEntryBit.get(entryId);
       if (entryBitPos == null) continue;
@@ -561,7 +587,9 @@ function buildConditionalSetup(
         }
       }
 
-      if (inTreeTriggers.size === 0) {
+      // A condition with no references at all is a constant (cross-tree
+      // partitioning substitutes other trees' nodes) and is enforced here
+      if (inTreeTriggers.size === 0 && refs.nodeIds.size > 0) {
         hasUnresolvable = true;
         continue;
       }
@@ -615,7 +643,7 @@ function buildConditionalSetup(
           }
         }
 
-        if (inTreeTriggers.size === 0) {
+        if (inTreeTriggers.size === 0 && refs.nodeIds.size > 0) {
           hasUnresolvable = true;
           continue;
         }
@@ -648,6 +676,42 @@ function buildConditionalSetup(
     }
   }
 
+  // Tree-level rules are enforced once every node they reference is decided.
+  // Rules reaching into other trees can't be checked here.
+  for (const rule of tree.rules ?? []) {
+    const refs = collectExprRefs(rule);
+    if ([...refs.nodeIds].some((id) => !inTreeIds.has(id))) {
+      hasUnresolvable = true;
+      continue;
+    }
+
+    for (const nid of refs.perEntryNodeIds) {
+      perEntryNodeIds.add(nid);
+      if (!nodeEntryIds.has(nid)) {
+        nodeEntryIds.set(
+          nid,
+          tree.nodes.get(nid)!.entries.map((e) => e.id),
+        );
+      }
+    }
+
+    // A constant rule is enforced on the first node
+    let enforceIdx = 0;
+    for (const nid of refs.nodeIds) {
+      enforceIdx = Math.max(enforceIdx, nodeIndex.get(nid)!);
+    }
+    pushToMapList(enforceAtIndex, enforceIdx, {
+      targetId: null,
+      condition: rule,
+    });
+
+    for (const nid of refs.nodeIds) {
+      allCondNodes.add(nid);
+      const current = condRetireNodeIndex.get(nid) ?? -1;
+      if (enforceIdx > current) condRetireNodeIndex.set(nid, enforceIdx);
+    }
+  }
+
   for (const nid of allCondNodes) {
     const node = tree.nodes.get(nid)!;
     // Per-entry nodes always need separate bits (can't share ancestor bit)
@@ -697,7 +761,7 @@ function countDP(
   alwaysNodes: Set<number>,
   neverNodes: Set<number>,
 ): bigint {
-  const budget = tree.pointBudget;
+  const budget = spendBudget(tree);
   const { tiers, sortedKeys } = buildTiers(tree);
 
   const ancestorIds = new Set<number>();
@@ -767,11 +831,12 @@ function countDP(
   }
 
   let dp = new Map<number, Poly>();
-  const initPoly = new Array(budget + 1).fill(0);
-  initPoly[0] = 1;
+  const initPoly: Poly = new Array(budget + 1).fill(0n);
+  initPoly[0] = 1n;
   dp.set(0, initPoly);
 
   const gateReqPoints = new Set(tree.gates.map((g) => g.requiredPoints));
+  const rowCheckpoints = rowSpendCheckpoints(tree, orderedNodes);
 
   const polyCache = new Map<string, NodePolyResult>();
   let currentTierReq = sortedKeys[0];
@@ -818,6 +883,8 @@ function countDP(
       }
       currentTierReq = node.reqPoints;
     }
+    const rowMinimum = rowCheckpoints.get(i);
+    if (rowMinimum != null) dp = enforceGate(dp, rowMinimum, budget);
 
     const isNever = neverNodes.has(node.id);
     const isAlways = alwaysNodes.has(node.id) || node.freeNode;
@@ -875,8 +942,8 @@ function countDP(
         for (const entry of entriesToUse) {
           const entryBitMask = 1 << condEntryBitIndex.get(entry.id)!;
           const cost = isFree ? 0 : entry.maxRanks;
-          const entryPoly: Poly = new Array(cost + 1).fill(0);
-          entryPoly[cost] = 1;
+          const entryPoly: Poly = new Array(cost + 1).fill(0n);
+          entryPoly[cost] = 1n;
           mergePoly(
             newDp,
             bitmap | entryBitMask | fullBits,
@@ -894,7 +961,7 @@ function countDP(
             // full rank sets selectBits | fullBits.
             const fullCost = node.freeNode ? 0 : node.maxRanks;
             const partialPoly = selectPoly.slice(0, fullCost);
-            if (partialPoly.some((c) => c > 0)) {
+            if (partialPoly.some((c) => c > 0n)) {
               mergePoly(
                 newDp,
                 bitmap | selectBits,
@@ -902,9 +969,9 @@ function countDP(
                 budget,
               );
             }
-            const fullCoeff = selectPoly[fullCost] ?? 0;
-            if (fullCoeff > 0) {
-              const fullSelectPoly = new Array(fullCost + 1).fill(0);
+            const fullCoeff = selectPoly[fullCost] ?? 0n;
+            if (fullCoeff > 0n) {
+              const fullSelectPoly: Poly = new Array(fullCost + 1).fill(0n);
               fullSelectPoly[fullCost] = fullCoeff;
               mergePoly(
                 newDp,
@@ -932,7 +999,22 @@ function countDP(
     const toEnforce = condSetup.enforceAtIndex.get(i);
     if (toEnforce) {
       for (const { targetId, condition, entryId } of toEnforce) {
-        if (entryId != null) {
+        if (targetId == null) {
+          // Tree-level rule: prune bitmaps where it doesn't hold
+          for (const [bitmap] of [...newDp]) {
+            if (
+              !evalBitmapExpr(
+                condition,
+                bitmap,
+                condSelectBitIndex,
+                condEntryBitIndex,
+                condNodeEntryBits,
+              )
+            ) {
+              newDp.delete(bitmap);
+            }
+          }
+        } else if (entryId != null) {
           // Per-entry: prune bitmaps where entry was chosen but condition not met
           const entryBit = condEntryBitIndex.get(entryId);
           if (entryBit == null) continue;
@@ -1030,7 +1112,7 @@ function countDP(
 
     // Prune dead states
     for (const [bitmap, poly] of newDp) {
-      if (poly.every((c) => c === 0)) {
+      if (poly.every((c) => c === 0n)) {
         newDp.delete(bitmap);
       }
     }
@@ -1038,18 +1120,28 @@ function countDP(
     dp = newDp;
   }
 
-  let total = 0;
+  const endMinimum = rowCheckpoints.get(orderedNodes.length);
+  if (endMinimum != null) dp = enforceGate(dp, endMinimum, budget);
+
+  let total = 0n;
   for (const poly of dp.values()) {
     if (budget < poly.length) {
       total += poly[budget];
     }
   }
-  return BigInt(total);
+  return total;
+}
+
+export interface CountOptions {
+  // Also count the builds taking each node and entry (costs about as much
+  // as preparing to generate)
+  selections?: boolean;
 }
 
 export function countTreeBuilds(
   tree: TalentTree,
   constraints: Map<number, Constraint>,
+  options: CountOptions = {},
 ): CountResult {
   const startTime = performance.now();
   const warnings: CountWarning[] = [];
@@ -1110,6 +1202,22 @@ export function countTreeBuilds(
   // Phase 5: Count (conditionals enforced within DP)
   const count = countDP(tree, constraints, alwaysNodes, neverNodes);
 
+  // Phase 6: Per-node selections, forward counts times suffix completions
+  let selections: SelectionCounts | undefined;
+  if (options.selections) {
+    selections = { nodes: new Map(), entries: new Map() };
+    if (count > 0n) {
+      const layout = computeLayout(tree, constraints);
+      selections = countSelections(
+        layout,
+        buildSuffixTables(layout, constraints, alwaysNodes, neverNodes),
+        constraints,
+        alwaysNodes,
+        neverNodes,
+      );
+    }
+  }
+
   // Warn only for fully-unresolvable cross-tree conditionals
   let hasUnresolvable = false;
   for (const [nodeId, c] of constraints) {
@@ -1126,6 +1234,7 @@ export function countTreeBuilds(
     let hasInTree = false;
     for (const cond of conditions) {
       const refs = collectExprRefs(cond);
+      if (refs.nodeIds.size === 0) hasInTree = true;
       for (const tid of refs.nodeIds) {
         if (tree.nodes.has(tid)) {
           hasInTree = true;
@@ -1148,7 +1257,23 @@ export function countTreeBuilds(
     });
   }
 
-  return { count, durationMs: performance.now() - startTime, warnings };
+  const crossTreeRules = (tree.rules ?? []).filter((rule) =>
+    [...collectExprRefs(rule).nodeIds].some((id) => !tree.nodes.has(id)),
+  );
+  if (crossTreeRules.length > 0 && count > 0n) {
+    warnings.push({
+      severity: "warning",
+      message:
+        "Some rules reference talents in other trees and cannot be evaluated — count may be an upper bound",
+    });
+  }
+
+  return {
+    count,
+    durationMs: performance.now() - startTime,
+    warnings,
+    selections,
+  };
 }
 
 interface TreeLayout {
@@ -1158,6 +1283,8 @@ interface TreeLayout {
   permanentBitAssignment: Map<number, number>;
   gateReqPoints: Set<number>;
   tierFirstIndex: Map<number, number>;
+  // Minimum points spent before a position, from row spend targets
+  rowCheckpoints: Map<number, number>;
   budget: number;
   condSelectBitAssignment: Map<number, number>;
   condEntryBitAssignment: Map<number, number>;
@@ -1172,7 +1299,7 @@ function computeLayout(
   tree: TalentTree,
   constraints: Map<number, Constraint>,
 ): TreeLayout {
-  const budget = tree.pointBudget;
+  const budget = spendBudget(tree);
   const { tiers, sortedKeys } = buildTiers(tree);
 
   const ancestorIds = new Set<number>();
@@ -1300,6 +1427,7 @@ function computeLayout(
     permanentBitAssignment,
     gateReqPoints,
     tierFirstIndex,
+    rowCheckpoints: rowSpendCheckpoints(tree, orderedNodes),
     budget,
     condSelectBitAssignment,
     condEntryBitAssignment,
@@ -1312,13 +1440,13 @@ function computeLayout(
 }
 
 function suffixLookup(
-  table: Map<number, number[]>,
+  table: Map<number, Poly>,
   bitmap: number,
   r: number,
-): number {
-  if (r < 0) return 0;
+): bigint {
+  if (r < 0) return 0n;
   const poly = table.get(bitmap);
-  return poly?.[r] ?? 0;
+  return poly?.[r] ?? 0n;
 }
 
 function buildSuffixTables(
@@ -1326,13 +1454,14 @@ function buildSuffixTables(
   constraints: Map<number, Constraint>,
   alwaysNodes: Set<number>,
   neverNodes: Set<number>,
-): Map<number, number[]>[] {
+): Map<number, Poly>[] {
   const {
     orderedNodes,
     retireAtIndex,
     permanentBitAssignment,
     gateReqPoints,
     tierFirstIndex,
+    rowCheckpoints,
     budget,
     condSelectBitAssignment,
     condEntryBitAssignment,
@@ -1343,21 +1472,22 @@ function buildSuffixTables(
     enforceAtIndex,
   } = layout;
   const N = orderedNodes.length;
-  const suffix: Map<number, number[]>[] = new Array(N + 1);
+  const suffix: Map<number, Poly>[] = new Array(N + 1);
 
-  const basePoly = new Array(budget + 1).fill(0);
-  basePoly[0] = 1;
+  const basePoly: Poly = new Array(budget + 1).fill(0n);
+  basePoly[0] = (rowCheckpoints.get(N) ?? 0) <= budget ? 1n : 0n;
   suffix[N] = new Map([[0, basePoly]]);
 
   for (let i = N - 1; i >= 0; i--) {
     const node = orderedNodes[i];
-    suffix[i] = new Map<number, number[]>();
+    suffix[i] = new Map<number, Poly>();
 
-    const gateReq =
+    const tierGate =
       tierFirstIndex.get(node.reqPoints) === i &&
       gateReqPoints.has(node.reqPoints)
         ? node.reqPoints
         : 0;
+    const gateReq = Math.max(tierGate, rowCheckpoints.get(i) ?? 0);
     const isNever = neverNodes.has(node.id);
     const isAlways = alwaysNodes.has(node.id) || node.freeNode;
     const constraint = constraints.get(node.id);
@@ -1453,7 +1583,7 @@ function buildSuffixTables(
     }
 
     for (const bitmapIn of bitmapsNeeded) {
-      const result = new Array(budget + 1).fill(0);
+      const result: Poly = new Array(budget + 1).fill(0n);
 
       for (let r = 0; r <= budget; r++) {
         if (gateReq > 0 && budget - r < gateReq) continue;
@@ -1463,7 +1593,7 @@ function buildSuffixTables(
           bitmapIn,
           permanentBitAssignment,
         );
-        let total = 0;
+        let total = 0n;
 
         if (isNever || (!accessible && !isFree)) {
           if (!isAlways) {
@@ -1514,15 +1644,11 @@ function buildSuffixTables(
               }
             }
           } else {
-            let minRank: number, maxRank: number;
-            if (constraint?.exactRank != null) {
-              minRank = maxRank = constraint.exactRank;
-            } else if (isFree) {
-              minRank = maxRank = node.maxRanks;
-            } else {
-              minRank = 1;
-              maxRank = node.maxRanks;
-            }
+            const { minRank, maxRank } = takenRankRange(
+              node,
+              constraint,
+              isFree,
+            );
             for (let rank = minRank; rank <= maxRank; rank++) {
               const cost = isFree ? 0 : rank;
               if (r >= cost) {
@@ -1597,11 +1723,12 @@ function buildSuffixTables(
               }
             }
           } else {
-            if (constraint?.exactRank != null) {
-              const cost = isFree ? 0 : constraint.exactRank;
+            const { minRank, maxRank } = takenRankRange(node, constraint);
+            for (let rank = minRank; rank <= maxRank; rank++) {
+              const cost = isFree ? 0 : rank;
               if (r >= cost) {
                 const bmAfter =
-                  constraint.exactRank === node.maxRanks
+                  rank === node.maxRanks
                     ? bitmapIn | selectBits | fullBits
                     : bitmapIn | selectBits;
                 if (
@@ -1621,32 +1748,6 @@ function buildSuffixTables(
                   );
                 }
               }
-            } else {
-              for (let rank = 1; rank <= node.maxRanks; rank++) {
-                const cost = isFree ? 0 : rank;
-                if (r >= cost) {
-                  const bmAfter =
-                    rank === node.maxRanks
-                      ? bitmapIn | selectBits | fullBits
-                      : bitmapIn | selectBits;
-                  if (
-                    !toEnforce ||
-                    isValidBitmapForConstraints(
-                      bmAfter,
-                      toEnforce,
-                      condSelectBitAssignment,
-                      condEntryBitAssignment,
-                      condNodeEntryBits,
-                    )
-                  ) {
-                    total += suffixLookup(
-                      suffix[i + 1],
-                      bmAfter & ~retireMask,
-                      r - cost,
-                    );
-                  }
-                }
-              }
             }
           }
         }
@@ -1654,7 +1755,7 @@ function buildSuffixTables(
         result[r] = total;
       }
 
-      if (result.some((v) => v > 0)) suffix[i].set(bitmapIn, result);
+      if (result.some((v) => v > 0n)) suffix[i].set(bitmapIn, result);
     }
   }
 
@@ -1662,9 +1763,9 @@ function buildSuffixTables(
 }
 
 function unrankBuild(
-  targetK: number,
+  targetK: bigint,
   layout: TreeLayout,
-  suffix: Map<number, number[]>[],
+  suffix: Map<number, Poly>[],
   constraints: Map<number, Constraint>,
   alwaysNodes: Set<number>,
   neverNodes: Set<number>,
@@ -1736,7 +1837,7 @@ function unrankBuild(
 
     if (!isAlways) {
       const bmSkip = bitmap;
-      let skipCount = 0;
+      let skipCount = 0n;
       if (
         !toEnforce ||
         isValidBitmapForConstraints(
@@ -1769,7 +1870,7 @@ function unrankBuild(
             : undefined;
           const entryBitMask = entryBitPos != null ? 1 << entryBitPos : 0;
           const bmAfter = bitmap | selectBits | fullBits | entryBitMask;
-          let count = 0;
+          let count = 0n;
           if (
             !toEnforce ||
             isValidBitmapForConstraints(
@@ -1797,15 +1898,7 @@ function unrankBuild(
       }
     } else {
       const entry = node.entries[0];
-      let minRank: number, maxRank: number;
-      if (constraint?.exactRank != null) {
-        minRank = maxRank = constraint.exactRank;
-      } else if (isFree) {
-        minRank = maxRank = node.maxRanks;
-      } else {
-        minRank = 1;
-        maxRank = node.maxRanks;
-      }
+      const { minRank, maxRank } = takenRankRange(node, constraint, isFree);
       for (let rank = minRank; rank <= maxRank; rank++) {
         const cost = isFree ? 0 : rank;
         if (r >= cost) {
@@ -1813,7 +1906,7 @@ function unrankBuild(
             rank === node.maxRanks
               ? bitmap | selectBits | fullBits
               : bitmap | selectBits;
-          let count = 0;
+          let count = 0n;
           if (
             !toEnforce ||
             isValidBitmapForConstraints(
@@ -1846,15 +1939,343 @@ function unrankBuild(
 }
 
 /**
- * Generate up to `limit` builds for a tree using suffix-DP unranking.
- * If limit is omitted or exceeds the total count, all builds are returned.
- * Builds are sampled at evenly-spaced indices across the full count space.
+ * Inverse of unrankBuild: walks the build's choices in layout order, adding
+ * up the counts of every option ordered before the one it took. Returns null
+ * if the build isn't in the constrained space.
  */
-export function generateTreeBuilds(
+function rankBuildIndex(
+  build: Build,
+  layout: TreeLayout,
+  suffix: Map<number, Poly>[],
+  constraints: Map<number, Constraint>,
+  alwaysNodes: Set<number>,
+  neverNodes: Set<number>,
+): bigint | null {
+  const {
+    orderedNodes,
+    retireAtIndex,
+    permanentBitAssignment,
+    budget,
+    condSelectBitAssignment,
+    condEntryBitAssignment,
+    condNodeEntryBits,
+    condRetireAtIndex,
+    enforceAtIndex,
+  } = layout;
+  let bitmap = 0;
+  let r = budget;
+  let k = 0n;
+
+  for (let i = 0; i < orderedNodes.length; i++) {
+    // A state the suffix table doesn't know has no completions (e.g. an
+    // unmet gate), so the build can't be in the space.
+    if (suffixLookup(suffix[i], bitmap, r) === 0n) return null;
+
+    const node = orderedNodes[i];
+    const isNever = neverNodes.has(node.id);
+    const isAlways = alwaysNodes.has(node.id) || node.freeNode;
+    const constraint = constraints.get(node.id);
+    const isFree = node.freeNode;
+    const isPerEntryTracked = condNodeEntryBits.has(node.id);
+    const selectBits =
+      !isPerEntryTracked && condSelectBitAssignment.has(node.id)
+        ? 1 << condSelectBitAssignment.get(node.id)!
+        : 0;
+    const fullBits = permanentBitAssignment.has(node.id)
+      ? 1 << permanentBitAssignment.get(node.id)!
+      : 0;
+    const accessible = isAccessibleByBitmap(
+      node,
+      bitmap,
+      permanentBitAssignment,
+    );
+
+    const toRetire = retireAtIndex.get(i);
+    let retireMask = 0;
+    if (toRetire) {
+      for (const ancestorId of toRetire) {
+        retireMask |= 1 << permanentBitAssignment.get(ancestorId)!;
+      }
+    }
+    const toRetireCond = condRetireAtIndex.get(i);
+    if (toRetireCond) {
+      for (const nodeId of toRetireCond) {
+        if (condNodeEntryBits.has(nodeId)) {
+          for (const bit of condNodeEntryBits.get(nodeId)!) {
+            retireMask |= 1 << bit;
+          }
+        } else {
+          retireMask |= 1 << condSelectBitAssignment.get(nodeId)!;
+        }
+      }
+    }
+
+    const toEnforce = enforceAtIndex.get(i);
+    const satisfies = (bm: number): boolean =>
+      !toEnforce ||
+      isValidBitmapForConstraints(
+        bm,
+        toEnforce,
+        condSelectBitAssignment,
+        condEntryBitAssignment,
+        condNodeEntryBits,
+      );
+
+    // Which entry, at how many points, the build took here. Granted nodes
+    // are often left out of imported builds, so default them to taken.
+    let takenEntry = node.entries.find(
+      (e) => (build.entries.get(e.id) ?? 0) > 0,
+    );
+    let takenPoints = takenEntry ? build.entries.get(takenEntry.id)! : 0;
+    if (!takenEntry && isFree) {
+      takenEntry =
+        constraint?.entryIndex != null
+          ? node.entries[constraint.entryIndex]
+          : node.entries[0];
+      takenPoints =
+        node.type === "choice" ? (takenEntry?.maxRanks ?? 0) : node.maxRanks;
+    }
+
+    if (isNever || (!accessible && !isFree)) {
+      if (takenEntry) return null;
+      bitmap = bitmap & ~retireMask;
+      continue;
+    }
+
+    if (!isAlways) {
+      const skipCount = satisfies(bitmap)
+        ? suffixLookup(suffix[i + 1], bitmap & ~retireMask, r)
+        : 0n;
+      if (!takenEntry) {
+        if (skipCount === 0n) return null;
+        bitmap = bitmap & ~retireMask;
+        continue;
+      }
+      k += skipCount;
+    } else if (!takenEntry) {
+      return null;
+    }
+
+    let found = false;
+    if (node.type === "choice") {
+      const entriesToUse =
+        constraint?.entryIndex != null
+          ? [node.entries[constraint.entryIndex]].filter(Boolean)
+          : node.entries;
+      for (const entry of entriesToUse) {
+        const cost = isFree ? 0 : entry.maxRanks;
+        if (r < cost) continue;
+        const entryBitPos = isPerEntryTracked
+          ? condEntryBitAssignment.get(entry.id)
+          : undefined;
+        const entryBitMask = entryBitPos != null ? 1 << entryBitPos : 0;
+        const bmAfter = bitmap | selectBits | fullBits | entryBitMask;
+        const count = satisfies(bmAfter)
+          ? suffixLookup(suffix[i + 1], bmAfter & ~retireMask, r - cost)
+          : 0n;
+        if (entry === takenEntry && takenPoints === entry.maxRanks) {
+          if (count === 0n) return null;
+          bitmap = bmAfter & ~retireMask;
+          r -= cost;
+          found = true;
+          break;
+        }
+        k += count;
+      }
+    } else {
+      const { minRank, maxRank } = takenRankRange(node, constraint, isFree);
+      for (let rank = minRank; rank <= maxRank; rank++) {
+        const cost = isFree ? 0 : rank;
+        if (r < cost) continue;
+        const bmAfter =
+          rank === node.maxRanks
+            ? bitmap | selectBits | fullBits
+            : bitmap | selectBits;
+        const count = satisfies(bmAfter)
+          ? suffixLookup(suffix[i + 1], bmAfter & ~retireMask, r - cost)
+          : 0n;
+        if (rank === takenPoints) {
+          if (count === 0n) return null;
+          bitmap = bmAfter & ~retireMask;
+          r -= cost;
+          found = true;
+          break;
+        }
+        k += count;
+      }
+    }
+    if (!found) return null;
+  }
+
+  return k;
+}
+
+/**
+ * Builds taking each node and entry. Walks the layout forwards keeping, per
+ * bitmap, how many prefixes reach each point total; every option taken at a
+ * node contributes its prefixes times the suffix table's completions, and
+ * only prefixes with completions are carried on.
+ */
+function countSelections(
+  layout: TreeLayout,
+  suffix: Map<number, Poly>[],
+  constraints: Map<number, Constraint>,
+  alwaysNodes: Set<number>,
+  neverNodes: Set<number>,
+): SelectionCounts {
+  const {
+    orderedNodes,
+    retireAtIndex,
+    permanentBitAssignment,
+    budget,
+    condSelectBitAssignment,
+    condEntryBitAssignment,
+    condNodeEntryBits,
+    condRetireAtIndex,
+    enforceAtIndex,
+  } = layout;
+  const nodes = new Map<number, bigint>();
+  const entries = new Map<number, bigint>();
+  const add = (map: Map<number, bigint>, id: number, n: bigint): void => {
+    map.set(id, (map.get(id) ?? 0n) + n);
+  };
+
+  let forward = new Map<number, Poly>([[0, [1n]]]);
+
+  for (let i = 0; i < orderedNodes.length; i++) {
+    const node = orderedNodes[i];
+    const isNever = neverNodes.has(node.id);
+    const isAlways = alwaysNodes.has(node.id) || node.freeNode;
+    const constraint = constraints.get(node.id);
+    const isFree = node.freeNode;
+    const isPerEntryTracked = condNodeEntryBits.has(node.id);
+    const selectBits =
+      !isPerEntryTracked && condSelectBitAssignment.has(node.id)
+        ? 1 << condSelectBitAssignment.get(node.id)!
+        : 0;
+    const fullBits = permanentBitAssignment.has(node.id)
+      ? 1 << permanentBitAssignment.get(node.id)!
+      : 0;
+
+    let retireMask = 0;
+    for (const ancestorId of retireAtIndex.get(i) ?? []) {
+      retireMask |= 1 << permanentBitAssignment.get(ancestorId)!;
+    }
+    for (const nodeId of condRetireAtIndex.get(i) ?? []) {
+      const bits = condNodeEntryBits.get(nodeId) ?? [
+        condSelectBitAssignment.get(nodeId)!,
+      ];
+      for (const bit of bits) retireMask |= 1 << bit;
+    }
+    const toEnforce = enforceAtIndex.get(i);
+
+    const next = new Map<number, Poly>();
+    for (const [bitmap, poly] of forward) {
+      const accessible = isAccessibleByBitmap(
+        node,
+        bitmap,
+        permanentBitAssignment,
+      );
+
+      // [entry taken (null to skip), cost, bitmap after]
+      const options: [number | null, number, number][] = [];
+      if (!isAlways) options.push([null, 0, bitmap]);
+      if (!isNever && (accessible || isFree)) {
+        if (node.type === "choice") {
+          const entriesToUse =
+            constraint?.entryIndex != null
+              ? [node.entries[constraint.entryIndex]].filter(Boolean)
+              : node.entries;
+          for (const entry of entriesToUse) {
+            const entryBitPos = isPerEntryTracked
+              ? condEntryBitAssignment.get(entry.id)
+              : undefined;
+            const entryBitMask = entryBitPos != null ? 1 << entryBitPos : 0;
+            options.push([
+              entry.id,
+              isFree ? 0 : entry.maxRanks,
+              bitmap | selectBits | fullBits | entryBitMask,
+            ]);
+          }
+        } else {
+          const entryId = node.entries[0]?.id ?? -1;
+          const { minRank, maxRank } = takenRankRange(
+            node,
+            constraint,
+            isFree,
+          );
+          for (let rank = minRank; rank <= maxRank; rank++) {
+            options.push([
+              entryId,
+              isFree ? 0 : rank,
+              rank === node.maxRanks
+                ? bitmap | selectBits | fullBits
+                : bitmap | selectBits,
+            ]);
+          }
+        }
+      }
+
+      for (const [entryId, cost, bmAfter] of options) {
+        if (
+          toEnforce &&
+          !isValidBitmapForConstraints(
+            bmAfter,
+            toEnforce,
+            condSelectBitAssignment,
+            condEntryBitAssignment,
+            condNodeEntryBits,
+          )
+        ) {
+          continue;
+        }
+        const bmNext = bmAfter & ~retireMask;
+        for (let p = 0; p < poly.length && p + cost <= budget; p++) {
+          if (poly[p] === 0n) continue;
+          // Prefixes that can't finish from here, e.g. short of a gate
+          if (suffixLookup(suffix[i], bitmap, budget - p) === 0n) continue;
+          const completions = suffixLookup(
+            suffix[i + 1],
+            bmNext,
+            budget - p - cost,
+          );
+          if (completions === 0n) continue;
+
+          if (entryId != null) {
+            add(nodes, node.id, poly[p] * completions);
+            add(entries, entryId, poly[p] * completions);
+          }
+          let nextPoly = next.get(bmNext);
+          if (!nextPoly) {
+            nextPoly = new Array(budget + 1).fill(0n);
+            next.set(bmNext, nextPoly);
+          }
+          nextPoly[p + cost] += poly[p];
+        }
+      }
+    }
+    forward = next;
+  }
+
+  return { nodes, entries };
+}
+
+export interface TreeUnranker {
+  count: bigint;
+  /** Build at index `k` (0 ≤ k < count) in unranking order. */
+  unrank(k: bigint): Build;
+  /** Index of `build`, or null if it isn't in the constrained space. */
+  rank(build: Build): bigint | null;
+}
+
+/**
+ * Prepares the suffix tables for a tree once so individual builds can be
+ * fetched by index, e.g. for sampling across several trees.
+ */
+export function createTreeUnranker(
   tree: TalentTree,
   constraints: Map<number, Constraint>,
-  limit?: number,
-): Build[] {
+): TreeUnranker {
   const alwaysNodes = new Set<number>();
   const neverNodes = new Set<number>();
   for (const [nodeId, c] of constraints) {
@@ -1871,25 +2292,62 @@ export function generateTreeBuilds(
     neverNodes,
   );
   const totalCount = suffixLookup(suffix[0], 0, layout.budget);
-  if (totalCount === 0) return [];
 
-  const count = limit != null && limit < totalCount ? limit : totalCount;
+  return {
+    count: totalCount,
+    unrank: (k) =>
+      unrankBuild(k, layout, suffix, constraints, alwaysNodes, neverNodes),
+    rank: (build) =>
+      rankBuildIndex(
+        build,
+        layout,
+        suffix,
+        constraints,
+        alwaysNodes,
+        neverNodes,
+      ),
+  };
+}
+
+/**
+ * Index of `build` among the tree's constrained builds — the `k` for which
+ * generation would produce it — or null if the constraints exclude it.
+ */
+export function rankBuild(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+  build: Build,
+): bigint | null {
+  return createTreeUnranker(tree, constraints).rank(build);
+}
+
+/**
+ * Generate up to `limit` builds for a tree using suffix-DP unranking.
+ * If limit is omitted or exceeds the total count, all builds are returned.
+ * Builds are sampled at evenly-spaced indices across the full count space.
+ */
+export function generateTreeBuilds(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+  limit?: number,
+): Build[] {
+  const unranker = createTreeUnranker(tree, constraints);
+  const totalCount = unranker.count;
+  if (totalCount === 0n) return [];
+
+  const count =
+    limit != null && BigInt(limit) < totalCount ? BigInt(limit) : totalCount;
   const builds: Build[] = [];
 
   if (count === totalCount) {
-    for (let k = 0; k < count; k++) {
-      builds.push(
-        unrankBuild(k, layout, suffix, constraints, alwaysNodes, neverNodes),
-      );
+    for (let k = 0n; k < count; k++) {
+      builds.push(unranker.unrank(k));
     }
   } else {
-    // Evenly spaced sampling across the build space.
-    const step = totalCount / count;
-    for (let i = 0; i < count; i++) {
-      const k = Math.floor(i * step);
-      builds.push(
-        unrankBuild(k, layout, suffix, constraints, alwaysNodes, neverNodes),
-      );
+    // Evenly spaced sampling across the build space; integer division
+    // keeps indices exact and distinct at any count.
+    for (let i = 0n; i < count; i++) {
+      builds.push(unranker.unrank((i * totalCount) / count));
     }
   }
 
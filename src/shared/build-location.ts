@@ -0,0 +1,188 @@
+import type {
+  BooleanExpr,
+  Build,
+  Constraint,
+  TalentNode,
+  TalentTree,
+} from "./types";
+import { createTreeUnranker } from "./build-counter";
+import { constraintsForTree } from "./loadout";
+import { partitionTrees } from "./cross-tree";
+import { cardinalityMet } from "./cardinality";
+import { outsideRankRange, rankRangeText } from "./rank-range";
+import { pointsThroughRow } from "./spend";
+
+export type BuildLocation =
+  | { included: true; rank: bigint; total: bigint }
+  | { included: false; reason: string; nodeId?: number };
+
+/**
+ * Turns "always" picks (e.g. from an imported talent string) into the
+ * tree's build: the pinned entry at the pinned rank, or at max rank.
+ */
+export function buildFromPicks(tree: TalentTree, picks: Constraint[]): Build {
+  const entries = new Map<number, number>();
+  for (const pick of picks) {
+    if (pick.type !== "always") continue;
+    const node = tree.nodes.get(pick.nodeId);
+    const entry = node?.entries[pick.entryIndex ?? 0];
+    if (!node || !entry) continue;
+    const points =
+      pick.exactRank ??
+      (node.type === "choice" ? entry.maxRanks : node.maxRanks);
+    entries.set(entry.id, points);
+  }
+  return { entries };
+}
+
+function evalExpr(
+  expr: BooleanExpr,
+  nodePoints: Map<number, number>,
+  entryPoints: Map<number, number>,
+): boolean {
+  switch (expr.op) {
+    case "TALENT_SELECTED": {
+      const points =
+        expr.entryId != null
+          ? (entryPoints.get(expr.entryId) ?? 0)
+          : (nodePoints.get(expr.nodeId) ?? 0);
+      const taken = points >= (expr.minRank ?? 1);
+      return expr.negated ? !taken : taken;
+    }
+    case "AND":
+      return expr.children.every((c) => evalExpr(c, nodePoints, entryPoints));
+    case "OR":
+      return expr.children.some((c) => evalExpr(c, nodePoints, entryPoints));
+    case "AT_LEAST":
+    case "AT_MOST":
+    case "EXACTLY": {
+      const taken = expr.nodeIds.filter(
+        (id) => (nodePoints.get(id) ?? 0) > 0,
+      ).length;
+      return cardinalityMet(expr, taken);
+    }
+  }
+}
+
+function violation(
+  node: TalentNode,
+  constraint: Constraint,
+  nodePoints: Map<number, number>,
+  entryPoints: Map<number, number>,
+): string | null {
+  const points = nodePoints.get(node.id) ?? 0;
+  const takenIndex = node.entries.findIndex(
+    (e) => (entryPoints.get(e.id) ?? 0) > 0,
+  );
+  const name = `"${node.name}"`;
+
+  switch (constraint.type) {
+    case "never":
+      return points > 0 ? `Never on ${name}` : null;
+    case "always":
+      if (points === 0) return `Always on ${name}`;
+      if (
+        constraint.entryIndex != null &&
+        takenIndex !== constraint.entryIndex
+      ) {
+        const pinned = node.entries[constraint.entryIndex]?.name;
+        return `${name} pinned to ${pinned ?? "another choice"}`;
+      }
+      if (outsideRankRange(constraint, points)) {
+        return `${name} pinned to rank ${rankRangeText(node, constraint)}`;
+      }
+      return null;
+    case "conditional":
+      if (outsideRankRange(constraint, points)) {
+        return `${name} pinned to rank ${rankRangeText(node, constraint)}`;
+      }
+      return constraint.condition &&
+        points === 0 &&
+        evalExpr(constraint.condition, nodePoints, entryPoints)
+        ? `condition on ${name}`
+        : null;
+    case "range":
+      return outsideRankRange(constraint, points)
+        ? `${name} pinned to rank ${rankRangeText(node, constraint)}`
+        : null;
+    case "entry-conditional": {
+      const rule = constraint.entryConditions?.find(
+        (ec) => ec.entryIndex === takenIndex,
+      );
+      return rule && !evalExpr(rule.condition, nodePoints, entryPoints)
+        ? `condition on ${name}`
+        : null;
+    }
+  }
+}
+
+/**
+ * Finds where a build (one per tree) falls among the constrained builds:
+ * its 0-based rank in class × spec × hero export order, or the constraint
+ * that rules it out.
+ */
+export function locateBuild(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+  builds: Build[],
+): BuildLocation {
+  // Partitions follow each other in export order; the build falls in at
+  // most one of them
+  let rank: bigint | null = null;
+  let total = 0n;
+  for (const parts of partitionTrees(trees, constraints)) {
+    let partRank: bigint | null = 0n;
+    let partTotal = 1n;
+    for (let i = 0; i < parts.length; i++) {
+      const unranker = createTreeUnranker(parts[i].tree, parts[i].constraints);
+      const treeRank: bigint | null =
+        partRank != null ? unranker.rank(builds[i]) : null;
+      partRank =
+        partRank != null && treeRank != null
+          ? partRank * unranker.count + treeRank
+          : null;
+      partTotal *= unranker.count;
+    }
+    if (rank == null && partRank != null) rank = total + partRank;
+    total += partTotal;
+  }
+  if (rank != null) return { included: true, rank, total };
+
+  const nodePoints = new Map<number, number>();
+  const entryPoints = new Map<number, number>();
+  for (let i = 0; i < trees.length; i++) {
+    for (const node of trees[i].nodes.values()) {
+      for (const entry of node.entries) {
+        const points = builds[i].entries.get(entry.id) ?? 0;
+        if (points === 0) continue;
+        entryPoints.set(entry.id, points);
+        nodePoints.set(node.id, points);
+      }
+    }
+  }
+
+  for (const tree of trees) {
+    for (const [nodeId, constraint] of constraintsForTree(tree, constraints)) {
+      const node = tree.nodes.get(nodeId)!;
+      const reason = violation(node, constraint, nodePoints, entryPoints);
+      if (reason) return { included: false, reason, nodeId };
+    }
+    for (const rule of tree.rules ?? []) {
+      if (!evalExpr(rule, nodePoints, entryPoints)) {
+        return { included: false, reason: `a ${tree.type} tree rule` };
+      }
+    }
+    for (const target of tree.spend?.rows ?? []) {
+      if (pointsThroughRow(tree, nodePoints, target) < target.points) {
+        return {
+          included: false,
+          reason: `${target.points} ${tree.type} points by row ${target.row + 1}`,
+        };
+      }
+    }
+  }
+  return {
+    included: false,
+    reason: "the point budget, gates or prerequisites",
+  };
+}
@@ -0,0 +1,25 @@
+import type { BooleanExpr, CardinalityExpr, CardinalityOp } from "./types";
+
+export const CARDINALITY_OPS: CardinalityOp[] = [
+  "AT_LEAST",
+  "AT_MOST",
+  "EXACTLY",
+];
+
+export function isCardinalityExpr(
+  expr: BooleanExpr,
+): expr is CardinalityExpr {
+  return (CARDINALITY_OPS as string[]).includes(expr.op);
+}
+
+/** Whether `taken` of the expression's nodes satisfies its threshold. */
+export function cardinalityMet(expr: CardinalityExpr, taken: number): boolean {
+  switch (expr.op) {
+    case "AT_LEAST":
+      return taken >= expr.count;
+    case "AT_MOST":
+      return taken <= expr.count;
+    case "EXACTLY":
+      return taken === expr.count;
+  }
+}
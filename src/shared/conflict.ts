@@ -0,0 +1,62 @@
+import type { Constraint, CountWarning, TalentTree } from "./types";
+import { countTreeBuilds, nameList } from "./build-counter";
+
+/** Whether no build of `tree` satisfies `constraints`. */
+export function isEmpty(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): boolean {
+  return countTreeBuilds(tree, constraints).count === 0n;
+}
+
+/**
+ * A minimal subset of `constraints` that, together with the `pinned` ones,
+ * still leaves `tree` with no builds.
+ *
+ * Emptiness only grows with more constraints, so dropping each one in turn
+ * and keeping the drop whenever the rest stay empty leaves a set where
+ * relaxing any single constraint brings builds back.
+ */
+export function minimalConflict(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+  pinned = new Map<number, Constraint>(),
+): Map<number, Constraint> {
+  const core = new Map(constraints);
+  for (const id of constraints.keys()) {
+    const without = new Map(core);
+    without.delete(id);
+    if (isEmpty(tree, new Map([...without, ...pinned]))) core.delete(id);
+  }
+  return core;
+}
+
+/**
+ * A minimal subset of `constraints` that still leaves `tree` with no
+ * builds, as an error warning whose `nodeIds` are the constraints to relax;
+ * null when some build remains. Tree rules and spend targets are kept as
+ * given.
+ */
+export function findConflict(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): CountWarning | null {
+  if (!isEmpty(tree, constraints)) return null;
+
+  const nodeIds = [...minimalConflict(tree, constraints).keys()];
+  if (nodeIds.length === 0) {
+    return {
+      severity: "error",
+      message: "No builds fit this tree's rules and point spend",
+    };
+  }
+  const names = nameList(tree, nodeIds);
+  return {
+    severity: "error",
+    message:
+      nodeIds.length === 1
+        ? `No builds: ${names} can't be satisfied — relax it`
+        : `No builds: ${names} conflict — relax one of them`,
+    nodeIds,
+  };
+}
@@ -1,5 +1,5 @@
-export const RAIDBOTS_TALENT_URL =
-  "https://mimiron.raidbots.com/static/data/live/talents.json";
+// Each channel's data is at <base>/<live|ptr|beta>/talents.json
+export const RAIDBOTS_DATA_URL = "https://mimiron.raidbots.com/static/data";
 
 export const ICON_CDN_URL = "https://wow.zamimg.com/images/wow/icons/medium";
 
@@ -7,6 +7,26 @@ export const WOWHEAD_TOOLTIP_URL = "https://nether.wowhead.com/tooltip/spell";
 
 export const MAX_PROFILESETS = 6399;
 
+// Upper bound on a chunked (multi-file) export; larger spaces are sampled.
+export const MAX_CHUNKED_PROFILESETS = 100_000;
+
+// SimC `fight_style` values offered for base profiles; Patchwerk is SimC's
+// default.
+export const SIMC_FIGHT_STYLES = [
+  "Patchwerk",
+  "CastingPatchwerk",
+  "DungeonSlice",
+  "DungeonRoute",
+  "LightMovement",
+  "HeavyMovement",
+  "HecticAddCleave",
+  "CleaveAdd",
+] as const;
+
+// Cross-tree conditions are counted by splitting on the states of the
+// talents they reference; this caps the number of splits.
+export const MAX_CROSS_TREE_PARTITIONS = 4096;
+
 export const CACHE_TTL_MS = 4 * 60 * 60 * 1000; // 4 hours
 
 export const COUNT_THRESHOLDS = {
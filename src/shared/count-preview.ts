@@ -0,0 +1,31 @@
+import type { Constraint, CountResult, TalentTree } from "./types";
+import { countTreeBuilds } from "./build-counter";
+
+export interface CountPreview {
+  always: bigint;
+  never: bigint;
+}
+
+/**
+ * Builds of `tree` if `nodeId` were set to Always or Never on top of
+ * `constraints`. For an unconstrained node the answer is read off the
+ * selection counts of `current` — the count under these same constraints —
+ * when it has them; otherwise both cases are counted.
+ */
+export function previewNodeCounts(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+  nodeId: number,
+  current?: CountResult,
+): CountPreview {
+  const selected = current?.selections?.nodes;
+  if (current && selected && !constraints.has(nodeId)) {
+    const always = selected.get(nodeId) ?? 0n;
+    return { always, never: current.count - always };
+  }
+
+  const countWith = (type: "always" | "never"): bigint =>
+    countTreeBuilds(tree, new Map(constraints).set(nodeId, { nodeId, type }))
+      .count;
+  return { always: countWith("always"), never: countWith("never") };
+}
@@ -0,0 +1,256 @@
+import type { BooleanExpr, Constraint, TalentNode, TalentTree } from "./types";
+import { countTreeBuilds } from "./build-counter";
+import { cardinalityMet, isCardinalityExpr } from "./cardinality";
+import { MAX_CROSS_TREE_PARTITIONS } from "./constants";
+import { constraintsForTree } from "./loadout";
+
+/**
+ * One tree of a cross-tree partition: its conditions with other trees'
+ * talents replaced by their state in the partition, and its own talents
+ * that other trees reference pinned by rules.
+ */
+export interface TreePart {
+  tree: TalentTree;
+  constraints: Map<number, Constraint>;
+  // Equal keys count and unrank the same, so results can be shared
+  key: string;
+}
+
+// A referenced talent's state: skipped, taken, or taken as a given entry
+interface NodeState {
+  taken: boolean;
+  entryId?: number;
+}
+
+const SKIPPED: NodeState = { taken: false };
+const TRUE: BooleanExpr = { op: "AND", children: [] };
+const FALSE: BooleanExpr = { op: "OR", children: [] };
+
+function treeConditions(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): BooleanExpr[] {
+  const conditions = [...(tree.rules ?? [])];
+  for (const c of constraintsForTree(tree, constraints).values()) {
+    if (c.type === "conditional" && c.condition) conditions.push(c.condition);
+    for (const ec of c.entryConditions ?? []) conditions.push(ec.condition);
+  }
+  return conditions;
+}
+
+function walkRefs(
+  expr: BooleanExpr,
+  visit: (nodeId: number, entryId?: number) => void,
+): void {
+  if (expr.op === "TALENT_SELECTED") {
+    visit(expr.nodeId, expr.entryId);
+  } else if (isCardinalityExpr(expr)) {
+    for (const id of expr.nodeIds) visit(id);
+  } else {
+    for (const child of expr.children) walkRefs(child, visit);
+  }
+}
+
+/** Whether any condition in one of `trees` references another tree. */
+export function hasCrossTreeConditions(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+): boolean {
+  return trees.some((tree) =>
+    treeConditions(tree, constraints).some((expr) => {
+      let foreign = false;
+      walkRefs(expr, (nodeId) => {
+        if (!tree.nodes.has(nodeId)) foreign = true;
+      });
+      return foreign;
+    }),
+  );
+}
+
+function nodeStates(node: TalentNode, byEntry: boolean): NodeState[] {
+  if (!byEntry) return [SKIPPED, { taken: true }];
+  return [
+    SKIPPED,
+    ...node.entries.map((e) => ({ taken: true, entryId: e.id })),
+  ];
+}
+
+function simplify(op: "AND" | "OR", children: BooleanExpr[]): BooleanExpr {
+  const [identity, absorbing] = op === "AND" ? [TRUE, FALSE] : [FALSE, TRUE];
+  const kept: BooleanExpr[] = [];
+  for (const child of children) {
+    if (child === absorbing) return absorbing;
+    if (child !== identity) kept.push(child);
+  }
+  if (kept.length === 0) return identity;
+  return kept.length === 1 ? kept[0] : { op, children: kept };
+}
+
+/**
+ * `expr` with every node outside `tree` replaced by its state in
+ * `assigned` (skipped when it isn't there, e.g. another hero tree).
+ */
+function substitute(
+  expr: BooleanExpr,
+  tree: TalentTree,
+  assigned: Map<number, NodeState>,
+): BooleanExpr {
+  const stateOf = (nodeId: number): NodeState =>
+    assigned.get(nodeId) ?? SKIPPED;
+
+  if (expr.op === "TALENT_SELECTED") {
+    if (tree.nodes.has(expr.nodeId)) return expr;
+    // Like the in-tree bitmap check, ranks above 1 are never confirmed
+    if (expr.minRank != null && expr.minRank > 1) {
+      return expr.negated ? TRUE : FALSE;
+    }
+    const state = stateOf(expr.nodeId);
+    const taken =
+      expr.entryId != null ? state.entryId === expr.entryId : state.taken;
+    return taken !== !!expr.negated ? TRUE : FALSE;
+  }
+
+  if (isCardinalityExpr(expr)) {
+    const local = expr.nodeIds.filter((id) => tree.nodes.has(id));
+    if (local.length === expr.nodeIds.length) return expr;
+    const foreignTaken = expr.nodeIds.filter(
+      (id) => !tree.nodes.has(id) && stateOf(id).taken,
+    ).length;
+    // Decide the constant cases: no local nodes left to count, or a
+    // threshold every (or no) local outcome meets
+    const met = (taken: number) => cardinalityMet(expr, foreignTaken + taken);
+    const outcomes = Array.from({ length: local.length + 1 }, (_, k) => met(k));
+    if (outcomes.every(Boolean)) return TRUE;
+    if (!outcomes.some(Boolean)) return FALSE;
+    return { op: expr.op, nodeIds: local, count: expr.count - foreignTaken };
+  }
+
+  return simplify(
+    expr.op,
+    expr.children.map((c) => substitute(c, tree, assigned)),
+  );
+}
+
+function pinExpr(nodeId: number, state: NodeState): BooleanExpr {
+  if (!state.taken) return { op: "TALENT_SELECTED", nodeId, negated: true };
+  if (state.entryId != null) {
+    return { op: "TALENT_SELECTED", nodeId, entryId: state.entryId };
+  }
+  return { op: "TALENT_SELECTED", nodeId };
+}
+
+function makePart(
+  tree: TalentTree,
+  treeIndex: number,
+  constraints: Map<number, Constraint>,
+  assigned: Map<number, NodeState>,
+): TreePart {
+  const partConstraints = new Map<number, Constraint>();
+  for (const [nodeId, c] of constraintsForTree(tree, constraints)) {
+    const next: Constraint = { ...c };
+    if (c.condition) next.condition = substitute(c.condition, tree, assigned);
+    if (c.entryConditions) {
+      next.entryConditions = c.entryConditions.map((ec) => ({
+        ...ec,
+        condition: substitute(ec.condition, tree, assigned),
+      }));
+    }
+    partConstraints.set(nodeId, next);
+  }
+
+  const rules = (tree.rules ?? []).map((r) => substitute(r, tree, assigned));
+  for (const [nodeId, state] of assigned) {
+    if (tree.nodes.has(nodeId)) rules.push(pinExpr(nodeId, state));
+  }
+
+  return {
+    tree: { ...tree, rules },
+    constraints: partConstraints,
+    key: `${treeIndex}:${JSON.stringify([rules, [...partConstraints]])}`,
+  };
+}
+
+/**
+ * Splits the builds of `trees` into partitions, one per combination of
+ * states of the talents that one tree's conditions reference in another.
+ * Within a partition every tree is independent again, so the total is the
+ * sum over partitions of the per-tree products. Without cross-tree
+ * conditions there is a single partition of the unchanged trees.
+ */
+export function partitionTrees(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+): TreePart[][] {
+  if (!hasCrossTreeConditions(trees, constraints)) {
+    return [
+      trees.map((tree, i) => ({
+        tree,
+        constraints: constraintsForTree(tree, constraints),
+        key: `${i}`,
+      })),
+    ];
+  }
+
+  // Referenced nodes in the other trees; true when a reference names an
+  // entry, so the node's states split per entry
+  const refs = new Map<number, boolean>();
+  for (const tree of trees) {
+    for (const expr of treeConditions(tree, constraints)) {
+      walkRefs(expr, (nodeId, entryId) => {
+        if (tree.nodes.has(nodeId)) return;
+        if (!trees.some((t) => t.nodes.has(nodeId))) return;
+        refs.set(nodeId, (refs.get(nodeId) ?? false) || entryId != null);
+      });
+    }
+  }
+
+  const nodeIds = [...refs.keys()];
+  const states = nodeIds.map((id) => {
+    const node = trees.find((t) => t.nodes.has(id))!.nodes.get(id)!;
+    return nodeStates(node, refs.get(id)!);
+  });
+  const count = states.reduce((product, s) => product * s.length, 1);
+  if (count > MAX_CROSS_TREE_PARTITIONS) {
+    throw new Error(
+      `Cross-tree conditions reference too many talents (${nodeIds.length})`,
+    );
+  }
+
+  const partitions: TreePart[][] = [];
+  for (let p = 0; p < count; p++) {
+    // Mixed-radix digits of p, the last node varying fastest
+    const assigned = new Map<number, NodeState>();
+    let rest = p;
+    for (let i = nodeIds.length - 1; i >= 0; i--) {
+      assigned.set(nodeIds[i], states[i][rest % states[i].length]);
+      rest = Math.floor(rest / states[i].length);
+    }
+    partitions.push(
+      trees.map((tree, i) => makePart(tree, i, constraints, assigned)),
+    );
+  }
+  return partitions;
+}
+
+/** Exact number of builds over `trees`, honouring cross-tree conditions. */
+export function countAcrossTrees(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+): bigint {
+  const counts = new Map<string, bigint>();
+  let total = 0n;
+  for (const parts of partitionTrees(trees, constraints)) {
+    let product = 1n;
+    for (const part of parts) {
+      let count = counts.get(part.key);
+      if (count == null) {
+        count = countTreeBuilds(part.tree, part.constraints).count;
+        counts.set(part.key, count);
+      }
+      product *= count;
+      if (product === 0n) break;
+    }
+    total += product;
+  }
+  return total;
+}
@@ -0,0 +1,54 @@
+import type { Constraint, TalentTree } from "./types";
+import { countTreeBuilds } from "./build-counter";
+import { isEmpty, minimalConflict } from "./conflict";
+
+export interface NodeExplanation {
+  // Every build takes the node ("on"), or none does ("off")
+  forced: "on" | "off";
+  // A minimal set of the given constraints that forces it; empty when the
+  // tree's budget, gates and rules force it on their own
+  nodeIds: number[];
+  // What goes wrong with the opposite choice, e.g. "X can't be reached"
+  reasons: string[];
+}
+
+/**
+ * Why `nodeId` is taken by every build or by none under `constraints`
+ * (the user's own — implied ones are what's being explained), or null if
+ * it's a free choice or no build is left at all. The node is forced when
+ * the opposite choice leaves no builds, so the constraints that force it
+ * are a minimal conflict with that choice.
+ */
+export function explainNode(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+  nodeId: number,
+): NodeExplanation | null {
+  if (!tree.nodes.has(nodeId)) return null;
+  const base = new Map(
+    [...constraints].filter(([id]) => id !== nodeId && tree.nodes.has(id)),
+  );
+  if (isEmpty(tree, base)) return null;
+
+  const with_ = (
+    set: Map<number, Constraint>,
+    type: "always" | "never",
+  ): Map<number, Constraint> => new Map(set).set(nodeId, { nodeId, type });
+
+  let forced: NodeExplanation["forced"];
+  if (isEmpty(tree, with_(base, "never"))) forced = "on";
+  else if (isEmpty(tree, with_(base, "always"))) forced = "off";
+  else return null;
+  const opposite = forced === "on" ? "never" : "always";
+
+  const needed = minimalConflict(
+    tree,
+    base,
+    new Map([[nodeId, { nodeId, type: opposite }]]),
+  );
+
+  const reasons = countTreeBuilds(tree, with_(needed, opposite))
+    .warnings.filter((w) => w.severity === "error")
+    .map((w) => w.message);
+  return { forced, nodeIds: [...needed.keys()], reasons };
+}
@@ -0,0 +1,97 @@
+import type { ExportFile } from "./types";
+import { wrapProfilesets } from "./simc-profile";
+
+export interface ChunkManifestEntry {
+  file: string;
+  // 0-based, inclusive indices into the full export
+  firstIndex: number;
+  lastIndex: number;
+  count: number;
+  firstProfileset: string;
+  lastProfileset: string;
+}
+
+export interface ChunkManifest {
+  version: 1;
+  baseName: string;
+  chunkSize: number;
+  totalProfilesets: number;
+  files: ChunkManifestEntry[];
+}
+
+export interface ChunkedExport {
+  files: ExportFile[];
+  manifest: ChunkManifest;
+}
+
+export function manifestFileName(baseName: string): string {
+  return `${baseName}_manifest.json`;
+}
+
+/** `<base>_part001.simc`, padded so the files sort in index order. */
+export function chunkFileName(
+  baseName: string,
+  part: number,
+  partCount: number,
+  ext = "simc",
+): string {
+  const width = Math.max(3, String(partCount).length);
+  return `${baseName}_part${String(part).padStart(width, "0")}.${ext}`;
+}
+
+function profilesetNameOf(block: string): string {
+  return block.match(/^profileset\.([^=+]+)/)?.[1] ?? "";
+}
+
+/**
+ * Splits per-profileset blocks into files of at most `chunkSize` profilesets
+ * each, plus a manifest recording which indices went where. The manifest is
+ * the last file. With a `header` (see formatBaseProfile) every file is a
+ * runnable profile on its own.
+ */
+export function chunkProfilesets(
+  blocks: string[],
+  baseName: string,
+  chunkSize: number,
+  ext = "simc",
+  header?: string,
+): ChunkedExport {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`Chunk size must be a positive integer, got ${chunkSize}`);
+  }
+
+  const partCount = Math.ceil(blocks.length / chunkSize);
+  const files: ExportFile[] = [];
+  const entries: ChunkManifestEntry[] = [];
+
+  for (let part = 1; part <= partCount; part++) {
+    const firstIndex = (part - 1) * chunkSize;
+    const slice = blocks.slice(firstIndex, firstIndex + chunkSize);
+    const name = chunkFileName(baseName, part, partCount, ext);
+    const body = slice.join("\n");
+    const content = header ? wrapProfilesets(header, body) : `${body}\n`;
+    files.push({ name, content });
+    entries.push({
+      file: name,
+      firstIndex,
+      lastIndex: firstIndex + slice.length - 1,
+      count: slice.length,
+      firstProfileset: profilesetNameOf(slice[0]),
+      lastProfileset: profilesetNameOf(slice[slice.length - 1]),
+    });
+  }
+
+  const manifest: ChunkManifest = {
+    version: 1,
+    baseName,
+    chunkSize,
+    totalProfilesets: blocks.length,
+    files: entries,
+  };
+  files.push({
+    name: manifestFileName(baseName),
+    content: `${JSON.stringify(manifest, null, 2)}\n`,
+  });
+
+  return { files, manifest };
+}
@@ -1,4 +1,4 @@
-import type { TalentNode } from "../shared/types";
+import type { TalentNode } from "./types";
 import { BASE64_CHARS } from "./hash-base64";
 
 export interface HashSelection {
@@ -1,4 +1,4 @@
-import type { Specialization, TalentNode } from "../shared/types";
+import type { Specialization, TalentNode } from "./types";
 import { BASE64_CHARS } from "./hash-base64";
 
 export class BitWriter {
@@ -0,0 +1,353 @@
+import type {
+  BooleanExpr,
+  Constraint,
+  ConstraintType,
+  Loadout,
+  LoadoutNode,
+  LoadoutV1,
+  Specialization,
+  TalentNode,
+  TalentTree,
+} from "./types";
+import { isCardinalityExpr } from "./cardinality";
+
+export const LOADOUT_VERSION = 2;
+
+type Json = Record<string, unknown>;
+
+const CONSTRAINT_TYPES: ConstraintType[] = [
+  "always",
+  "never",
+  "conditional",
+  "entry-conditional",
+  "range",
+];
+const TREE_TYPES: TalentTree["type"][] = ["class", "spec", "hero"];
+
+function asObject(value: unknown): Json | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Json)
+    : null;
+}
+
+function isInt(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+function isIntList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isInt);
+}
+
+function checkOptional(
+  obj: Json,
+  key: string,
+  valid: (value: unknown) => boolean,
+  where: string,
+): void {
+  if (obj[key] !== undefined && !valid(obj[key])) {
+    throw new Error(`${where}: invalid ${key}`);
+  }
+}
+
+/** Throws unless `value` is a list; each item is checked as "`name` N". */
+function checkList(
+  value: unknown,
+  name: string,
+  check: (item: unknown, where: string) => void,
+): void {
+  if (!Array.isArray(value)) throw new Error(`${name} list is missing`);
+  value.forEach((item, i) => check(item, `${name} ${i + 1}`));
+}
+
+function checkExpr(value: unknown, where: string): void {
+  const expr = asObject(value);
+  switch (expr?.op) {
+    case "AND":
+    case "OR":
+      checkList(expr.children, `${where} condition`, checkExpr);
+      return;
+    case "TALENT_SELECTED":
+      if (!isInt(expr.nodeId)) {
+        throw new Error(`${where}: talent condition has no node id`);
+      }
+      return;
+    case "AT_LEAST":
+    case "AT_MOST":
+    case "EXACTLY":
+      if (!isIntList(expr.nodeIds) || !isInt(expr.count)) {
+        throw new Error(`${where}: invalid ${expr.op} condition`);
+      }
+      return;
+    default:
+      throw new Error(
+        `${where}: unknown condition ${JSON.stringify(expr?.op)}`,
+      );
+  }
+}
+
+function checkConstraint(value: unknown, where: string): void {
+  const c = asObject(value);
+  if (!c || !isInt(c.nodeId)) throw new Error(`${where}: missing node id`);
+  if (!CONSTRAINT_TYPES.includes(c.type as ConstraintType)) {
+    throw new Error(`${where}: unknown type ${JSON.stringify(c.type)}`);
+  }
+  for (const key of ["entryIndex", "exactRank", "minRank", "maxRank"]) {
+    checkOptional(c, key, isInt, where);
+  }
+  // Optional rank ranges used to be conditionals without a condition
+  if (c.type === "conditional" && c.condition === undefined) {
+    throw new Error(`${where}: conditional without a condition`);
+  }
+  if (
+    c.type === "range" &&
+    c.minRank === undefined &&
+    c.maxRank === undefined
+  ) {
+    throw new Error(`${where}: range without ranks`);
+  }
+  if (c.condition !== undefined) checkExpr(c.condition, where);
+  if (c.entryConditions !== undefined) {
+    checkList(c.entryConditions, `${where} entry condition`, (item, at) => {
+      const ec = asObject(item);
+      if (!ec || !isInt(ec.entryIndex)) {
+        throw new Error(`${at}: missing entry index`);
+      }
+      checkExpr(ec.condition, at);
+    });
+  }
+}
+
+function checkTreeType(value: unknown, where: string): void {
+  if (!TREE_TYPES.includes(value as TalentTree["type"])) {
+    throw new Error(`${where}: unknown tree ${JSON.stringify(value)}`);
+  }
+}
+
+function checkRule(value: unknown, where: string): void {
+  const rule = asObject(value);
+  checkTreeType(rule?.tree, where);
+  checkExpr(rule?.expr, where);
+}
+
+function checkSpend(value: unknown, where: string): void {
+  const spend = asObject(value);
+  checkTreeType(spend?.tree, where);
+  const target = asObject(spend?.target);
+  if (!target) throw new Error(`${where}: missing target`);
+  checkOptional(target, "total", isInt, where);
+  if (target.rows !== undefined) {
+    checkList(target.rows, `${where} row`, (item, at) => {
+      const row = asObject(item);
+      if (!isInt(row?.row) || !isInt(row?.points)) {
+        throw new Error(`${at}: invalid row target`);
+      }
+    });
+  }
+}
+
+function checkRound(value: unknown, where: string): void {
+  const round = asObject(value);
+  if (!round) throw new Error(`${where}: not a round`);
+  checkList(round.added, `${where} constraint`, checkConstraint);
+}
+
+function checkNode(value: unknown, where: string): void {
+  const node = asObject(value);
+  if (
+    !isInt(node?.nodeId) ||
+    typeof node.name !== "string" ||
+    !isIntList(node.entryIds)
+  ) {
+    throw new Error(`${where}: invalid talent record`);
+  }
+}
+
+/** Upgrades a version 1 loadout; it has no talent records to check. */
+export function migrateLoadout(loadout: LoadoutV1): Loadout {
+  return { ...loadout, version: LOADOUT_VERSION, nodes: [] };
+}
+
+/**
+ * Validates parsed loadout JSON and returns it in the current format,
+ * migrating older versions. Throws with what is wrong otherwise.
+ */
+export function parseLoadout(json: unknown): Loadout {
+  const root = asObject(json);
+  if (!root) throw new Error("Not a loadout file");
+  if (root.version !== 1 && root.version !== LOADOUT_VERSION) {
+    throw new Error(
+      `Unsupported loadout version ${JSON.stringify(root.version)}`,
+    );
+  }
+  if (
+    typeof root.className !== "string" ||
+    typeof root.specName !== "string"
+  ) {
+    throw new Error("Loadout has no class and spec");
+  }
+  const isString = (v: unknown): boolean => typeof v === "string";
+  checkOptional(root, "heroTreeName", isString, "Loadout");
+  checkList(root.constraints, "Constraint", checkConstraint);
+  if (root.rules !== undefined) checkList(root.rules, "Rule", checkRule);
+  if (root.spend !== undefined) {
+    checkList(root.spend, "Spend target", checkSpend);
+  }
+  if (root.rounds !== undefined) checkList(root.rounds, "Round", checkRound);
+
+  if (root.version === 1) return migrateLoadout(root as unknown as LoadoutV1);
+
+  checkList(root.nodes, "Talent", checkNode);
+  checkOptional(root, "specId", isInt, "Loadout");
+  checkOptional(root, "dataVersion", isString, "Loadout");
+  checkOptional(root, "treeHash", isIntList, "Loadout");
+  checkOptional(root, "notes", isString, "Loadout");
+  return root as unknown as Loadout;
+}
+
+function specNodes(spec: Specialization): Map<number, TalentNode> {
+  const nodes = new Map<number, TalentNode>();
+  for (const tree of [spec.classTree, spec.specTree, ...spec.heroTrees]) {
+    for (const node of tree.nodes.values()) nodes.set(node.id, node);
+  }
+  return nodes;
+}
+
+function exprRefs(expr: BooleanExpr, ids: Set<number>): void {
+  if (expr.op === "TALENT_SELECTED") {
+    ids.add(expr.nodeId);
+  } else if (isCardinalityExpr(expr)) {
+    for (const id of expr.nodeIds) ids.add(id);
+  } else {
+    for (const child of expr.children) exprRefs(child, ids);
+  }
+}
+
+function constraintRefs(constraint: Constraint): Set<number> {
+  const ids = new Set([constraint.nodeId]);
+  if (constraint.condition) exprRefs(constraint.condition, ids);
+  for (const ec of constraint.entryConditions ?? []) {
+    exprRefs(ec.condition, ids);
+  }
+  return ids;
+}
+
+/** Records of the talents `constraints` and `rules` refer to, by node id. */
+export function loadoutNodes(
+  spec: Specialization,
+  constraints: Constraint[],
+  rules: BooleanExpr[] = [],
+): LoadoutNode[] {
+  const nodes = specNodes(spec);
+  const ids = new Set<number>();
+  for (const constraint of constraints) {
+    for (const id of constraintRefs(constraint)) ids.add(id);
+  }
+  for (const expr of rules) exprRefs(expr, ids);
+  return [...ids]
+    .sort((a, b) => a - b)
+    .flatMap((id) => {
+      const node = nodes.get(id);
+      if (!node) return [];
+      const entryIds = node.entries.map((e) => e.id);
+      return [{ nodeId: id, name: node.name, entryIds }];
+    });
+}
+
+export interface LoadoutIssue {
+  nodeId?: number;
+  message: string;
+}
+
+export interface CheckedLoadout {
+  // The loadout without the constraints and rules that can't be applied
+  loadout: Loadout;
+  issues: LoadoutIssue[];
+  skippedConstraints: number;
+  skippedRules: number;
+}
+
+/**
+ * Checks a loadout against the current talent data of its spec. Talents
+ * that are gone take the constraints and rules referring to them out of
+ * the returned loadout; renamed talents and changed choices are kept but
+ * reported.
+ */
+export function checkLoadout(
+  loadout: Loadout,
+  spec: Specialization,
+  dataVersion?: string,
+): CheckedLoadout {
+  const nodes = specNodes(spec);
+  const saved = new Map(loadout.nodes.map((n) => [n.nodeId, n]));
+  const issues: LoadoutIssue[] = [];
+
+  const savedVersion = loadout.dataVersion;
+  if (savedVersion && dataVersion && savedVersion !== dataVersion) {
+    issues.push({
+      message:
+        `Saved with talent data ${savedVersion}; this is ${dataVersion}`,
+    });
+  }
+
+  const referenced = new Set<number>();
+  for (const constraint of loadout.constraints) {
+    for (const id of constraintRefs(constraint)) referenced.add(id);
+  }
+  for (const rule of loadout.rules ?? []) exprRefs(rule.expr, referenced);
+
+  const missing = new Set<number>();
+  for (const id of [...referenced].sort((a, b) => a - b)) {
+    const record = saved.get(id);
+    const node = nodes.get(id);
+    if (!node) {
+      missing.add(id);
+      const name = record ? `"${record.name}"` : `Talent ${id}`;
+      issues.push({
+        nodeId: id,
+        message: `${name} is no longer in the talent data`,
+      });
+      continue;
+    }
+    if (!record) continue;
+    if (record.name !== node.name) {
+      issues.push({
+        nodeId: id,
+        message: `"${record.name}" is now called "${node.name}"`,
+      });
+    }
+    const entryIds = node.entries.map((e) => e.id);
+    if (record.entryIds.join() !== entryIds.join()) {
+      issues.push({
+        nodeId: id,
+        message: `"${node.name}" has different choices than when saved`,
+      });
+    }
+  }
+
+  const usable = (ids: Set<number>): boolean =>
+    [...ids].every((id) => !missing.has(id));
+  const constraints = loadout.constraints.filter((c) => {
+    if (!usable(constraintRefs(c))) return false;
+    const node = nodes.get(c.nodeId)!;
+    if (c.entryIndex == null || c.entryIndex < node.entries.length) {
+      return true;
+    }
+    issues.push({
+      nodeId: c.nodeId,
+      message: `"${node.name}" no longer has the choice it was set to`,
+    });
+    return false;
+  });
+  const rules = loadout.rules?.filter((rule) => {
+    const ids = new Set<number>();
+    exprRefs(rule.expr, ids);
+    return usable(ids);
+  });
+
+  return {
+    loadout: { ...loadout, constraints, rules },
+    issues,
+    skippedConstraints: loadout.constraints.length - constraints.length,
+    skippedRules: (loadout.rules?.length ?? 0) - (rules?.length ?? 0),
+  };
+}
@@ -0,0 +1,200 @@
+import type {
+  Constraint,
+  Loadout,
+  Specialization,
+  TalentNode,
+  TalentTree,
+} from "./types";
+import { decodeTalentHash } from "./hash-decoder";
+import { buildAllNodesForSpec } from "./hash-encoder";
+
+export function isRealChoice(node: TalentNode): boolean {
+  return node.type === "choice" && !node.isApex;
+}
+
+/**
+ * Hero trees only offer a real decision on choice nodes; every other node is
+ * taken in every build. Returns the implicit "always" constraints the app
+ * adds for them when a hero tree is selected.
+ */
+export function heroAutoConstraints(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): Constraint[] {
+  const result: Constraint[] = [];
+  for (const node of tree.nodes.values()) {
+    if (constraints.has(node.id)) continue;
+    if (!isRealChoice(node)) result.push({ nodeId: node.id, type: "always" });
+  }
+  return result;
+}
+
+export function findSpec(
+  specs: Specialization[],
+  className: string,
+  specName: string,
+): Specialization | undefined {
+  return specs.find(
+    (s) => s.className === className && s.specName === specName,
+  );
+}
+
+/** The spec a loadout is for: by id when it has one, else by name. */
+export function findLoadoutSpec(
+  specs: Specialization[],
+  loadout: Loadout,
+): Specialization | undefined {
+  const byId =
+    loadout.specId != null
+      ? specs.find((s) => s.specId === loadout.specId)
+      : undefined;
+  return byId ?? findSpec(specs, loadout.className, loadout.specName);
+}
+
+export interface ResolvedLoadout {
+  spec: Specialization;
+  heroTree: TalentTree | null;
+  constraints: Map<number, Constraint>;
+  // Copies of the class, spec and hero trees carrying the loadout's rules
+  // and spend targets; the spec's own trees are left as they were
+  trees: TalentTree[];
+}
+
+/**
+ * Resolves a saved loadout against parsed talent data the same way the app
+ * does on load: pick the spec and hero tree, apply the saved constraints and
+ * rules and fill in the implicit hero tree selections. The spec's trees are
+ * not modified.
+ */
+export function resolveLoadout(
+  specs: Specialization[],
+  loadout: Loadout,
+): ResolvedLoadout | null {
+  const spec = findLoadoutSpec(specs, loadout);
+  if (!spec) return null;
+
+  const heroTree =
+    (loadout.heroTreeName &&
+      spec.heroTrees.find((ht) => ht.subTreeName === loadout.heroTreeName)) ||
+    (spec.heroTrees[0] ?? null);
+
+  const constraints = new Map<number, Constraint>();
+  for (const c of loadout.constraints) constraints.set(c.nodeId, c);
+  if (heroTree) {
+    for (const c of heroAutoConstraints(heroTree, constraints)) {
+      constraints.set(c.nodeId, c);
+    }
+  }
+
+  const withLoadout = (tree: TalentTree): TalentTree => ({
+    ...tree,
+    rules: (loadout.rules ?? [])
+      .filter((rule) => rule.tree === tree.type)
+      .map((rule) => rule.expr),
+    spend: loadout.spend?.find((s) => s.tree === tree.type)?.target,
+  });
+  const trees = [withLoadout(spec.classTree), withLoadout(spec.specTree)];
+  const resolvedHero = heroTree ? withLoadout(heroTree) : null;
+  if (resolvedHero) trees.push(resolvedHero);
+
+  return { spec, heroTree: resolvedHero, constraints, trees };
+}
+
+export function treesForLoadout(resolved: ResolvedLoadout): TalentTree[] {
+  return resolved.trees;
+}
+
+export function constraintsForTree(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): Map<number, Constraint> {
+  const result = new Map<number, Constraint>();
+  for (const [nodeId, constraint] of constraints) {
+    if (tree.nodes.has(nodeId)) result.set(nodeId, constraint);
+  }
+  return result;
+}
+
+export interface HashImport {
+  spec: Specialization;
+  heroTree: TalentTree | null;
+  treeHashBytes: number[];
+  constraints: Constraint[];
+}
+
+/**
+ * Decodes a WoW talent import string into "always" constraints for every
+ * selected talent of the spec it belongs to.
+ *
+ * Returns null if the string is invalid, the spec is unknown, or nothing is
+ * selected.
+ */
+export function importHash(
+  specs: Specialization[],
+  hashStr: string,
+): HashImport | null {
+  // First-pass decode with empty node list to validate format + extract specId
+  const probe = decodeTalentHash(hashStr, []);
+  if (!probe) return null;
+
+  const spec = specs.find((s) => s.specId === probe.specId);
+  if (!spec) return null;
+
+  const sameClassSpecs = specs.filter((s) => s.className === spec.className);
+  const { allNodes, allNodeMap } = buildAllNodesForSpec(sameClassSpecs);
+
+  const decoded = decodeTalentHash(hashStr, allNodes);
+  if (!decoded?.selections.length) return null;
+  const { selections } = decoded;
+
+  const subTreeAndSystemIds = new Set([
+    ...sameClassSpecs.flatMap((s) => s.subTreeNodes.map((n) => n.id)),
+    ...sameClassSpecs.flatMap((s) => s.systemNodeIds),
+  ]);
+  const currentSpecTalentIds = new Set([
+    ...spec.classTree.nodes.keys(),
+    ...spec.specTree.nodes.keys(),
+    ...spec.heroTrees.flatMap((ht) => [...ht.nodes.keys()]),
+  ]);
+
+  // Detect hero tree from the subTreeNode's entryIndex.
+  const allSubTreeNodes = sameClassSpecs.flatMap((s) => s.subTreeNodes);
+  let heroTree: TalentTree | null = null;
+  for (const sel of selections) {
+    const stn = allSubTreeNodes.find((s) => s.id === sel.nodeId);
+    if (stn && sel.entryIndex !== undefined) {
+      const traitSubTreeId = stn.entries[sel.entryIndex]?.traitSubTreeId;
+      if (traitSubTreeId != null) {
+        heroTree =
+          spec.heroTrees.find((ht) => ht.subTreeId === traitSubTreeId) ?? null;
+        break;
+      }
+    }
+  }
+
+  // Skip subTree/system IDs, other specs' nodes, and free nodes (always granted, zero cost).
+  const constraints: Constraint[] = [];
+  for (const sel of selections) {
+    if (subTreeAndSystemIds.has(sel.nodeId)) continue;
+    if (!currentSpecTalentIds.has(sel.nodeId)) continue;
+
+    const node = allNodeMap.get(sel.nodeId);
+    // Granted selections on choice nodes don't encode entryIndex in the hash;
+    // default to entry 0 so the constraint pins the choice.
+    const entryIndex =
+      sel.entryIndex ?? (sel.free && node?.type === "choice" ? 0 : undefined);
+    constraints.push({
+      nodeId: sel.nodeId,
+      type: "always",
+      entryIndex,
+      exactRank: sel.ranks,
+    });
+  }
+
+  return {
+    spec,
+    heroTree,
+    treeHashBytes: decoded.treeHashBytes,
+    constraints,
+  };
+}
@@ -0,0 +1,157 @@
+import type { Build, TalentTree } from "./types";
+import type { BuildResult } from "./sim-results";
+
+export interface DpsSample {
+  build: Build;
+  dps: number;
+}
+
+export interface NodeValue {
+  nodeId: number;
+  // Builds taking / skipping the node
+  withCount: number;
+  withoutCount: number;
+  meanWith: number | null;
+  meanWithout: number | null;
+  // meanWith − meanWithout; null unless some builds take it and some don't
+  delta: number | null;
+  // Share of the top-K builds that take the node
+  topShare: number;
+  // 1-based position of the best build taking the node, if any
+  bestRank: number | null;
+}
+
+export interface NodeSynergy {
+  nodeA: number;
+  nodeB: number;
+  // Interaction term: how much more the pair is worth together than the
+  // sum of each on its own
+  score: number;
+}
+
+export interface MarginalAnalysis {
+  sampleCount: number;
+  topK: number;
+  meanDps: number;
+  nodes: NodeValue[];
+  synergies: NodeSynergy[];
+}
+
+export interface MarginalOptions {
+  topK?: number;
+  // Only report this many synergies, strongest first
+  maxSynergies?: number;
+}
+
+const DEFAULT_TOP_K = 10;
+const DEFAULT_MAX_SYNERGIES = 20;
+
+/** The `tree` part of each result that includes the tree, with its DPS. */
+export function samplesForTree(
+  results: BuildResult[],
+  tree: TalentTree,
+): DpsSample[] {
+  const samples: DpsSample[] = [];
+  for (const result of results) {
+    const i = result.trees.indexOf(tree);
+    if (i >= 0) samples.push({ build: result.builds[i], dps: result.dps });
+  }
+  return samples;
+}
+
+function mean(sum: number, count: number): number | null {
+  return count > 0 ? sum / count : null;
+}
+
+/**
+ * Per-node DPS statistics over simmed builds of one tree: mean DPS with and
+ * without each node, how the node fares among the top-K builds, and
+ * pairwise synergy between nodes that vary across the builds.
+ */
+export function analyzeMarginals(
+  tree: TalentTree,
+  samples: DpsSample[],
+  options: MarginalOptions = {},
+): MarginalAnalysis {
+  const topK = Math.min(options.topK ?? DEFAULT_TOP_K, samples.length);
+  const maxSynergies = options.maxSynergies ?? DEFAULT_MAX_SYNERGIES;
+  const nodes = [...tree.nodes.values()];
+  const sorted = [...samples].sort((a, b) => b.dps - a.dps);
+
+  // taken[s][n]: does sample s put points into nodes[n]?
+  const taken = sorted.map(({ build }) =>
+    nodes.map((node) =>
+      node.entries.some((e) => (build.entries.get(e.id) ?? 0) > 0),
+    ),
+  );
+
+  let total = 0;
+  for (const s of sorted) total += s.dps;
+
+  const values: NodeValue[] = nodes.map((node, n) => {
+    let withSum = 0;
+    let withCount = 0;
+    let topCount = 0;
+    let bestRank: number | null = null;
+    sorted.forEach((sample, s) => {
+      if (!taken[s][n]) return;
+      withSum += sample.dps;
+      withCount++;
+      if (s < topK) topCount++;
+      bestRank ??= s + 1;
+    });
+    const withoutCount = sorted.length - withCount;
+    const meanWith = mean(withSum, withCount);
+    const meanWithout = mean(total - withSum, withoutCount);
+    return {
+      nodeId: node.id,
+      withCount,
+      withoutCount,
+      meanWith,
+      meanWithout,
+      delta:
+        meanWith != null && meanWithout != null
+          ? meanWith - meanWithout
+          : null,
+      topShare: topK > 0 ? topCount / topK : 0,
+      bestRank,
+    };
+  });
+
+  // Synergy only means something for nodes that are sometimes taken
+  const varying = values
+    .map((v, n) => (v.delta != null ? n : -1))
+    .filter((n) => n >= 0);
+  const synergies: NodeSynergy[] = [];
+  for (let i = 0; maxSynergies > 0 && i < varying.length; i++) {
+    for (let j = i + 1; j < varying.length; j++) {
+      const a = varying[i];
+      const b = varying[j];
+      const sums = [0, 0, 0, 0];
+      const counts = [0, 0, 0, 0];
+      sorted.forEach((sample, s) => {
+        const cell = (taken[s][a] ? 2 : 0) + (taken[s][b] ? 1 : 0);
+        sums[cell] += sample.dps;
+        counts[cell]++;
+      });
+      if (counts.some((c) => c === 0)) continue;
+      const [neither, onlyB, onlyA, both] = sums.map(
+        (sum, c) => sum / counts[c],
+      );
+      synergies.push({
+        nodeA: nodes[a].id,
+        nodeB: nodes[b].id,
+        score: both - onlyA - onlyB + neither,
+      });
+    }
+  }
+  synergies.sort((x, y) => Math.abs(y.score) - Math.abs(x.score));
+
+  return {
+    sampleCount: sorted.length,
+    topK,
+    meanDps: mean(total, sorted.length) ?? 0,
+    nodes: values,
+    synergies: synergies.slice(0, maxSynergies),
+  };
+}
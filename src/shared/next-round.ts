@@ -0,0 +1,101 @@
+import type { Constraint, LoadoutRound, TalentNode, TalentTree } from "./types";
+import type { BuildResult } from "./sim-results";
+import { isRealChoice } from "./loadout";
+
+/** Points per entry of `tree`'s nodes in a build, keyed by node id. */
+function nodePicks(
+  tree: TalentTree,
+  result: BuildResult,
+): Map<number, { entryIndex: number; points: number }> {
+  const picks = new Map<number, { entryIndex: number; points: number }>();
+  const build = result.builds[result.trees.indexOf(tree)];
+  for (const node of tree.nodes.values()) {
+    node.entries.forEach((entry, entryIndex) => {
+      const points = build.entries.get(entry.id) ?? 0;
+      if (points > 0) picks.set(node.id, { entryIndex, points });
+    });
+  }
+  return picks;
+}
+
+type NodePicks = ReturnType<typeof nodePicks>;
+
+/** What every build in `picks` agrees on for `node`, as a constraint. */
+function agreement(node: TalentNode, picks: NodePicks[]): Constraint | null {
+  if (picks.every((p) => !p.has(node.id))) {
+    return { nodeId: node.id, type: "never" };
+  }
+  if (!picks.every((p) => p.has(node.id))) return null;
+
+  const first = picks[0].get(node.id)!;
+  const same = (key: "entryIndex" | "points"): boolean =>
+    picks.every((p) => p.get(node.id)![key] === first[key]);
+  const constraint: Constraint = { nodeId: node.id, type: "always" };
+  if (isRealChoice(node) && same("entryIndex")) {
+    constraint.entryIndex = first.entryIndex;
+  }
+  if (node.maxRanks > 1 && same("points")) {
+    constraint.exactRank = first.points;
+  }
+  return constraint;
+}
+
+function sameConstraint(a: Constraint | null, b: Constraint | null): boolean {
+  return (
+    a?.type === b?.type &&
+    a?.entryIndex === b?.entryIndex &&
+    a?.exactRank === b?.exactRank
+  );
+}
+
+/**
+ * Constraints locking in what the top `topN` builds agree on: `always` for
+ * nodes every one of them takes (pinned to the shared choice and rank when
+ * they agree on those too), `never` for nodes none of them takes. Nodes
+ * that are already constrained or granted, and agreements every simmed
+ * build shares anyway, are left out.
+ */
+export function proposeConstraints(
+  results: BuildResult[],
+  trees: TalentTree[],
+  existing: Map<number, Constraint>,
+  topN: number,
+): Constraint[] {
+  const proposals: Constraint[] = [];
+  for (const tree of trees) {
+    const simmed = results
+      .filter((r) => r.trees.includes(tree))
+      .sort((a, b) => b.dps - a.dps);
+    const top = simmed.slice(0, topN);
+    if (top.length === 0 || top.length === simmed.length) continue;
+
+    const allPicks = simmed.map((r) => nodePicks(tree, r));
+    const topPicks = allPicks.slice(0, top.length);
+
+    for (const node of tree.nodes.values()) {
+      if (existing.has(node.id) || node.freeNode || node.entryNode) continue;
+      const proposal = agreement(node, topPicks);
+      if (proposal && !sameConstraint(proposal, agreement(node, allPicks))) {
+        proposals.push(proposal);
+      }
+    }
+  }
+  return proposals;
+}
+
+/** History entry for a round of sims that produced `added`. */
+export function makeRound(
+  previous: LoadoutRound[],
+  results: BuildResult[],
+  topN: number,
+  added: Constraint[],
+): LoadoutRound {
+  return {
+    round: previous.length + 1,
+    date: new Date().toISOString(),
+    simmedBuilds: results.length,
+    topN,
+    bestDps: results.reduce((best, r) => Math.max(best, r.dps), 0),
+    added,
+  };
+}
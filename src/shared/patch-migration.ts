@@ -0,0 +1,395 @@
+import type {
+  BooleanExpr,
+  Constraint,
+  Loadout,
+  LoadoutRule,
+  RawSpecData,
+  RawTalentEntry,
+  RawTalentNode,
+} from "./types";
+import { isCardinalityExpr } from "./cardinality";
+
+/** What tied an old node to its new one, strongest first. */
+export type NodeMatchKind = "spell" | "name" | "position";
+
+export interface NodeMatch {
+  newId: number;
+  by: NodeMatchKind;
+  // Old entry id → new entry id, and old entry index → new entry index
+  entryIds: Map<number, number>;
+  entryIndexes: Map<number, number>;
+}
+
+export interface NodeMapping {
+  // By old node id
+  matches: Map<number, NodeMatch>;
+  ambiguous: Map<number, number[]>;
+  oldNodes: Map<number, RawTalentNode>;
+  newNodes: Map<number, RawTalentNode>;
+}
+
+export interface NodeRemap {
+  oldId: number;
+  newId: number;
+  name: string;
+  by: NodeMatchKind;
+}
+
+export interface PatchReport {
+  // Referenced talents whose node id or choice order changed
+  remapped: NodeRemap[];
+  // Constraints and rules that could not be carried over
+  dropped: { nodeId?: number; message: string }[];
+  // Referenced talents with more than one equally good match
+  ambiguous: { nodeId: number; name: string; candidates: number[] }[];
+}
+
+function treeGroups(data: RawSpecData): RawTalentNode[][] {
+  return [data.classNodes, data.specNodes, data.heroNodes];
+}
+
+function spellIds(node: RawTalentNode): Set<number> {
+  const ids = new Set<number>();
+  for (const entry of node.entries) {
+    if (entry.spellId != null) ids.add(entry.spellId);
+  }
+  return ids;
+}
+
+function sharesSpell(a: RawTalentNode, b: RawTalentNode): boolean {
+  const ids = spellIds(a);
+  return [...spellIds(b)].some((id) => ids.has(id));
+}
+
+function samePosition(a: RawTalentNode, b: RawTalentNode): boolean {
+  return (
+    a.posX === b.posX && a.posY === b.posY && a.subTreeId === b.subTreeId
+  );
+}
+
+function matchEntry(
+  entry: RawTalentEntry,
+  index: number,
+  oldNode: RawTalentNode,
+  newNode: RawTalentNode,
+): number {
+  const { entries } = newNode;
+  const bySpell =
+    entry.spellId != null
+      ? entries.findIndex((e) => e.spellId === entry.spellId)
+      : -1;
+  if (bySpell >= 0) return bySpell;
+  const byName = entries.findIndex((e) => e.name === entry.name);
+  if (byName >= 0) return byName;
+  return entries.length === oldNode.entries.length ? index : -1;
+}
+
+function nodeMatch(
+  oldNode: RawTalentNode,
+  newNode: RawTalentNode,
+  by: NodeMatchKind,
+): NodeMatch {
+  const entryIds = new Map<number, number>();
+  const entryIndexes = new Map<number, number>();
+  oldNode.entries.forEach((entry, index) => {
+    const newIndex = matchEntry(entry, index, oldNode, newNode);
+    if (newIndex < 0) return;
+    entryIds.set(entry.id, newNode.entries[newIndex].id);
+    entryIndexes.set(index, newIndex);
+  });
+  return { newId: newNode.id, by, entryIds, entryIndexes };
+}
+
+// Among several candidates, prefer the same name, then the same spot
+function narrow(
+  candidates: RawTalentNode[],
+  oldNode: RawTalentNode,
+): RawTalentNode[] {
+  let pool = candidates;
+  const tests = [
+    (n: RawTalentNode) => n.name === oldNode.name,
+    (n: RawTalentNode) => samePosition(n, oldNode),
+  ];
+  for (const test of tests) {
+    if (pool.length <= 1) break;
+    const kept = pool.filter(test);
+    if (kept.length > 0) pool = kept;
+  }
+  return pool;
+}
+
+/**
+ * Matches the nodes of one spec's old talent data to its new data, tree by
+ * tree: by shared entry spell id first, then by name, then by position.
+ * Each pass only considers new nodes no earlier match has claimed.
+ */
+export function matchNodes(
+  oldData: RawSpecData,
+  newData: RawSpecData,
+): NodeMapping {
+  const mapping: NodeMapping = {
+    matches: new Map(),
+    ambiguous: new Map(),
+    oldNodes: new Map(treeGroups(oldData).flat().map((n) => [n.id, n])),
+    newNodes: new Map(treeGroups(newData).flat().map((n) => [n.id, n])),
+  };
+  const passes: [NodeMatchKind, typeof samePosition][] = [
+    ["spell", sharesSpell],
+    ["name", (a, b) => a.name === b.name],
+    ["position", samePosition],
+  ];
+
+  const newGroups = treeGroups(newData);
+  treeGroups(oldData).forEach((oldNodes, group) => {
+    const newNodes = newGroups[group];
+    const claimed = new Set<number>();
+    let pending = oldNodes;
+    for (const [by, test] of passes) {
+      const unmatched: RawTalentNode[] = [];
+      for (const oldNode of pending) {
+        const candidates = newNodes.filter(
+          (n) => !claimed.has(n.id) && test(oldNode, n),
+        );
+        if (candidates.length === 0) {
+          unmatched.push(oldNode);
+          continue;
+        }
+        const pool = narrow(candidates, oldNode);
+        if (pool.length > 1) {
+          mapping.ambiguous.set(oldNode.id, pool.map((n) => n.id));
+          continue;
+        }
+        claimed.add(pool[0].id);
+        mapping.matches.set(oldNode.id, nodeMatch(oldNode, pool[0], by));
+      }
+      pending = unmatched;
+    }
+  });
+  return mapping;
+}
+
+/** `expr` in new node and entry ids, or the first old node it can't map. */
+function remapExpr(
+  expr: BooleanExpr,
+  mapping: NodeMapping,
+): { expr: BooleanExpr } | { unmapped: number } {
+  if (expr.op === "TALENT_SELECTED") {
+    const match = mapping.matches.get(expr.nodeId);
+    if (!match) return { unmapped: expr.nodeId };
+    const remapped = { ...expr, nodeId: match.newId };
+    if (expr.entryId != null) {
+      const entryId = match.entryIds.get(expr.entryId);
+      if (entryId == null) return { unmapped: expr.nodeId };
+      remapped.entryId = entryId;
+    }
+    return { expr: remapped };
+  }
+  if (isCardinalityExpr(expr)) {
+    const nodeIds: number[] = [];
+    for (const id of expr.nodeIds) {
+      const match = mapping.matches.get(id);
+      if (!match) return { unmapped: id };
+      nodeIds.push(match.newId);
+    }
+    return { expr: { ...expr, nodeIds } };
+  }
+  const children: BooleanExpr[] = [];
+  for (const child of expr.children) {
+    const result = remapExpr(child, mapping);
+    if ("unmapped" in result) return result;
+    children.push(result.expr);
+  }
+  return { expr: { ...expr, children } };
+}
+
+function remapConstraint(
+  constraint: Constraint,
+  mapping: NodeMapping,
+): { constraint: Constraint } | { unmapped: number; entry?: boolean } {
+  const match = mapping.matches.get(constraint.nodeId);
+  if (!match) return { unmapped: constraint.nodeId };
+  const remapped: Constraint = { ...constraint, nodeId: match.newId };
+  if (constraint.entryIndex != null) {
+    const entryIndex = match.entryIndexes.get(constraint.entryIndex);
+    if (entryIndex == null) {
+      return { unmapped: constraint.nodeId, entry: true };
+    }
+    remapped.entryIndex = entryIndex;
+  }
+  if (constraint.condition) {
+    const result = remapExpr(constraint.condition, mapping);
+    if ("unmapped" in result) return result;
+    remapped.condition = result.expr;
+  }
+  if (constraint.entryConditions) {
+    const entryConditions = [];
+    for (const ec of constraint.entryConditions) {
+      const entryIndex = match.entryIndexes.get(ec.entryIndex);
+      if (entryIndex == null) {
+        return { unmapped: constraint.nodeId, entry: true };
+      }
+      const result = remapExpr(ec.condition, mapping);
+      if ("unmapped" in result) return result;
+      entryConditions.push({ entryIndex, condition: result.expr });
+    }
+    remapped.entryConditions = entryConditions;
+  }
+  return { constraint: remapped };
+}
+
+function nodeName(mapping: NodeMapping, nodeId: number): string {
+  const name = mapping.oldNodes.get(nodeId)?.name;
+  return name ? `"${name}"` : `Talent ${nodeId}`;
+}
+
+function unmappedReason(
+  mapping: NodeMapping,
+  nodeId: number,
+  entry?: boolean,
+): string {
+  const name = nodeName(mapping, nodeId);
+  if (entry) return `the chosen option of ${name} is gone`;
+  if (mapping.ambiguous.has(nodeId)) return `${name} matches several talents`;
+  if (!mapping.oldNodes.has(nodeId)) return `${name} is not in the old data`;
+  return `${name} is gone`;
+}
+
+function collectRefs(expr: BooleanExpr, ids: Set<number>): void {
+  if (expr.op === "TALENT_SELECTED") ids.add(expr.nodeId);
+  else if (isCardinalityExpr(expr)) expr.nodeIds.forEach((id) => ids.add(id));
+  else expr.children.forEach((child) => collectRefs(child, ids));
+}
+
+function report(
+  mapping: NodeMapping,
+  referenced: Set<number>,
+  dropped: PatchReport["dropped"],
+): PatchReport {
+  const result: PatchReport = { remapped: [], dropped, ambiguous: [] };
+  for (const id of [...referenced].sort((a, b) => a - b)) {
+    const name = mapping.oldNodes.get(id)?.name ?? `Talent ${id}`;
+    const candidates = mapping.ambiguous.get(id);
+    if (candidates) result.ambiguous.push({ nodeId: id, name, candidates });
+    const match = mapping.matches.get(id);
+    if (!match) continue;
+    const reordered = [...match.entryIndexes].some(
+      ([from, to]) => from !== to,
+    );
+    if (match.newId !== id || reordered) {
+      const { newId, by } = match;
+      result.remapped.push({ oldId: id, newId, name, by });
+    }
+  }
+  return result;
+}
+
+function remapAll(
+  mapping: NodeMapping,
+  constraints: Constraint[],
+  rules: LoadoutRule[],
+): { constraints: Constraint[]; rules: LoadoutRule[]; report: PatchReport } {
+  const referenced = new Set<number>();
+  const dropped: PatchReport["dropped"] = [];
+
+  const remappedConstraints: Constraint[] = [];
+  for (const constraint of constraints) {
+    referenced.add(constraint.nodeId);
+    if (constraint.condition) collectRefs(constraint.condition, referenced);
+    for (const ec of constraint.entryConditions ?? []) {
+      collectRefs(ec.condition, referenced);
+    }
+    const result = remapConstraint(constraint, mapping);
+    if ("constraint" in result) {
+      remappedConstraints.push(result.constraint);
+      continue;
+    }
+    const name = nodeName(mapping, constraint.nodeId);
+    const reason = unmappedReason(mapping, result.unmapped, result.entry);
+    dropped.push({
+      nodeId: constraint.nodeId,
+      message: `Dropped the constraint on ${name}: ${reason}`,
+    });
+  }
+
+  const remappedRules: LoadoutRule[] = [];
+  rules.forEach((rule, i) => {
+    collectRefs(rule.expr, referenced);
+    const result = remapExpr(rule.expr, mapping);
+    if ("expr" in result) {
+      remappedRules.push({ ...rule, expr: result.expr });
+      return;
+    }
+    const reason = unmappedReason(mapping, result.unmapped);
+    dropped.push({ message: `Dropped ${rule.tree} rule ${i + 1}: ${reason}` });
+  });
+
+  return {
+    constraints: remappedConstraints,
+    rules: remappedRules,
+    report: report(mapping, referenced, dropped),
+  };
+}
+
+/**
+ * Rewrites constraints made against old talent data for the new data.
+ * Constraints on, or conditioned on, talents without a single match are
+ * dropped and reported.
+ */
+export function remapConstraints(
+  constraints: Constraint[],
+  mapping: NodeMapping,
+): { constraints: Constraint[]; report: PatchReport } {
+  const result = remapAll(mapping, constraints, []);
+  return { constraints: result.constraints, report: result.report };
+}
+
+/**
+ * Carries a loadout saved against `oldData` over to `newData`, stamped with
+ * `dataVersion`: constraints, rules and round history are rewritten, and
+ * the talent records are taken from the new data. The tree hash of the old
+ * data is dropped.
+ */
+export function remapLoadout(
+  loadout: Loadout,
+  oldData: RawSpecData,
+  newData: RawSpecData,
+  dataVersion?: string,
+): { loadout: Loadout; report: PatchReport } {
+  const mapping = matchNodes(oldData, newData);
+  const { constraints, rules, report: result } = remapAll(
+    mapping,
+    loadout.constraints,
+    loadout.rules ?? [],
+  );
+
+  const rounds = loadout.rounds?.map((round) => {
+    const remapped = remapConstraints(round.added, mapping);
+    for (const { nodeId, message } of remapped.report.dropped) {
+      const roundMessage = `Round ${round.round}: ${message}`;
+      result.dropped.push({ nodeId, message: roundMessage });
+    }
+    return { ...round, added: remapped.constraints };
+  });
+
+  const nodes = loadout.nodes.flatMap((record) => {
+    const match = mapping.matches.get(record.nodeId);
+    const node = match && mapping.newNodes.get(match.newId);
+    if (!node) return [];
+    const entryIds = node.entries.map((e) => e.id);
+    return [{ nodeId: node.id, name: node.name, entryIds }];
+  });
+
+  return {
+    loadout: {
+      ...loadout,
+      dataVersion,
+      specId: newData.specId ?? loadout.specId,
+      nodes,
+      constraints,
+      rules: loadout.rules ? rules : undefined,
+      rounds,
+      treeHash: undefined,
+    },
+    report: result,
+  };
+}
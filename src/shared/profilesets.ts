@@ -0,0 +1,264 @@
+import type { Build, Specialization, TalentTree } from "./types";
+import {
+  encodeTalentHash,
+  buildEntryLookup,
+  buildAllNodesForSpec,
+} from "./hash-encoder";
+import type { EncodeInput, NodeSelection } from "./hash-encoder";
+
+const TREE_TYPE_NAMES: Record<string, string> = {
+  class: "class_talents",
+  spec: "spec_talents",
+  hero: "hero_talents",
+};
+
+export interface HashExportContext {
+  spec: Specialization;
+  // All specs of the spec's class — the hash encodes every node they share.
+  sameClassSpecs: Specialization[];
+  treeHashBytes: number[];
+  heroTree: TalentTree | null;
+  label?: string;
+}
+
+export function encodeBuild(build: Build): string {
+  return Array.from(build.entries.entries())
+    .filter(([, points]) => points > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([id, points]) => `${id}:${points}`)
+    .join("/");
+}
+
+/**
+ * Profileset name for the `index`-th build. A label (e.g. the hero tree) is
+ * inserted between the prefix and the index: `build_<label>_0000`.
+ */
+export function profilesetName(index: number, label?: string): string {
+  const padded = String(index).padStart(4, "0");
+  return label ? `build_${label}_${padded}` : `build_${padded}`;
+}
+
+/** Profileset-safe hero tree label: "Aldrachi Reaver" → "aldrachi_reaver". */
+export function heroTreeLabel(tree: TalentTree): string {
+  const name = tree.subTreeName || `hero_${tree.subTreeId ?? 0}`;
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Expands per-tree build lists into their cartesian product in odometer
+ * order (last tree varies fastest), one build per tree in each combination.
+ */
+function combinations(allBuilds: Build[][]): Build[][] {
+  if (allBuilds.length === 0 || allBuilds.some((b) => b.length === 0)) {
+    return [];
+  }
+
+  const combos: Build[][] = [];
+  const indices = new Array(allBuilds.length).fill(0);
+
+  while (true) {
+    combos.push(allBuilds.map((builds, i) => builds[indices[i]]));
+
+    let carry = true;
+    for (let i = allBuilds.length - 1; i >= 0 && carry; i--) {
+      indices[i]++;
+      if (indices[i] < allBuilds[i].length) {
+        carry = false;
+      } else {
+        indices[i] = 0;
+      }
+    }
+    if (carry) return combos;
+  }
+}
+
+/**
+ * Formats per-tree builds as SimC entry-based profilesets, one profileset
+ * per combination of class × spec × hero builds.
+ */
+export function formatProfilesets(
+  allBuilds: Build[][],
+  trees: TalentTree[],
+  label?: string,
+): string {
+  return formatProfilesetCombos(combinations(allBuilds), trees, label);
+}
+
+/**
+ * Formats explicit build combinations (one build per tree, e.g. from
+ * sampling) as SimC entry-based profilesets.
+ */
+export function formatProfilesetCombos(
+  combos: Build[][],
+  trees: TalentTree[],
+  label?: string,
+): string {
+  return profilesetBlocks(combos, trees, label).join("\n");
+}
+
+/** One multi-line `profileset.<name>=…` block per combination. */
+export function profilesetBlocks(
+  combos: Build[][],
+  trees: TalentTree[],
+  label?: string,
+): string[] {
+  const treeTypes = trees.map((t) => TREE_TYPE_NAMES[t.type]);
+
+  return combos.map((combo, index) => {
+    const name = profilesetName(index, label);
+    return combo
+      .map((build, i) => {
+        const op = i === 0 ? "=" : "+=";
+        return `profileset.${name}${op}${treeTypes[i]}=${encodeBuild(build)}`;
+      })
+      .join("\n");
+  });
+}
+
+/**
+ * Finds the subTreeNode entry that selects `heroTree`, so exported hashes
+ * carry the correct hero tree choice.
+ */
+export function findSubTreeSelection(
+  sameClassSpecs: Specialization[],
+  heroTree: TalentTree | null,
+): { nodeId: number; entryIndex: number } | null {
+  if (heroTree?.subTreeId == null) return null;
+  for (const s of sameClassSpecs) {
+    for (const stn of s.subTreeNodes) {
+      const idx = stn.entries.findIndex(
+        (e) => e.traitSubTreeId === heroTree.subTreeId,
+      );
+      if (idx >= 0) return { nodeId: stn.id, entryIndex: idx };
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats per-tree builds as `talents=` profilesets carrying full WoW
+ * talent import strings.
+ */
+export function formatHashProfilesets(
+  allBuilds: Build[][],
+  trees: TalentTree[],
+  ctx: HashExportContext,
+): string {
+  return formatHashProfilesetCombos(combinations(allBuilds), trees, ctx);
+}
+
+/** Hash-format counterpart of {@link formatProfilesetCombos}. */
+export function formatHashProfilesetCombos(
+  combos: Build[][],
+  trees: TalentTree[],
+  ctx: HashExportContext,
+): string {
+  return hashProfilesetBlocks(combos, trees, ctx).join("\n");
+}
+
+/** Hash-format counterpart of {@link profilesetBlocks}. */
+export function hashProfilesetBlocks(
+  combos: Build[][],
+  trees: TalentTree[],
+  ctx: HashExportContext,
+): string[] {
+  const encode = hashEncoder(trees, ctx);
+  if (!encode) return [];
+  return combos.map((combo, index) => {
+    const name = profilesetName(index, ctx.label);
+    return `profileset.${name}=talents=${encode(combo)}`;
+  });
+}
+
+/**
+ * Talent lines for the base actor of a runnable profile: a `talents=`
+ * import string when a hash context is given, otherwise one entry list per
+ * tree that has picks.
+ */
+export function baseTalentLines(
+  builds: Build[],
+  trees: TalentTree[],
+  ctx?: HashExportContext,
+): string[] {
+  const encode = ctx ? hashEncoder(trees, ctx) : null;
+  if (encode) return [`talents=${encode(builds)}`];
+
+  const lines: string[] = [];
+  builds.forEach((build, i) => {
+    const encoded = encodeBuild(build);
+    if (encoded) lines.push(`${TREE_TYPE_NAMES[trees[i].type]}=${encoded}`);
+  });
+  return lines;
+}
+
+/** Encodes one build per tree as a full WoW talent import string. */
+function hashEncoder(
+  trees: TalentTree[],
+  ctx: HashExportContext,
+): ((combo: Build[]) => string) | null {
+  const specId = ctx.spec.specId;
+  if (specId == null) return null;
+
+  const entryLookups = trees.map((tree) =>
+    buildEntryLookup(tree.nodes.values()),
+  );
+  const { allNodes, allNodeMap } = buildAllNodesForSpec(ctx.sameClassSpecs);
+  const subTree = findSubTreeSelection(ctx.sameClassSpecs, ctx.heroTree);
+
+  // Free/granted nodes from the active spec's trees only — selected but
+  // not purchased. Other specs' free nodes remain unselected (0 bit).
+  const freeNodeIds = new Set<number>();
+  for (const tree of trees) {
+    for (const node of tree.nodes.values()) {
+      if (node.freeNode || node.entryNode) freeNodeIds.add(node.id);
+    }
+  }
+
+  return (combo) => {
+    const selections = new Map<number, NodeSelection>();
+
+    // Free/granted nodes — selected but not purchased
+    for (const nodeId of freeNodeIds) {
+      const node = allNodeMap.get(nodeId);
+      if (node) {
+        selections.set(nodeId, {
+          ranks: node.maxRanks,
+          isPurchased: false,
+        });
+      }
+    }
+
+    // SubTreeNode selection (hero tree choice)
+    if (subTree) {
+      selections.set(subTree.nodeId, {
+        ranks: 1,
+        entryIndex: subTree.entryIndex,
+        isPurchased: true,
+      });
+    }
+
+    for (let i = 0; i < combo.length; i++) {
+      const lookup = entryLookups[i];
+      for (const [entryId, points] of combo[i].entries) {
+        if (points <= 0) continue;
+        const info = lookup.get(entryId);
+        if (!info) continue;
+        selections.set(info.nodeId, {
+          ranks: points,
+          entryIndex: info.entryIndex,
+          isPurchased: true,
+        });
+      }
+    }
+
+    const input: EncodeInput = {
+      specId,
+      treeHashBytes: ctx.treeHashBytes,
+      selections,
+    };
+    return encodeTalentHash(input, allNodes);
+  };
+}
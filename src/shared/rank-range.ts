@@ -0,0 +1,59 @@
+import type { Constraint, TalentNode } from "./types";
+
+export interface RankRange {
+  minRank: number;
+  maxRank: number;
+}
+
+/**
+ * Ranks a non-choice node may be taken at under `constraint`: `exactRank`
+ * pins a single rank, `minRank`/`maxRank` bound it, and free nodes are
+ * always taken at max rank. Skipping the node is up to the constraint type.
+ */
+export function takenRankRange(
+  node: TalentNode,
+  constraint: Constraint | undefined,
+  free = false,
+): RankRange {
+  if (constraint?.exactRank != null) {
+    return { minRank: constraint.exactRank, maxRank: constraint.exactRank };
+  }
+  if (free) return { minRank: node.maxRanks, maxRank: node.maxRanks };
+  return {
+    minRank: Math.max(constraint?.minRank ?? 1, 1),
+    maxRank: Math.min(constraint?.maxRank ?? node.maxRanks, node.maxRanks),
+  };
+}
+
+/** Whether a node taken at `points` ranks is outside `constraint`'s range. */
+export function outsideRankRange(
+  constraint: Constraint,
+  points: number,
+): boolean {
+  if (points === 0) return false;
+  if (constraint.exactRank != null) return points !== constraint.exactRank;
+  return (
+    points < (constraint.minRank ?? 1) ||
+    points > (constraint.maxRank ?? points)
+  );
+}
+
+/**
+ * "2", "1–2", "2+" or, when the node may be skipped, "0–2" for the ranks
+ * `constraint` allows, or null.
+ */
+export function rankRangeText(
+  node: TalentNode,
+  constraint: Constraint,
+): string | null {
+  if (constraint.exactRank != null) return String(constraint.exactRank);
+  if (constraint.minRank == null && constraint.maxRank == null) return null;
+  const { minRank, maxRank } = takenRankRange(node, constraint);
+  if (constraint.type === "range") {
+    if (minRank === 1) return `0–${maxRank}`;
+    return `0 or ${minRank === maxRank ? minRank : `${minRank}–${maxRank}`}`;
+  }
+  if (minRank === maxRank) return String(minRank);
+  if (maxRank === node.maxRanks) return `${minRank}+`;
+  return `${minRank}–${maxRank}`;
+}
@@ -0,0 +1,378 @@
+import type { Build, Constraint, TalentNode, TalentTree } from "./types";
+import { createTreeUnranker } from "./build-counter";
+import type { TreeUnranker } from "./build-counter";
+import { partitionTrees } from "./cross-tree";
+import { outsideRankRange } from "./rank-range";
+
+export type SamplingMode = "even" | "random" | "stratified" | "diverse";
+
+export interface SamplingOptions {
+  mode: SamplingMode;
+  limit: number;
+  seed?: number;
+  // "stratified": node whose states (skipped, each entry or rank) split the
+  // space into strata that each get an equal share of the limit.
+  stratifyNodeId?: number;
+}
+
+/** One class × spec × hero product to sample from, e.g. per hero tree. */
+export interface BuildSpace {
+  trees: TalentTree[];
+  constraints: Map<number, Constraint>;
+}
+
+const DEFAULT_SEED = 1;
+// "diverse" picks from a random candidate pool this many times the limit
+const DIVERSE_POOL_FACTOR = 2;
+
+interface Stratum {
+  space: number;
+  unrankers: TreeUnranker[];
+  total: bigint;
+}
+
+function makeStratum(space: number, unrankers: TreeUnranker[]): Stratum {
+  const total = unrankers.reduce((product, u) => product * u.count, 1n);
+  return { space, unrankers, total };
+}
+
+/**
+ * Whether a node with `constraint` can be split into strata. A conditional
+ * constraint can't be without dropping its condition.
+ */
+export function canStratify(constraint?: Constraint): boolean {
+  return (
+    !constraint ||
+    constraint.type === "always" ||
+    constraint.type === "never" ||
+    constraint.type === "range"
+  );
+}
+
+/**
+ * Constraints pinning each state of `node`: skipped, then every entry
+ * (choice nodes) or rank. An existing always/never constraint or rank
+ * range narrows the states, and a rank range carries over to each entry.
+ */
+function nodeStates(node: TalentNode, existing?: Constraint): Constraint[] {
+  if (!canStratify(existing)) {
+    throw new Error(
+      `Can't stratify on "${node.name}": its conditional constraint can't ` +
+        "be split into strata",
+    );
+  }
+  const skipped: Constraint = { nodeId: node.id, type: "never" };
+  const taken: Constraint[] = [];
+  if (node.type === "choice") {
+    const ranks = existing?.type === "always" ? existing : {};
+    for (let entryIndex = 0; entryIndex < node.entries.length; entryIndex++) {
+      if (existing?.entryIndex != null && existing.entryIndex !== entryIndex) {
+        continue;
+      }
+      taken.push({ ...ranks, nodeId: node.id, type: "always", entryIndex });
+    }
+  } else {
+    for (let rank = 1; rank <= node.maxRanks; rank++) {
+      if (existing && outsideRankRange(existing, rank)) continue;
+      taken.push({ nodeId: node.id, type: "always", exactRank: rank });
+    }
+  }
+
+  if (!existing || existing.type === "range") return [skipped, ...taken];
+  return existing.type === "never" ? [skipped] : taken;
+}
+
+/**
+ * Stratified sampling needs a node in one of the spaces' trees; without
+ * one it would quietly sample at random.
+ */
+function checkStratifyNode(spaces: BuildSpace[], nodeId?: number): void {
+  if (nodeId == null) {
+    throw new Error("Stratified sampling needs a talent to stratify on");
+  }
+  const found = spaces.some((space) =>
+    space.trees.some((tree) => tree.nodes.has(nodeId)),
+  );
+  if (!found) {
+    throw new Error(`Can't stratify on node ${nodeId}: it is in no tree`);
+  }
+}
+
+function buildStrata(
+  spaces: BuildSpace[],
+  stratifyNodeId?: number,
+): Stratum[] {
+  const strata: Stratum[] = [];
+
+  spaces.forEach((space, index) => {
+    const treeIndex =
+      stratifyNodeId != null
+        ? space.trees.findIndex((t) => t.nodes.has(stratifyNodeId))
+        : -1;
+    const states =
+      treeIndex >= 0
+        ? nodeStates(
+            space.trees[treeIndex].nodes.get(stratifyNodeId!)!,
+            space.constraints.get(stratifyNodeId!),
+          )
+        : [];
+
+    // Cross-tree conditions split a space into independent partitions;
+    // trees that come out the same in several share an unranker
+    const unrankers = new Map<string, TreeUnranker>();
+    for (const parts of partitionTrees(space.trees, space.constraints)) {
+      const base = parts.map((part) => {
+        let unranker = unrankers.get(part.key);
+        if (!unranker) {
+          unranker = createTreeUnranker(part.tree, part.constraints);
+          unrankers.set(part.key, unranker);
+        }
+        return unranker;
+      });
+
+      if (states.length === 0) {
+        strata.push(makeStratum(index, base));
+        continue;
+      }
+
+      const part = parts[treeIndex];
+      for (const state of states) {
+        const constraints = new Map(part.constraints);
+        constraints.set(state.nodeId, state);
+        const split = [...base];
+        split[treeIndex] = createTreeUnranker(part.tree, constraints);
+        strata.push(makeStratum(index, split));
+      }
+    }
+  });
+
+  return strata.filter((s) => s.total > 0n);
+}
+
+/** Mixed-radix decode of `k` with the last tree varying fastest. */
+function unrankCombo(stratum: Stratum, k: bigint): Build[] {
+  const builds = new Array<Build>(stratum.unrankers.length);
+  let rest = k;
+  for (let i = stratum.unrankers.length - 1; i >= 0; i--) {
+    const { count, unrank } = stratum.unrankers[i];
+    builds[i] = unrank(rest % count);
+    rest /= count;
+  }
+  return builds;
+}
+
+function locate(strata: Stratum[], k: bigint): [Stratum, bigint] {
+  let rest = k;
+  for (const stratum of strata) {
+    if (rest < stratum.total) return [stratum, rest];
+    rest -= stratum.total;
+  }
+  throw new Error(`Build index ${k} is out of range`);
+}
+
+/** Mulberry32: a small seeded PRNG returning uint32 values. */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+/** Uniform bigint in [0, n) by rejection sampling on 32-bit chunks. */
+function randomBelow(rng: () => number, n: bigint): bigint {
+  const bits = n.toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const excess = BigInt(words * 32 - bits);
+  for (;;) {
+    let x = 0n;
+    for (let i = 0; i < words; i++) x = (x << 32n) | BigInt(rng());
+    x >>= excess;
+    if (x < n) return x;
+  }
+}
+
+/** Floyd's algorithm: `m` distinct indices from [0, n), ascending. */
+function sampleIndices(rng: () => number, n: bigint, m: number): bigint[] {
+  const chosen = new Set<bigint>();
+  for (let j = n - BigInt(m); j < n; j++) {
+    const t = randomBelow(rng, j + 1n);
+    chosen.add(chosen.has(t) ? j : t);
+  }
+  return [...chosen].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Splits `limit` as evenly as possible across strata, handing the share a
+ * small stratum can't use to the others.
+ */
+function allocateQuotas(sizes: bigint[], limit: number): number[] {
+  const quotas = sizes.map(() => 0);
+  let remaining = limit;
+  let open = sizes.map((_, i) => i);
+
+  while (remaining > 0 && open.length > 0) {
+    const share = Math.max(1, Math.floor(remaining / open.length));
+    const next: number[] = [];
+    for (const i of open) {
+      if (remaining === 0) break;
+      const room = sizes[i] - BigInt(quotas[i]);
+      const take = Math.min(
+        remaining,
+        room < BigInt(share) ? Number(room) : share,
+      );
+      quotas[i] += take;
+      remaining -= take;
+      if (sizes[i] > BigInt(quotas[i])) next.push(i);
+    }
+    open = next;
+  }
+  return quotas;
+}
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Greedy farthest-point selection: repeatedly picks the candidate whose
+ * minimum Hamming distance to everything picked so far is largest. Ranks
+ * are unary-coded, so a rank difference of n counts as distance n.
+ */
+function pickDiverse(
+  candidates: Build[][],
+  spaces: BuildSpace[],
+  limit: number,
+): number[] {
+  const offsets = new Map<number, number>();
+  let bits = 0;
+  for (const space of spaces) {
+    for (const tree of space.trees) {
+      for (const node of tree.nodes.values()) {
+        for (const entry of node.entries) {
+          if (offsets.has(entry.id)) continue;
+          offsets.set(entry.id, bits);
+          bits += Math.max(1, entry.maxRanks);
+        }
+      }
+    }
+  }
+
+  const words = Math.max(1, Math.ceil(bits / 32));
+  const vectors = new Uint32Array(candidates.length * words);
+  candidates.forEach((combo, c) => {
+    for (const build of combo) {
+      for (const [entryId, points] of build.entries) {
+        const offset = offsets.get(entryId);
+        if (offset == null) continue;
+        for (let p = 0; p < points; p++) {
+          const bit = offset + p;
+          vectors[c * words + (bit >>> 5)] |= 1 << (bit & 31);
+        }
+      }
+    }
+  });
+
+  const minDist = new Int32Array(candidates.length).fill(0x7fffffff);
+  const picked: number[] = [];
+  let current = 0;
+  while (picked.length < limit) {
+    picked.push(current);
+    minDist[current] = -1;
+
+    let best = -1;
+    for (let c = 0; c < candidates.length; c++) {
+      if (minDist[c] < 0) continue;
+      let dist = 0;
+      for (let w = 0; w < words; w++) {
+        dist += popcount(
+          vectors[c * words + w] ^ vectors[current * words + w],
+        );
+      }
+      if (dist < minDist[c]) minDist[c] = dist;
+      if (best < 0 || minDist[c] > minDist[best]) best = c;
+    }
+    if (best < 0) break;
+    current = best;
+  }
+  return picked;
+}
+
+/**
+ * Picks up to `options.limit` build combinations (one build per tree) from
+ * the union of `spaces`, returned grouped by space. When everything fits in
+ * the limit every build is returned in unranking order; otherwise:
+ *
+ * - "even": evenly spaced indices across the whole space
+ * - "random": seeded uniform sample without replacement
+ * - "stratified": equal random samples per state of `stratifyNodeId`
+ * - "diverse": max-min Hamming distance picks from a random candidate pool
+ */
+export function sampleBuilds(
+  spaces: BuildSpace[],
+  options: SamplingOptions,
+): Build[][][] {
+  if (options.mode === "stratified") {
+    checkStratifyNode(spaces, options.stratifyNodeId);
+  }
+  const result: Build[][][] = spaces.map(() => []);
+  const add = ([stratum, k]: [Stratum, bigint]) =>
+    result[stratum.space].push(unrankCombo(stratum, k));
+
+  const strata = buildStrata(spaces);
+  const total = strata.reduce((sum, s) => sum + s.total, 0n);
+  const limit = BigInt(options.limit);
+
+  if (total <= limit) {
+    for (const stratum of strata) {
+      for (let k = 0n; k < stratum.total; k++) add([stratum, k]);
+    }
+    return result;
+  }
+
+  const rng = createRng(options.seed ?? DEFAULT_SEED);
+
+  switch (options.mode) {
+    case "even":
+      for (let i = 0n; i < limit; i++) add(locate(strata, (i * total) / limit));
+      break;
+    case "random":
+      for (const k of sampleIndices(rng, total, options.limit)) {
+        add(locate(strata, k));
+      }
+      break;
+    case "stratified": {
+      const split = buildStrata(spaces, options.stratifyNodeId);
+      const quotas = allocateQuotas(
+        split.map((s) => s.total),
+        options.limit,
+      );
+      split.forEach((stratum, i) => {
+        for (const k of sampleIndices(rng, stratum.total, quotas[i])) {
+          add([stratum, k]);
+        }
+      });
+      break;
+    }
+    case "diverse": {
+      const poolSize = BigInt(options.limit * DIVERSE_POOL_FACTOR);
+      const pool = sampleIndices(
+        rng,
+        total,
+        Number(total < poolSize ? total : poolSize),
+      ).map((k) => locate(strata, k));
+      const candidates = pool.map(([stratum, k]) => unrankCombo(stratum, k));
+      for (const c of pickDiverse(candidates, spaces, options.limit)) {
+        result[pool[c][0].space].push(candidates[c]);
+      }
+      break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,241 @@
+import type { Build, Specialization, TalentTree } from "./types";
+import { profilesetName } from "./profilesets";
+
+export interface SimResult {
+  name: string;
+  dps: number;
+  error?: number;
+}
+
+export interface SimResultSet {
+  results: SimResult[];
+  // DPS of the base actor, when the report has one
+  baselineDps?: number;
+}
+
+/** One exported profileset and the per-tree builds it was generated from. */
+export interface NamedBuild {
+  name: string;
+  trees: TalentTree[];
+  builds: Build[];
+}
+
+export interface BuildResult extends NamedBuild {
+  dps: number;
+  error?: number;
+}
+
+/**
+ * The builds of an export by profileset name, saved next to it so results
+ * can be matched in a later session. Each build lists [entryId, points]
+ * per tree: class, spec, then the hero tree named by `heroTreeId`.
+ */
+export interface BuildMapFile {
+  version: 1;
+  className: string;
+  specName: string;
+  builds: {
+    name: string;
+    heroTreeId?: number;
+    entries: [number, number][][];
+  }[];
+}
+
+type Json = Record<string, unknown>;
+
+function asObject(value: unknown): Json | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Json)
+    : null;
+}
+
+/**
+ * Reads profileset results from SimC `json2` output or a Raidbots report
+ * JSON. Both carry `sim.profilesets.results`; a bare `profilesets` object at
+ * the top level is accepted too.
+ */
+export function parseSimResults(json: unknown): SimResultSet {
+  const root = asObject(json);
+  const sim = asObject(root?.sim) ?? root;
+  const results = asObject(sim?.profilesets)?.results;
+  if (!Array.isArray(results)) {
+    throw new Error("No profileset results found in this file");
+  }
+
+  const parsed: SimResult[] = [];
+  for (const raw of results) {
+    const entry = asObject(raw);
+    if (typeof entry?.name !== "string" || typeof entry.mean !== "number") {
+      continue;
+    }
+    const error = entry.mean_error ?? entry.mean_stddev;
+    parsed.push({
+      name: entry.name,
+      dps: entry.mean,
+      error: typeof error === "number" ? error : undefined,
+    });
+  }
+
+  const players = Array.isArray(sim?.players) ? sim.players : [];
+  const collected = asObject(asObject(players[0])?.collected_data);
+  const baseline = asObject(collected?.dps)?.mean;
+
+  return {
+    results: parsed,
+    baselineDps: typeof baseline === "number" ? baseline : undefined,
+  };
+}
+
+/** Names combinations the way the profileset formatters do. */
+export function namedBuilds(
+  combos: Build[][],
+  trees: TalentTree[],
+  label?: string,
+): NamedBuild[] {
+  return combos.map((builds, index) => ({
+    name: profilesetName(index, label),
+    trees,
+    builds,
+  }));
+}
+
+export function buildMapFileName(baseName: string): string {
+  return `${baseName}_builds.json`;
+}
+
+export function serializeBuildMap(
+  named: NamedBuild[],
+  spec: Specialization,
+): BuildMapFile {
+  return {
+    version: 1,
+    className: spec.className,
+    specName: spec.specName,
+    builds: named.map(({ name, trees, builds }) => {
+      const heroTreeId = trees.find((t) => t.type === "hero")?.subTreeId;
+      return {
+        name,
+        ...(heroTreeId != null ? { heroTreeId } : {}),
+        entries: builds.map((b) => [...b.entries]),
+      };
+    }),
+  };
+}
+
+/**
+ * Reads a build map back against `spec`'s trees. Throws if it belongs to
+ * another spec or names talents the trees don't have.
+ */
+export function parseBuildMap(
+  json: unknown,
+  spec: Specialization,
+): NamedBuild[] {
+  const file = asObject(json);
+  if (file?.version !== 1 || !Array.isArray(file.builds)) {
+    throw new Error("Not a build map saved with an export");
+  }
+  if (file.className !== spec.className || file.specName !== spec.specName) {
+    throw new Error(
+      `This build map is for ${String(file.specName)} ` +
+        `${String(file.className)}; select that spec to use it`,
+    );
+  }
+
+  const entryIds = new Map<TalentTree, Set<number>>();
+  const knows = (tree: TalentTree, entryId: number): boolean => {
+    let ids = entryIds.get(tree);
+    if (!ids) {
+      ids = new Set(
+        [...tree.nodes.values()].flatMap((n) => n.entries.map((e) => e.id)),
+      );
+      entryIds.set(tree, ids);
+    }
+    return ids.has(entryId);
+  };
+
+  return (file as unknown as BuildMapFile).builds.map((saved) => {
+    const trees = [spec.classTree, spec.specTree];
+    if (saved.heroTreeId != null) {
+      const hero = spec.heroTrees.find(
+        (t) => t.subTreeId === saved.heroTreeId,
+      );
+      if (!hero) {
+        throw new Error(`${saved.name} uses a hero tree this spec lacks`);
+      }
+      trees.push(hero);
+    }
+    if (saved.entries.length !== trees.length) {
+      throw new Error(`${saved.name} does not match the spec's trees`);
+    }
+    const builds = saved.entries.map((entries, i) => {
+      for (const [entryId] of entries) {
+        if (!knows(trees[i], entryId)) {
+          throw new Error(
+            `${saved.name} takes talent entry ${entryId}, which this ` +
+              "talent data does not have",
+          );
+        }
+      }
+      return { entries: new Map(entries) };
+    });
+    return { name: saved.name, trees, builds };
+  });
+}
+
+/** Pairs results with the exported builds of the same name. */
+export function matchResults(
+  results: SimResult[],
+  exported: ReadonlyMap<string, NamedBuild>,
+): { matched: BuildResult[]; unmatched: string[] } {
+  const matched: BuildResult[] = [];
+  const unmatched: string[] = [];
+  for (const result of results) {
+    const named = exported.get(result.name);
+    if (named) {
+      matched.push({ ...named, dps: result.dps, error: result.error });
+    } else {
+      unmatched.push(result.name);
+    }
+  }
+  return { matched, unmatched };
+}
+
+/** Ids of the nodes a build puts at least one point into. */
+export function takenNodeIds(trees: TalentTree[], builds: Build[]): number[] {
+  const taken: number[] = [];
+  trees.forEach((tree, i) => {
+    for (const node of tree.nodes.values()) {
+      if (node.entries.some((e) => (builds[i]?.entries.get(e.id) ?? 0) > 0)) {
+        taken.push(node.id);
+      }
+    }
+  });
+  return taken;
+}
+
+/**
+ * Average DPS of the builds taking each node, minus the average over all
+ * builds. Nodes no build takes are absent.
+ */
+export function nodeDpsDeltas(results: BuildResult[]): Map<number, number> {
+  const deltas = new Map<number, number>();
+  if (results.length === 0) return deltas;
+
+  const sums = new Map<number, { dps: number; count: number }>();
+  let total = 0;
+  for (const result of results) {
+    total += result.dps;
+    for (const nodeId of takenNodeIds(result.trees, result.builds)) {
+      const sum = sums.get(nodeId) ?? { dps: 0, count: 0 };
+      sum.dps += result.dps;
+      sum.count++;
+      sums.set(nodeId, sum);
+    }
+  }
+
+  const mean = total / results.length;
+  for (const [nodeId, sum] of sums) {
+    deltas.set(nodeId, sum.dps / sum.count - mean);
+  }
+  return deltas;
+}
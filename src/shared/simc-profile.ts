@@ -0,0 +1,85 @@
+import type {
+  BaseProfile,
+  Build,
+  Constraint,
+  Specialization,
+  TalentTree,
+} from "./types";
+import { buildFromPicks } from "./build-location";
+import { constraintsForTree } from "./loadout";
+
+// Options the generated header owns. Matching lines are dropped from the
+// pasted profile text so each is set exactly once.
+const MANAGED_OPTIONS = new Set([
+  "talents",
+  "class_talents",
+  "spec_talents",
+  "hero_talents",
+  "fight_style",
+  "iterations",
+  "target_error",
+  "profileset_work_threads",
+]);
+
+export function profilesForSpec(
+  profiles: BaseProfile[],
+  spec: Specialization,
+): BaseProfile[] {
+  return profiles.filter(
+    (p) => p.className === spec.className && p.specName === spec.specName,
+  );
+}
+
+/** Removes lines setting any option the header manages; keeps comments. */
+export function stripManagedOptions(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => {
+      const key = line.trim().match(/^([a-z_]+)\s*=/)?.[1];
+      return !key || !MANAGED_OPTIONS.has(key);
+    })
+    .join("\n")
+    .trim();
+}
+
+/** The always-picked talents of each tree, as the base actor's build. */
+export function alwaysBuilds(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+): Build[] {
+  return trees.map((tree) =>
+    buildFromPicks(tree, [...constraintsForTree(tree, constraints).values()]),
+  );
+}
+
+/**
+ * The part of a runnable `.simc` file that precedes the profilesets: sim
+ * options, then the character with the given base talents.
+ */
+export function formatBaseProfile(
+  profile: BaseProfile,
+  talentLines: string[],
+): string {
+  const lines = [`# Base profile: ${profile.name}`];
+  lines.push(`fight_style=${profile.fightStyle}`);
+  if (profile.iterations != null) {
+    lines.push(`iterations=${profile.iterations}`);
+  }
+  if (profile.targetError != null) {
+    lines.push(`target_error=${profile.targetError}`);
+  }
+  if (profile.workThreads != null) {
+    lines.push(`profileset_work_threads=${profile.workThreads}`);
+  }
+  lines.push("");
+
+  const character = stripManagedOptions(profile.profileText);
+  if (character) lines.push(character);
+  lines.push(...talentLines);
+  return `${lines.join("\n")}\n`;
+}
+
+/** A complete `.simc` file: the base profile followed by profilesets. */
+export function wrapProfilesets(header: string, profilesets: string): string {
+  return `${header}\n${profilesets}\n`;
+}
@@ -0,0 +1,59 @@
+import type { RowSpend, SpendTarget, TalentNode, TalentTree } from "./types";
+
+/** Points every build of `tree` spends: its spend target or full budget. */
+export function spendBudget(tree: TalentTree): number {
+  return tree.spend?.total ?? tree.pointBudget;
+}
+
+/** Whether `target` asks for anything beyond spending the full budget. */
+export function isSpendTargetSet(target: SpendTarget | undefined): boolean {
+  return target?.total != null || (target?.rows?.length ?? 0) > 0;
+}
+
+/** "25/30 pts · ≥ 15 pts in rows 1–4" for a spend target of `tree`. */
+export function spendText(
+  tree: TalentTree,
+  target: SpendTarget | undefined = tree.spend,
+): string {
+  const parts: string[] = [];
+  if (target?.total != null) {
+    parts.push(`${target.total}/${tree.pointBudget} pts`);
+  }
+  for (const { row, points } of target?.rows ?? []) {
+    parts.push(`\u2265 ${points} pts in rows 1\u2013${row + 1}`);
+  }
+  return parts.join(" \u00b7 ");
+}
+
+/**
+ * Minimum points spent before each position of `orderedNodes` to meet the
+ * tree's row targets; position `orderedNodes.length` is the end of the
+ * tree. Nodes are ordered by gate tier and then row, so the rows up to a
+ * target's row are exactly the nodes before the first node past it.
+ */
+export function rowSpendCheckpoints(
+  tree: TalentTree,
+  orderedNodes: TalentNode[],
+): Map<number, number> {
+  const checkpoints = new Map<number, number>();
+  for (const { row, points } of tree.spend?.rows ?? []) {
+    let index = orderedNodes.findIndex((node) => node.row > row);
+    if (index < 0) index = orderedNodes.length;
+    checkpoints.set(index, Math.max(checkpoints.get(index) ?? 0, points));
+  }
+  return checkpoints;
+}
+
+/** Points `selected` spends in `target.row` and the rows above it. */
+export function pointsThroughRow(
+  tree: TalentTree,
+  selected: Map<number, number>,
+  target: RowSpend,
+): number {
+  let points = 0;
+  for (const [nodeId, ranks] of selected) {
+    const node = tree.nodes.get(nodeId);
+    if (node && !node.freeNode && node.row <= target.row) points += ranks;
+  }
+  return points;
+}
@@ -0,0 +1,95 @@
+import { RAIDBOTS_DATA_URL } from "./constants";
+import type { TalentDataSource } from "./types";
+
+export const LIVE_SOURCE: TalentDataSource = { kind: "live" };
+
+const CHANNEL_LABELS = { live: "Live", ptr: "PTR", beta: "Beta" };
+
+/** The URL to fetch talents.json from, or null for a file on disk. */
+export function sourceUrl(
+  source: TalentDataSource,
+  baseUrl = RAIDBOTS_DATA_URL,
+): string | null {
+  switch (source.kind) {
+    case "url":
+      return source.url;
+    case "file":
+      return null;
+    default:
+      return `${baseUrl}/${source.kind}/talents.json`;
+  }
+}
+
+// 32-bit FNV-1a as hex; plain JS, as the renderer names sources too
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * A name for the source that is safe to use as a directory name. URLs and
+ * paths are slugged for readability, and hashed in full so that ones
+ * slugging alike stay apart.
+ */
+export function sourceKey(source: TalentDataSource): string {
+  switch (source.kind) {
+    case "url":
+    case "file": {
+      const target = source.kind === "url" ? source.url : source.path;
+      const slug = target
+        .replace(/^[a-z]+:\/\//i, "")
+        .replace(/[^a-z0-9]+/gi, "-")
+        .replace(/^-|-$/g, "")
+        .slice(-80);
+      return `${source.kind}-${slug}-${fnv1a(target)}`;
+    }
+    default:
+      return source.kind;
+  }
+}
+
+export function sourceLabel(source: TalentDataSource): string {
+  switch (source.kind) {
+    case "url":
+      try {
+        return new URL(source.url).host || source.url;
+      } catch {
+        return source.url;
+      }
+    case "file":
+      return source.path.split(/[\\/]/).pop() || source.path;
+    default:
+      return CHANNEL_LABELS[source.kind];
+  }
+}
+
+export function sameSource(a: TalentDataSource, b: TalentDataSource): boolean {
+  return sourceKey(a) === sourceKey(b);
+}
+
+/** Validates a source read from disk or passed over IPC. */
+export function parseTalentSource(json: unknown): TalentDataSource {
+  const source = json as Partial<{ kind: string; url: string; path: string }>;
+  switch (source?.kind) {
+    case "live":
+    case "ptr":
+    case "beta":
+      return { kind: source.kind };
+    case "url":
+      if (typeof source.url !== "string" || !/^https?:\/\//.test(source.url)) {
+        throw new Error("A custom source needs an http(s) URL");
+      }
+      return { kind: "url", url: source.url };
+    case "file":
+      if (typeof source.path !== "string" || !source.path) {
+        throw new Error("A file source needs a path");
+      }
+      return { kind: "file", path: source.path };
+    default:
+      throw new Error(`Unknown talent data source "${source?.kind}"`);
+  }
+}
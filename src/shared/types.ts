@@ -90,6 +90,24 @@ export interface TalentTree {
   totalNodes: number;
   subTreeId?: number;
   subTreeName?: string;
+  // Tree-level rules every build must satisfy, e.g. "not both A and B"
+  rules?: BooleanExpr[];
+  // Points builds spend when short of the full budget, or must put into
+  // the top rows
+  spend?: SpendTarget;
+}
+
+export interface SpendTarget {
+  // Points every build spends; defaults to the tree's point budget
+  total?: number;
+  rows?: RowSpend[];
+}
+
+// At least `points` spent in `row` and the rows above it (0-based, like
+// TalentNode.row)
+export interface RowSpend {
+  row: number;
+  points: number;
 }
 
 // Hero tree selection node — the "choice" node where you pick a hero spec.
@@ -112,6 +130,15 @@ export interface Specialization {
   systemNodeIds: number[];
 }
 
+export type CardinalityOp = "AT_LEAST" | "AT_MOST" | "EXACTLY";
+
+// "At least / at most / exactly `count` of these nodes are taken"
+export interface CardinalityExpr {
+  op: CardinalityOp;
+  nodeIds: number[];
+  count: number;
+}
+
 export type BooleanExpr =
   | { op: "AND"; children: BooleanExpr[] }
   | { op: "OR"; children: BooleanExpr[] }
@@ -121,13 +148,15 @@ export type BooleanExpr =
       minRank?: number;
       negated?: boolean;
       entryId?: number;
-    };
+    }
+  | CardinalityExpr;
 
 export type ConstraintType =
   | "always"
   | "never"
   | "conditional"
-  | "entry-conditional";
+  | "entry-conditional"
+  | "range"; // Skipped, or taken within minRank/maxRank
 
 export interface EntryCondition {
   entryIndex: number;
@@ -139,6 +168,8 @@ export interface Constraint {
   type: ConstraintType;
   entryIndex?: number; // For choice nodes: which entry (0 or 1)
   exactRank?: number; // For multi-rank: specific rank desired
+  minRank?: number; // For multi-rank: fewest ranks when taken
+  maxRank?: number; // For multi-rank: most ranks when taken
   condition?: BooleanExpr;
   entryConditions?: EntryCondition[]; // For "entry-conditional": per-entry conditions
 }
@@ -175,21 +206,52 @@ export interface CountWarning {
   nodeIds?: number[];
 }
 
+// Builds taking each node and each entry, from a count that asked for them
+export interface SelectionCounts {
+  nodes: Map<number, bigint>; // nodeId → builds
+  entries: Map<number, bigint>; // entryId → builds
+}
+
 export interface CountResult {
   count: bigint;
   durationMs: number;
   warnings: CountWarning[];
+  selections?: SelectionCounts;
 }
 
 export type WorkerResponse =
   | { type: "generate"; result: SolverResult }
   | { type: "progress"; current: number; total: number }
-  | { type: "error"; message: string };
+  | { type: "task-result"; id: number; value: unknown }
+  | { type: "error"; message: string; id?: number };
+
+// Where talent data is fetched from: a Raidbots channel, any URL serving a
+// talents.json, or a file on disk read afresh at every start.
+export type TalentDataSource =
+  | { kind: "live" | "ptr" | "beta" }
+  | { kind: "url"; url: string }
+  | { kind: "file"; path: string };
+
+// A stored copy of the talent data, named by a hash of its content so the
+// same data fetched twice is kept once.
+export interface TalentSnapshot {
+  id: string;
+  savedAt: string; // ISO date it was first fetched or imported
+  source: "fetched" | "file";
+  fileName?: string; // set for imported files
+}
+
+export interface TalentSnapshotList {
+  snapshots: TalentSnapshot[]; // newest first
+  pinned: string | null; // loaded at startup instead of fetching
+}
 
 export interface TalentDataResult {
   specs: Specialization[];
-  version: string;
+  version: string; // id of the snapshot the specs were parsed from
   cached: boolean;
+  snapshot: TalentSnapshot;
+  source: TalentDataSource;
 }
 
 export interface SpellTooltip {
@@ -197,18 +259,112 @@ export interface SpellTooltip {
   desc: string;
 }
 
+// One sim → narrow iteration: the constraints added from its results.
+export interface LoadoutRound {
+  round: number;
+  date: string;
+  simmedBuilds: number;
+  topN: number;
+  bestDps: number;
+  added: Constraint[];
+}
+
+// A talent as it was when the loadout was saved, to check against newer data
+export interface LoadoutNode {
+  nodeId: number;
+  name: string;
+  entryIds: number[];
+}
+
 export interface Loadout {
+  version: 2;
+  // Talent data version the loadout was saved against
+  dataVersion?: string;
+  className: string;
+  specName: string;
+  specId?: number;
+  heroTreeName?: string;
+  // Every talent the constraints and rules refer to
+  nodes: LoadoutNode[];
+  constraints: Constraint[];
+  rules?: LoadoutRule[];
+  spend?: LoadoutSpend[];
+  rounds?: LoadoutRound[];
+  // Tree hash bytes of the last imported talent string, for exports
+  treeHash?: number[];
+  notes?: string;
+}
+
+// The first format, without node names, data version or notes
+export interface LoadoutV1 {
   version: 1;
   className: string;
   specName: string;
   heroTreeName?: string;
   constraints: Constraint[];
+  rules?: LoadoutRule[];
+  spend?: LoadoutSpend[];
+  rounds?: LoadoutRound[];
+}
+
+export interface LoadoutRule {
+  tree: TalentTree["type"];
+  expr: BooleanExpr;
+}
+
+export interface LoadoutSpend {
+  tree: TalentTree["type"];
+  target: SpendTarget;
+}
+
+// A character to sim the exported builds on, stored per spec.
+export interface BaseProfile {
+  name: string;
+  className: string;
+  specName: string;
+  // SimC addon/armory export: character, gear and any extra actor options
+  profileText: string;
+  fightStyle: string;
+  iterations?: number;
+  targetError?: number;
+  workThreads?: number;
+}
+
+export interface ExportFile {
+  name: string;
+  content: string;
 }
 
 export interface ElectronAPI {
   fetchTalentData: () => Promise<TalentDataResult>;
+  listTalentSnapshots: () => Promise<TalentSnapshotList>;
+  loadTalentSnapshot: (id: string) => Promise<TalentDataResult>;
+  pinTalentSnapshot: (id: string | null) => Promise<void>;
+  // Stores a talents.json picked from disk as a snapshot and loads it;
+  // null if cancelled or the file is not talent data
+  importTalentData: () => Promise<TalentDataResult | null>;
+  // Switches the data source, remembered across sessions, and loads from it
+  setTalentSource: (source: TalentDataSource) => Promise<TalentDataResult>;
+  pickTalentFile: () => Promise<string | null>;
   fetchSpellTooltip: (spellId: number) => Promise<SpellTooltip | null>;
-  saveFile: (content: string, defaultName: string) => Promise<boolean>;
+  // `sidecars` are written next to the saved file under their own names
+  saveFile: (
+    content: string,
+    defaultName: string,
+    sidecars?: ExportFile[],
+  ) => Promise<boolean>;
+  // Writes files into a new `dirName` folder under a user-picked directory;
+  // resolves to the folder's path, or null if cancelled or failed.
+  saveDirectory: (
+    files: ExportFile[],
+    dirName: string,
+  ) => Promise<string | null>;
+  loadBaseProfiles: () => Promise<BaseProfile[]>;
+  saveBaseProfiles: (profiles: BaseProfile[]) => Promise<boolean>;
+  // Parsed JSON of a SimC json2 / Raidbots report, or null if cancelled
+  loadSimResults: () => Promise<unknown>;
+  // Parsed JSON of a build map saved with an export, or null if cancelled
+  loadBuildMap: () => Promise<unknown>;
   saveLoadout: (data: Loadout) => Promise<boolean>;
   loadLoadout: () => Promise<Loadout | null>;
   getAppVersion: () => Promise<string>;
@@ -221,15 +377,26 @@ export type AppEvent =
   | { type: "hero-tree-selected"; tree: TalentTree }
   | { type: "constraint-changed"; constraint: Constraint }
   | { type: "constraint-removed"; nodeId: number }
+  | { type: "rules-changed"; tree: TalentTree }
+  | { type: "spend-changed"; tree: TalentTree }
   | { type: "count-updated"; counts: TreeCounts }
   | { type: "data-loaded"; data: TalentDataResult }
-  | { type: "validation-changed" };
+  | { type: "validation-changed" }
+  | { type: "highlight-changed" }
+  | { type: "frequency-overlay-changed" }
+  | { type: "constraints-restored" }
+  | { type: "history-changed" }
+  | { type: "workspace-changed" }
+  | { type: "results-updated" };
 
 export interface TreeCounts {
   classCount: bigint;
   specCount: bigint;
   heroCount: bigint;
   totalCount: bigint;
+  // Set when the total is only the per-tree product, e.g. because conditions
+  // between trees were too many to count exactly
+  totalWarning?: CountWarning;
   details?: {
     class?: CountResult;
     spec?: CountResult;
@@ -0,0 +1,36 @@
+import { sampleBuilds } from "./sampling";
+import type { BuildSpace, SamplingOptions } from "./sampling";
+import { countAcrossTrees } from "./cross-tree";
+import { findConflict } from "./conflict";
+import type { Build, Constraint, CountWarning, TalentTree } from "./types";
+
+// Work the renderer hands to the solver worker so the UI stays responsive.
+export type WorkerTask =
+  | { type: "sample"; spaces: BuildSpace[]; options: SamplingOptions }
+  | {
+      type: "count-total";
+      trees: TalentTree[];
+      constraints: Map<number, Constraint>;
+    }
+  | {
+      type: "conflict";
+      tree: TalentTree;
+      constraints: Map<number, Constraint>;
+    };
+
+export interface WorkerTaskResults {
+  sample: Build[][][];
+  "count-total": bigint;
+  conflict: CountWarning | null;
+}
+
+export function runWorkerTask(task: WorkerTask): unknown {
+  switch (task.type) {
+    case "sample":
+      return sampleBuilds(task.spaces, task.options);
+    case "count-total":
+      return countAcrossTrees(task.trees, task.constraints);
+    case "conflict":
+      return findConflict(task.tree, task.constraints);
+  }
+}
@@ -0,0 +1,156 @@
+import type { BooleanExpr, Constraint, SpendTarget, TalentTree } from "./types";
+import { countTreeBuilds } from "./build-counter";
+import { countAcrossTrees, hasCrossTreeConditions } from "./cross-tree";
+
+/**
+ * Constraints with the rules and spend targets they were set alongside, by
+ * tree. The trees themselves carry none; counting puts them onto copies.
+ */
+export interface ConstraintSet {
+  constraints: Map<number, Constraint>;
+  rules: Map<TalentTree, BooleanExpr[] | undefined>;
+  spend: Map<TalentTree, SpendTarget | undefined>;
+}
+
+export interface NodeDiff {
+  tree: TalentTree;
+  nodeId: number;
+  a?: Constraint;
+  b?: Constraint;
+}
+
+// A tree whose rules or spend target differ between two sets
+export interface SettingDiff {
+  tree: TalentTree;
+  setting: "rules" | "spend";
+}
+
+// Missing lists count as empty
+function sameList<T>(
+  a: T[] | undefined,
+  b: T[] | undefined,
+  same: (x: T, y: T) => boolean,
+): boolean {
+  const left = a ?? [];
+  const right = b ?? [];
+  return (
+    left.length === right.length && left.every((x, i) => same(x, right[i]))
+  );
+}
+
+// Compared field by field: sets restored from loadouts or copied between
+// tabs may hold equal values built in another key order
+function sameExpr(a?: BooleanExpr, b?: BooleanExpr): boolean {
+  if (!a || !b) return a === b;
+  if (a.op !== b.op) return false;
+  switch (a.op) {
+    case "AND":
+    case "OR":
+      return sameList(a.children, (b as typeof a).children, sameExpr);
+    case "TALENT_SELECTED": {
+      const other = b as typeof a;
+      return (
+        a.nodeId === other.nodeId &&
+        a.minRank === other.minRank &&
+        !!a.negated === !!other.negated &&
+        a.entryId === other.entryId
+      );
+    }
+    default: {
+      const other = b as typeof a;
+      return (
+        a.count === other.count &&
+        sameList(a.nodeIds, other.nodeIds, (x, y) => x === y)
+      );
+    }
+  }
+}
+
+function sameConstraint(a?: Constraint, b?: Constraint): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.type === b.type &&
+    a.entryIndex === b.entryIndex &&
+    a.exactRank === b.exactRank &&
+    a.minRank === b.minRank &&
+    a.maxRank === b.maxRank &&
+    sameExpr(a.condition, b.condition) &&
+    sameList(
+      a.entryConditions,
+      b.entryConditions,
+      (x, y) =>
+        x.entryIndex === y.entryIndex && sameExpr(x.condition, y.condition),
+    )
+  );
+}
+
+function sameSpend(a?: SpendTarget, b?: SpendTarget): boolean {
+  return (
+    a?.total === b?.total &&
+    sameList(
+      a?.rows,
+      b?.rows,
+      (x, y) => x.row === y.row && x.points === y.points,
+    )
+  );
+}
+
+/** Nodes of `trees` constrained differently by `a` and `b`, in tree order. */
+export function diffConstraints(
+  trees: TalentTree[],
+  a: Map<number, Constraint>,
+  b: Map<number, Constraint>,
+): NodeDiff[] {
+  const diffs: NodeDiff[] = [];
+  for (const tree of trees) {
+    for (const nodeId of tree.nodes.keys()) {
+      const left = a.get(nodeId);
+      const right = b.get(nodeId);
+      if (!sameConstraint(left, right)) {
+        diffs.push({ tree, nodeId, a: left, b: right });
+      }
+    }
+  }
+  return diffs;
+}
+
+/** Trees whose rules or spend target differ between `a` and `b`. */
+export function diffTreeSettings(
+  trees: TalentTree[],
+  a: ConstraintSet,
+  b: ConstraintSet,
+): SettingDiff[] {
+  const diffs: SettingDiff[] = [];
+  for (const tree of trees) {
+    if (!sameList(a.rules.get(tree), b.rules.get(tree), sameExpr)) {
+      diffs.push({ tree, setting: "rules" });
+    }
+    if (!sameSpend(a.spend.get(tree), b.spend.get(tree))) {
+      diffs.push({ tree, setting: "spend" });
+    }
+  }
+  return diffs;
+}
+
+/** Builds across `trees` under `set`, with its rules and spend in force. */
+export function countConstraintSet(
+  trees: TalentTree[],
+  set: ConstraintSet,
+): bigint {
+  const applied = trees.map((tree): TalentTree => ({
+    ...tree,
+    rules: set.rules.get(tree),
+    spend: set.spend.get(tree),
+  }));
+  if (hasCrossTreeConditions(applied, set.constraints)) {
+    return countAcrossTrees(applied, set.constraints);
+  }
+  let total = 1n;
+  for (const tree of applied) {
+    const constraints = new Map(
+      [...set.constraints].filter(([nodeId]) => tree.nodes.has(nodeId)),
+    );
+    total *= countTreeBuilds(tree, constraints).count;
+  }
+  return total;
+}
@@ -5,6 +5,8 @@ import type {
   WorkerResponse,
 } from "../shared/types";
 import { generateBuilds } from "./solver/engine";
+import { runWorkerTask } from "../shared/worker-tasks";
+import type { WorkerTask } from "../shared/worker-tasks";
 
 // Structured clone converts Maps to plain objects across worker boundaries.
 // These types represent the post-clone shape where Maps become Records.
@@ -38,7 +40,25 @@ function deserializeConfig(rawConfig: SerializedConfig): {
   };
 }
 
+// Tasks carry an id to answer with; their Maps survive structured clone
+function runTask(id: number, task: WorkerTask): void {
+  try {
+    const value = runWorkerTask(task);
+    self.postMessage({ type: "task-result", id, value } as WorkerResponse);
+  } catch (err) {
+    self.postMessage({
+      type: "error",
+      id,
+      message: err instanceof Error ? err.message : String(err),
+    } as WorkerResponse);
+  }
+}
+
 self.onmessage = (event: MessageEvent) => {
+  if (event.data.task) {
+    runTask(event.data.id, event.data.task);
+    return;
+  }
   const { type, config: rawConfig } = event.data;
   const { tree, constraints } = deserializeConfig(rawConfig);
 
@@ -3,6 +3,8 @@ import type {
   Constraint,
   ConstraintType,
 } from "../../shared/types";
+import { cardinalityMet } from "../../shared/cardinality";
+import { outsideRankRange } from "../../shared/rank-range";
 
 export function evaluate(
   expr: BooleanExpr,
@@ -23,6 +25,14 @@ export function evaluate(
       return expr.children.every((c) => evaluate(c, selected, entries));
     case "OR":
       return expr.children.some((c) => evaluate(c, selected, entries));
+    case "AT_LEAST":
+    case "AT_MOST":
+    case "EXACTLY": {
+      const taken = expr.nodeIds.filter(
+        (id) => (selected.get(id) ?? 0) > 0,
+      ).length;
+      return cardinalityMet(expr, taken);
+    }
   }
 }
 
@@ -33,12 +43,11 @@ export function checkConstraints(
 ): boolean {
   for (const [nodeId, constraint] of constraints) {
     const points = selected.get(nodeId) ?? 0;
+    if (outsideRankRange(constraint, points)) return false;
 
     switch (constraint.type) {
       case "always":
         if (points === 0) return false;
-        if (constraint.exactRank != null && points !== constraint.exactRank)
-          return false;
         break;
       case "never":
         if (points > 0) return false;
@@ -58,6 +67,14 @@ export function checkConstraints(
   return true;
 }
 
+export function checkRules(
+  rules: BooleanExpr[],
+  selected: Map<number, number>,
+  entries?: Map<number, number>,
+): boolean {
+  return rules.every((rule) => evaluate(rule, selected, entries));
+}
+
 export function getNodesByType(
   constraints: Map<number, Constraint>,
   type: ConstraintType,
@@ -5,8 +5,15 @@ import type {
   Build,
   SolverResult,
 } from "../../shared/types";
-import { checkConstraints, evaluate, getNodesByType } from "./constraints";
+import {
+  checkConstraints,
+  checkRules,
+  evaluate,
+  getNodesByType,
+} from "./constraints";
 import { encodeBuild } from "./encoder";
+import { takenRankRange } from "../../shared/rank-range";
+import { pointsThroughRow, spendBudget } from "../../shared/spend";
 
 interface SolverState {
   tiers: Map<number, TalentNode[]>;
@@ -117,8 +124,17 @@ function traverse(
   function dfs(tierIdx: number, build: PartialBuild): void {
     if (tierIdx >= solverState.sortedTierKeys.length) {
       if (
-        build.pointsSpent === tree.pointBudget &&
-        checkConstraints(solverState.constraints, build.selected, build.entries)
+        build.pointsSpent === spendBudget(tree) &&
+        (tree.spend?.rows ?? []).every(
+          (target) =>
+            pointsThroughRow(tree, build.selected, target) >= target.points,
+        ) &&
+        checkConstraints(
+          solverState.constraints,
+          build.selected,
+          build.entries,
+        ) &&
+        checkRules(tree.rules ?? [], build.selected, build.entries)
       ) {
         onLeaf(build);
       }
@@ -197,7 +213,7 @@ function traverse(
         b.selected.set(node.id, entry.maxRanks);
         b.entries.set(entry.id, entry.maxRanks);
         if (!node.freeNode) b.pointsSpent += entry.maxRanks;
-        if (b.pointsSpent <= tree.pointBudget) {
+        if (b.pointsSpent <= spendBudget(tree)) {
           enumerateTier(tierIdx, nodeIdx + 1, tierNodes, b);
         }
       }
@@ -205,24 +221,24 @@ function traverse(
       const constraint = solverState.constraints.get(node.id);
       const entry = node.entries[0];
 
-      let minRank: number, maxRank: number;
-      if (constraint?.exactRank != null) {
-        minRank = maxRank = constraint.exactRank;
-      } else if (node.freeNode) {
-        minRank = maxRank = node.maxRanks;
-      } else {
-        minRank = isNodeAlways ? 1 : 0;
-        maxRank = node.maxRanks;
-      }
+      const { minRank, maxRank } = takenRankRange(
+        node,
+        constraint,
+        node.freeNode,
+      );
+      const canSkip =
+        !isNodeAlways && !node.freeNode && constraint?.exactRank == null;
+      const ranks = canSkip ? [0] : [];
+      for (let rank = minRank; rank <= maxRank; rank++) ranks.push(rank);
 
-      for (let rank = minRank; rank <= maxRank; rank++) {
+      for (const rank of ranks) {
         const b = cloneBuild(build);
         b.selected.set(node.id, rank);
         if (rank > 0 && entry) {
           b.entries.set(entry.id, rank);
         }
         if (!node.freeNode) b.pointsSpent += rank;
-        if (b.pointsSpent <= tree.pointBudget) {
+        if (b.pointsSpent <= spendBudget(tree)) {
           enumerateTier(tierIdx, nodeIdx + 1, tierNodes, b);
         }
       }
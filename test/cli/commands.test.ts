@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  countLoadout,
+  decodeToLoadout,
+  formatCountReport,
+  generateLoadout,
+} from "../../src/cli/commands";
+import { BitWriter } from "../../src/shared/hash-encoder";
+import type { Loadout, Specialization } from "../../src/shared/types";
+import {
+  makeEntry,
+  makeNode,
+  makeSpec,
+  makeTree,
+} from "../solver/test-helpers";
+
+// Header-only talent string: version 2, spec 63, all-zero tree hash
+function referenceHash(): string {
+  const writer = new BitWriter();
+  writer.write(2, 8);
+  writer.write(63, 16);
+  for (let i = 0; i < 16; i++) writer.write(0, 8);
+  return writer.toBase64();
+}
+
+function mageSpec(): Specialization {
+  // Class: 3 independent nodes, budget 2 → 3 builds
+  const classTree = makeTree([makeNode(1), makeNode(2), makeNode(3)], {
+    type: "class",
+    pointBudget: 2,
+  });
+  // Spec: 2 independent nodes, budget 1 → 2 builds
+  const specTree = makeTree([makeNode(4), makeNode(5)], {
+    type: "spec",
+    pointBudget: 1,
+  });
+  // Hero: one fixed node + one 2-way choice, budget 2 → 2 builds
+  const heroA = makeTree(
+    [
+      makeNode(6),
+      makeNode(7, {
+        type: "choice",
+        entries: [makeEntry(700), makeEntry(701)],
+      }),
+    ],
+    { type: "hero", pointBudget: 2, subTreeId: 10, subTreeName: "Alpha" },
+  );
+  const heroB = makeTree([makeNode(8)], {
+    type: "hero",
+    pointBudget: 1,
+    subTreeId: 11,
+    subTreeName: "Beta",
+  });
+  return makeSpec({
+    classTree,
+    specTree,
+    heroTrees: [heroA, heroB],
+    subTreeNodes: [
+      { id: 99, entries: [{ traitSubTreeId: 10 }, { traitSubTreeId: 11 }] },
+    ],
+  });
+}
+
+function loadout(overrides: Partial<Loadout> = {}): Loadout {
+  return {
+    version: 2,
+    className: "Mage",
+    specName: "Fire",
+    nodes: [],
+    constraints: [],
+    ...overrides,
+  };
+}
+
+describe("countLoadout", () => {
+  it("multiplies per-tree counts and defaults to the first hero tree", () => {
+    const report = countLoadout([mageSpec()], loadout());
+    expect(report.heroTreeName).toBe("Alpha");
+    expect(report.trees.map((t) => t.count)).toEqual([3n, 2n, 2n]);
+    expect(report.total).toBe(12n);
+  });
+
+  it("applies saved constraints and the named hero tree", () => {
+    const report = countLoadout(
+      [mageSpec()],
+      loadout({
+        heroTreeName: "Beta",
+        constraints: [{ nodeId: 1, type: "never" }],
+      }),
+    );
+    expect(report.trees.map((t) => t.count)).toEqual([1n, 2n, 1n]);
+    expect(formatCountReport(report)).toContain("total: 2");
+  });
+
+  it("applies saved tree rules", () => {
+    const spec = mageSpec();
+    const report = countLoadout(
+      [spec],
+      loadout({
+        rules: [
+          {
+            tree: "class",
+            expr: { op: "TALENT_SELECTED", nodeId: 1, negated: true },
+          },
+        ],
+      }),
+    );
+    expect(report.trees.map((t) => t.count)).toEqual([1n, 2n, 2n]);
+    // The rules apply to this count only, not to the shared spec data
+    expect(spec.classTree.rules).toBeUndefined();
+  });
+
+  it("applies saved spend targets", () => {
+    // Spending no class points leaves the one empty class build
+    const report = countLoadout(
+      [mageSpec()],
+      loadout({ spend: [{ tree: "class", target: { total: 0 } }] }),
+    );
+    expect(report.trees.map((t) => t.count)).toEqual([1n, 2n, 2n]);
+  });
+
+  it("throws for a spec missing from the data", () => {
+    expect(() =>
+      countLoadout([mageSpec()], loadout({ specName: "Frost" })),
+    ).toThrow(/No talent data/);
+  });
+});
+
+describe("generateLoadout", () => {
+  it("emits one profileset per class × spec × hero combination", () => {
+    const output = generateLoadout([mageSpec()], loadout(), {
+      format: "simc",
+    });
+    const heads = output
+      .split("\n")
+      .filter((l) => l.startsWith("profileset.") && !l.includes("+="));
+    expect(heads).toHaveLength(12);
+    expect(output).toContain("profileset.build_0000=class_talents=");
+    expect(output).toContain("profileset.build_0011+=hero_talents=");
+  });
+
+  it("samples down to the limit instead of failing", () => {
+    const output = generateLoadout([mageSpec()], loadout(), {
+      format: "simc",
+      sampling: { mode: "random", limit: 5, seed: 3 },
+    });
+    const heads = output
+      .split("\n")
+      .filter((l) => l.startsWith("profileset.") && !l.includes("+="));
+    expect(heads).toHaveLength(5);
+    expect(new Set(heads).size).toBe(5);
+  });
+
+  it("requires a node in the spec to stratify on", () => {
+    const generate = (stratifyNodeId?: number) => () =>
+      generateLoadout([mageSpec()], loadout(), {
+        format: "simc",
+        sampling: { mode: "stratified", limit: 5, stratifyNodeId },
+      });
+    expect(generate()).toThrow(/needs a talent to stratify on/);
+    expect(generate(404)).toThrow(/Can't stratify on node 404/);
+    expect(generate(7)).not.toThrow();
+  });
+
+  it("requires a reference string for hash output", () => {
+    expect(() =>
+      generateLoadout([mageSpec()], loadout(), { format: "hash" }),
+    ).toThrow(/--reference/);
+  });
+
+  it("hash output decodes back to the same spec and hero tree", () => {
+    const spec = mageSpec();
+    const output = generateLoadout([spec], loadout({ heroTreeName: "Beta" }), {
+      format: "hash",
+      reference: referenceHash(),
+    });
+    const first = output.split("\n")[0].split("talents=")[1];
+    const decoded = decodeToLoadout([spec], first);
+    expect(decoded.specName).toBe("Fire");
+    expect(decoded.heroTreeName).toBe("Beta");
+    expect(decoded.constraints.map((c) => c.nodeId)).toContain(8);
+  });
+});
@@ -1,14 +1,14 @@
 import { describe, it, expect } from "vitest";
 import { readFileSync, existsSync } from "fs";
 import { parseSpecializations } from "../../src/main/data/parser";
-import { decodeTalentHash } from "../../src/renderer/hash-decoder";
-import type { HashDecodeResult } from "../../src/renderer/hash-decoder";
+import { decodeTalentHash } from "../../src/shared/hash-decoder";
+import type { HashDecodeResult } from "../../src/shared/hash-decoder";
 import {
   encodeTalentHash,
   buildEntryLookup,
   buildAllNodesForSpec,
-} from "../../src/renderer/hash-encoder";
-import type { NodeSelection } from "../../src/renderer/hash-encoder";
+} from "../../src/shared/hash-encoder";
+import type { NodeSelection } from "../../src/shared/hash-encoder";
 import type {
   RawSpecData,
   Specialization,
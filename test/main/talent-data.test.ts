@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CACHE_FILE_NAME,
+  SNAPSHOT_DIR_NAME,
+  parseTalentData,
+  pinSnapshot,
+  readSnapshotIndex,
+  storeSnapshot,
+  writeTalentFile,
+} from "../../src/main/data/cache-file";
+import { loadTalentData } from "../../src/cli/data";
+import type { RawSpecData } from "../../src/shared/types";
+
+function rawSpec(specName: string): RawSpecData {
+  return {
+    className: "Mage",
+    specName,
+    specId: 63,
+    classNodes: [],
+    specNodes: [],
+    heroNodes: [],
+    subTreeNodes: [],
+  };
+}
+
+let cacheDir: string;
+let snapshotDir: string;
+
+beforeEach(() => {
+  cacheDir = mkdtempSync(join(tmpdir(), "talent-data-"));
+  snapshotDir = join(cacheDir, SNAPSHOT_DIR_NAME);
+});
+
+afterEach(() => {
+  rmSync(cacheDir, { recursive: true, force: true });
+});
+
+describe("talent data snapshots", () => {
+  it("stores the same data once, under its content hash", () => {
+    const first = storeSnapshot(snapshotDir, [rawSpec("Fire")], "fetched");
+    const again = storeSnapshot(snapshotDir, [rawSpec("Fire")], "fetched");
+    const other = storeSnapshot(snapshotDir, [rawSpec("Frost")], "file", "a");
+    expect(again).toEqual(first);
+    expect(first.id).toMatch(/^[0-9a-f]{12}$/);
+    expect(other.id).not.toBe(first.id);
+    expect(readSnapshotIndex(snapshotDir).snapshots.map((s) => s.id)).toEqual([
+      other.id,
+      first.id,
+    ]);
+  });
+
+  it("prefers the named, then the pinned snapshot to the latest fetch", () => {
+    writeTalentFile(join(cacheDir, CACHE_FILE_NAME), [rawSpec("Arcane")]);
+    const fire = storeSnapshot(snapshotDir, [rawSpec("Fire")], "fetched");
+    const frost = storeSnapshot(snapshotDir, [rawSpec("Frost")], "fetched");
+    const load = (id?: string): string =>
+      loadTalentData(undefined, id, undefined, [cacheDir])[0].specName;
+
+    expect(load()).toBe("Arcane");
+    pinSnapshot(snapshotDir, fire.id);
+    expect(load()).toBe("Fire");
+    expect(load(frost.id.slice(0, 6))).toBe("Frost");
+    expect(() => load("zzz")).toThrow(/No talent data snapshot matches/);
+    expect(() => pinSnapshot(snapshotDir, "zzz")).toThrow(/Unknown/);
+  });
+
+  it("rejects files that are not talent data", () => {
+    expect(() => parseTalentData({ specs: [] })).toThrow(/non-empty list/);
+    expect(() => parseTalentData([rawSpec("Fire"), { id: 1 }])).toThrow(
+      /Entry 2/,
+    );
+    expect(parseTalentData([rawSpec("Fire")])).toHaveLength(1);
+  });
+});
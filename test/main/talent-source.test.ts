@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { createServer } from "http";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fetchTalentJSON } from "../../src/main/data/raidbots-client";
+import {
+  CACHE_FILE_NAME,
+  sourceCacheDir,
+  writeSelectedSource,
+  writeTalentFile,
+} from "../../src/main/data/cache-file";
+import { loadTalentData } from "../../src/cli/data";
+import { sourceKey, sourceLabel } from "../../src/shared/talent-source";
+import type { RawSpecData, TalentDataSource } from "../../src/shared/types";
+
+function rawSpec(specName: string): RawSpecData {
+  return {
+    className: "Mage",
+    specName,
+    specId: 63,
+    classNodes: [],
+    specNodes: [],
+    heroNodes: [],
+    subTreeNodes: [],
+  };
+}
+
+// Stands in for Raidbots: each channel serves a spec named after it
+const ROUTES: Record<string, unknown> = {
+  "/live/talents.json": [rawSpec("live")],
+  "/ptr/talents.json": [rawSpec("ptr")],
+  "/custom/data.json": [rawSpec("custom")],
+  "/not-talents.json": { hello: "world" },
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const body = ROUTES[req.url ?? ""];
+    res.statusCode = body ? 200 : 404;
+    res.end(body ? JSON.stringify(body) : "");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("fetchTalentJSON", () => {
+  it("fetches Raidbots channels and custom URLs", async () => {
+    const specName = async (
+      ...args: Parameters<typeof fetchTalentJSON>
+    ): Promise<string> => (await fetchTalentJSON(...args))[0].specName;
+
+    expect(await specName({ kind: "ptr" }, fetch, baseUrl)).toBe("ptr");
+    expect(await specName({ kind: "live" }, fetch, baseUrl)).toBe("live");
+    expect(
+      await specName({ kind: "url", url: `${baseUrl}/custom/data.json` }),
+    ).toBe("custom");
+  });
+
+  it("fails on missing or malformed data", async () => {
+    await expect(
+      fetchTalentJSON({ kind: "beta" }, fetch, baseUrl),
+    ).rejects.toThrow("Beta returned 404");
+    await expect(
+      fetchTalentJSON({ kind: "url", url: `${baseUrl}/not-talents.json` }),
+    ).rejects.toThrow(/non-empty list/);
+  });
+
+  it("reads file sources from disk", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "talent-source-"));
+    try {
+      const path = join(dir, "talents.json");
+      writeFileSync(path, JSON.stringify([rawSpec("file")]));
+      const data = await fetchTalentJSON({ kind: "file", path });
+      expect(data[0].specName).toBe("file");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("talent data sources", () => {
+  it("names sources for display and cache directories", () => {
+    const url = { kind: "url" as const, url: "https://example.com/t.json" };
+    expect(sourceLabel({ kind: "ptr" })).toBe("PTR");
+    expect(sourceLabel(url)).toBe("example.com");
+    expect(sourceKey(url)).toBe("url-example-com-t-json-e6a56974");
+    expect(sourceLabel({ kind: "file", path: "/tmp/11.2/talents.json" })).toBe(
+      "talents.json",
+    );
+  });
+
+  it("keeps sources apart that slug alike", () => {
+    const key = (url: string): string => sourceKey({ kind: "url", url });
+    expect(key("http://example.com/t.json")).not.toBe(
+      key("https://example.com/t.json"),
+    );
+    expect(key("https://example.com/t.json?v=1")).not.toBe(
+      key("https://example.com/t.json/v/1"),
+    );
+  });
+
+  it("caches each source separately", () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), "talent-cache-"));
+    try {
+      for (const kind of ["live", "ptr"] as const) {
+        const dir = sourceCacheDir(cacheDir, { kind });
+        mkdirSync(dir, { recursive: true });
+        writeTalentFile(join(dir, CACHE_FILE_NAME), [rawSpec(kind)]);
+      }
+      const load = (source?: TalentDataSource): string =>
+        loadTalentData(undefined, undefined, source, [cacheDir])[0].specName;
+
+      expect(load()).toBe("live");
+      expect(load({ kind: "ptr" })).toBe("ptr");
+      writeSelectedSource(cacheDir, { kind: "ptr" });
+      expect(load()).toBe("ptr");
+      expect(load({ kind: "live" })).toBe("live");
+    } finally {
+      rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+});
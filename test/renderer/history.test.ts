@@ -0,0 +1,221 @@
+import { beforeEach, describe, it, expect } from "vitest";
+import { CommandHistory, HISTORY_LIMIT } from "../../src/renderer/history";
+import type { Command } from "../../src/renderer/history";
+import { state } from "../../src/renderer/state";
+import type { Specialization, TalentDataResult } from "../../src/shared/types";
+import {
+  makeBuild,
+  makeNode,
+  makeSpec,
+  makeTree,
+} from "../solver/test-helpers";
+
+function command(label: string, log: string[] = []): Command {
+  return {
+    label,
+    undo: () => log.push(`undo ${label}`),
+    redo: () => log.push(`redo ${label}`),
+  };
+}
+
+describe("CommandHistory", () => {
+  it("undoes and redoes in order", () => {
+    const log: string[] = [];
+    const history = new CommandHistory();
+    history.push(command("a", log));
+    history.push(command("b", log));
+
+    expect(history.undo()?.label).toBe("b");
+    expect(history.undo()?.label).toBe("a");
+    expect(history.undo()).toBeNull();
+    expect(history.future.map((c) => c.label)).toEqual(["a", "b"]);
+    expect(history.redo()?.label).toBe("a");
+    expect(log).toEqual(["undo b", "undo a", "redo a"]);
+  });
+
+  it("clears the redo stack when a new command is pushed", () => {
+    const history = new CommandHistory();
+    history.push(command("a"));
+    history.push(command("b"));
+    history.undo();
+    history.push(command("c"));
+    expect(history.future).toEqual([]);
+    expect(history.past.map((c) => c.label)).toEqual(["a", "c"]);
+  });
+
+  it("drops the oldest commands past the limit", () => {
+    const history = new CommandHistory();
+    for (let i = 0; i <= HISTORY_LIMIT; i++) history.push(command(`${i}`));
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].label).toBe("1");
+  });
+});
+
+function mageSpec(): Specialization {
+  return makeSpec({
+    classTree: makeTree([makeNode(1), makeNode(2)]),
+    specTree: makeTree([makeNode(3), makeNode(4)], { type: "spec" }),
+    heroTrees: [
+      makeTree([makeNode(5)], { type: "hero", subTreeId: 50 }),
+      makeTree([makeNode(6)], { type: "hero", subTreeId: 60 }),
+    ],
+  });
+}
+
+function loadSpec(spec: Specialization): void {
+  const data: TalentDataResult = {
+    specs: [spec],
+    version: "test",
+    cached: false,
+    snapshot: { id: "test", savedAt: "", source: "fetched" },
+    source: { kind: "live" },
+  };
+  state.setSpecs(data);
+  state.selectSpec(spec);
+}
+
+describe("undo history of the app state", () => {
+  let spec: Specialization;
+
+  beforeEach(() => {
+    spec = mageSpec();
+    loadSpec(spec);
+  });
+
+  it("round-trips constraints, rules, spend and hero trees", () => {
+    const [sunfury, frostfire] = spec.heroTrees;
+    state.selectHeroTree(sunfury);
+    state.setConstraint({ nodeId: 5, type: "always" });
+    state.setConstraint({ nodeId: 1, type: "never" });
+    state.setRule(spec.classTree, { op: "TALENT_SELECTED", nodeId: 2 });
+    state.setSpendTarget(spec.specTree, { total: 1 });
+    state.selectHeroTree(frostfire);
+    const steps = state.undoStack.length;
+
+    for (let i = 0; i < steps; i++) state.undo();
+    expect(state.activeHeroTree).toBeNull();
+    expect(state.constraints.size).toBe(0);
+    expect(state.rulesFor(spec.classTree)).toBeUndefined();
+    expect(state.spendFor(spec.specTree)).toBeUndefined();
+
+    for (let i = 0; i < steps; i++) state.redo();
+    expect(state.activeHeroTree).toBe(frostfire);
+    expect([...state.constraints.keys()]).toEqual([1]);
+    expect(state.rulesFor(spec.classTree)).toHaveLength(1);
+    expect(state.spendFor(spec.specTree)).toEqual({ total: 1 });
+
+    // Sunfury's picks were put aside when switching and come back with it
+    state.selectHeroTree(sunfury);
+    expect(state.constraints.get(5)?.type).toBe("always");
+  });
+
+  it("keeps rules and spend off the parsed trees", () => {
+    const [sunfury, frostfire] = spec.heroTrees;
+    state.selectHeroTree(sunfury);
+    state.setRule(sunfury, { op: "TALENT_SELECTED", nodeId: 5 });
+    state.setSpendTarget(spec.classTree, { total: 1 });
+    expect(sunfury.rules).toBeUndefined();
+    expect(spec.classTree.spend).toBeUndefined();
+    expect(state.activeTrees.map((tree) => tree.spend)).toEqual([
+      { total: 1 },
+      undefined,
+      undefined,
+    ]);
+
+    // Each hero tree keeps its own rules
+    state.selectHeroTree(frostfire);
+    expect(state.rulesFor(frostfire)).toBeUndefined();
+    expect(state.resolveTree(sunfury).rules).toHaveLength(1);
+    state.selectHeroTree(sunfury);
+    expect(state.rulesFor(sunfury)).toHaveLength(1);
+  });
+
+  it("clears the hero tree when undoing back to none", () => {
+    state.selectHeroTree(spec.heroTrees[0]);
+    state.undo();
+    expect(state.activeHeroTree).toBeNull();
+    state.redo();
+    expect(state.activeHeroTree).toBe(spec.heroTrees[0]);
+  });
+
+  it("undoes a talent string import as one step", () => {
+    state.setConstraint({ nodeId: 2, type: "always" });
+    // What importing a talent string does: reselect the spec, then apply
+    state.record("Import talent hash", () => {
+      state.selectSpec(spec);
+      state.selectHeroTree(spec.heroTrees[1]);
+      state.setConstraint({ nodeId: 1, type: "always" });
+      state.setConstraint({ nodeId: 6, type: "always" });
+    });
+    expect(state.undoStack.map((c) => c.label)).toEqual([
+      "Always Node 2",
+      "Import talent hash",
+    ]);
+
+    state.undo();
+    expect([...state.constraints.keys()]).toEqual([2]);
+    expect(state.activeHeroTree).toBeNull();
+    state.redo();
+    expect([...state.constraints.keys()].sort()).toEqual([1, 6]);
+    expect(state.activeHeroTree).toBe(spec.heroTrees[1]);
+  });
+
+  it("undoes a loadout load, rules and spend included, as one step", () => {
+    state.record("Load loadout", () => {
+      state.selectSpec(spec);
+      state.selectHeroTree(spec.heroTrees[0]);
+      state.setConstraint({ nodeId: 3, type: "never" });
+      state.setRule(spec.specTree, { op: "TALENT_SELECTED", nodeId: 4 });
+      state.setSpendTarget(spec.classTree, { total: 1 });
+    });
+    expect(state.undoStack.map((c) => c.label)).toEqual(["Load loadout"]);
+
+    state.undo();
+    expect(state.constraints.size).toBe(0);
+    expect(state.rulesFor(spec.specTree)).toBeUndefined();
+    expect(state.spendFor(spec.classTree)).toBeUndefined();
+    state.redo();
+    expect(state.constraints.get(3)?.type).toBe("never");
+    expect(state.rulesFor(spec.specTree)).toHaveLength(1);
+    expect(state.spendFor(spec.classTree)).toEqual({ total: 1 });
+  });
+});
+
+describe("workspace tabs", () => {
+  it("keep their own results and rounds across specs", () => {
+    const fire = mageSpec();
+    const frost: Specialization = { ...mageSpec(), specName: "Frost" };
+    loadSpec(fire);
+    const named = {
+      name: "build_1",
+      trees: [fire.classTree],
+      builds: [makeBuild(1)],
+    };
+    state.setExportedBuilds([named]);
+    state.setSimResults([{ ...named, dps: 100 }]);
+    state.addRound({
+      round: 1,
+      date: "",
+      simmedBuilds: 1,
+      topN: 1,
+      bestDps: 100,
+      added: [],
+    });
+
+    state.addTab("Frost", false);
+    state.selectSpec(frost);
+    expect(state.simResults).toEqual([]);
+    expect(state.rounds).toEqual([]);
+
+    state.switchTab(0);
+    expect(state.activeSpec).toBe(fire);
+    expect(state.exportedBuilds.get("build_1")).toBe(named);
+    expect(state.simResults[0].dps).toBe(100);
+    expect(state.rounds).toHaveLength(1);
+
+    state.switchTab(1);
+    expect(state.activeSpec).toBe(frost);
+    expect(state.simResults).toEqual([]);
+    expect(state.exportedBuilds.size).toBe(0);
+  });
+});
@@ -1,6 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { countTreeBuilds } from "../../src/shared/build-counter";
-import type { Constraint, BooleanExpr } from "../../src/shared/types";
+import {
+  countTreeBuilds,
+  generateTreeBuilds,
+} from "../../src/shared/build-counter";
+import {
+  CARDINALITY_OPS,
+  cardinalityMet,
+} from "../../src/shared/cardinality";
+import type {
+  Constraint,
+  BooleanExpr,
+  CardinalityExpr,
+} from "../../src/shared/types";
 import { makeEntry, makeNode, makeTree } from "./test-helpers";
 
 describe("tiered nodes (parsed as single)", () => {
@@ -106,6 +117,59 @@ describe("fully-constrained tree", () => {
   });
 });
 
+describe("rank ranges", () => {
+  // 3-rank node 1 plus single-rank 2, 3, 4; spend 3 points
+  const tree = makeTree(
+    [
+      makeNode(1, { maxRanks: 3, entries: [makeEntry(100, 3)] }),
+      makeNode(2),
+      makeNode(3),
+      makeNode(4),
+    ],
+    { pointBudget: 3 },
+  );
+
+  function ranksOfNode1(constraint: Constraint): number[] {
+    const constraints = new Map([[1, constraint]]);
+    return generateTreeBuilds(tree, constraints)
+      .map((b) => b.entries.get(100) ?? 0)
+      .sort();
+  }
+
+  it("minRank: 2 or 3 ranks, never 0 or 1", () => {
+    const constraint: Constraint = { nodeId: 1, type: "always", minRank: 2 };
+    // Rank 2 + one of three, or rank 3 alone
+    expect(countTreeBuilds(tree, new Map([[1, constraint]])).count).toBe(4n);
+    expect(ranksOfNode1(constraint)).toEqual([2, 2, 2, 3]);
+  });
+
+  it("maxRank: at most 2 ranks", () => {
+    const constraint: Constraint = { nodeId: 1, type: "always", maxRank: 2 };
+    // Rank 1 + two of three, or rank 2 + one of three
+    expect(countTreeBuilds(tree, new Map([[1, constraint]])).count).toBe(6n);
+    expect(ranksOfNode1(constraint)).toEqual([1, 1, 1, 2, 2, 2]);
+  });
+
+  it("bounds the ranks of a conditional target when taken", () => {
+    const constraint: Constraint = {
+      nodeId: 1,
+      type: "conditional",
+      condition: { op: "TALENT_SELECTED", nodeId: 2 },
+      maxRank: 1,
+    };
+    // {2,3,4} takes 2 without 1; rank 1 + two of three is all that's left
+    expect(ranksOfNode1(constraint)).toEqual([1, 1, 1]);
+    expect(countTreeBuilds(tree, new Map([[1, constraint]])).count).toBe(3n);
+  });
+
+  it("range: skips the node or bounds its ranks", () => {
+    const constraint: Constraint = { nodeId: 1, type: "range", maxRank: 1 };
+    // {2,3,4} without 1, or rank 1 + two of three
+    expect(ranksOfNode1(constraint)).toEqual([0, 1, 1, 1]);
+    expect(countTreeBuilds(tree, new Map([[1, constraint]])).count).toBe(4n);
+  });
+});
+
 describe("conditional constraints", () => {
   function sel(nodeId: number): BooleanExpr {
     return { op: "TALENT_SELECTED", nodeId };
@@ -387,6 +451,103 @@ describe("conditional constraints", () => {
   });
 });
 
+describe("cardinality conditions", () => {
+  // Nodes 1–4 plus target 5, budget 3: every 3-subset of the five nodes is
+  // a build. "Take 5 when <op> <count> of 1–4 are taken", checked against
+  // brute force over those subsets.
+  function bruteForce(expr: CardinalityExpr): bigint {
+    let valid = 0n;
+    for (let mask = 0; mask < 32; mask++) {
+      const ids = [1, 2, 3, 4, 5].filter((_, i) => mask & (1 << i));
+      if (ids.length !== 3) continue;
+      const taken = expr.nodeIds.filter((id) => ids.includes(id)).length;
+      if (cardinalityMet(expr, taken) && !ids.includes(5)) continue;
+      valid++;
+    }
+    return valid;
+  }
+
+  for (const op of CARDINALITY_OPS) {
+    for (const count of [0, 1, 2, 3]) {
+      it(`${op} ${count} of four matches brute force`, () => {
+        const tree = makeTree([1, 2, 3, 4, 5].map((id) => makeNode(id)), {
+          pointBudget: 3,
+        });
+        const condition: CardinalityExpr = {
+          op,
+          nodeIds: [1, 2, 3, 4],
+          count,
+        };
+        const constraints = new Map<number, Constraint>([
+          [5, { nodeId: 5, type: "conditional", condition }],
+        ]);
+        expect(countTreeBuilds(tree, constraints).count).toBe(
+          bruteForce(condition),
+        );
+      });
+    }
+  }
+
+  it("nests inside AND/OR", () => {
+    // If (exactly 2 of 1–3) or 4 → 5. Budget 3 over five nodes: 10 builds.
+    // Of the four without 5, {1,2,4}, {1,3,4} and {2,3,4} meet the condition
+    // and are invalid; {1,2,3} takes three of 1–3, so it stays. Count = 7.
+    const tree = makeTree([1, 2, 3, 4, 5].map((id) => makeNode(id)), {
+      pointBudget: 3,
+    });
+    const condition: BooleanExpr = {
+      op: "OR",
+      children: [
+        { op: "EXACTLY", nodeIds: [1, 2, 3], count: 2 },
+        { op: "TALENT_SELECTED", nodeId: 4 },
+      ],
+    };
+    const constraints = new Map<number, Constraint>([
+      [5, { nodeId: 5, type: "conditional", condition }],
+    ]);
+    expect(countTreeBuilds(tree, constraints).count).toBe(7n);
+  });
+});
+
+describe("tree-level rules", () => {
+  // Four independent nodes, budget 2: C(4,2) = 6 builds without rules
+  function fourNodes(rules: BooleanExpr[]) {
+    return makeTree([1, 2, 3, 4].map((id) => makeNode(id)), {
+      pointBudget: 2,
+      rules,
+    });
+  }
+
+  it("'not both A and B' drops the one build taking both", () => {
+    const tree = fourNodes([
+      {
+        op: "OR",
+        children: [
+          { op: "TALENT_SELECTED", nodeId: 1, negated: true },
+          { op: "TALENT_SELECTED", nodeId: 2, negated: true },
+        ],
+      },
+    ]);
+    expect(countTreeBuilds(tree, new Map()).count).toBe(5n);
+  });
+
+  it("combines rules with node constraints", () => {
+    // Exactly one of A, B and never C: {A,D}, {B,D}
+    const tree = fourNodes([{ op: "EXACTLY", nodeIds: [1, 2], count: 1 }]);
+    const constraints = new Map<number, Constraint>([
+      [3, { nodeId: 3, type: "never" }],
+    ]);
+    expect(countTreeBuilds(tree, constraints).count).toBe(2n);
+  });
+
+  it("ignores rules reaching into other trees, with a warning", () => {
+    const tree = fourNodes([{ op: "TALENT_SELECTED", nodeId: 99 }]);
+    const result = countTreeBuilds(tree, new Map());
+    expect(result.count).toBe(6n);
+    expect(result.warnings.map((w) => w.message).join()).toMatch(/rules/);
+  });
+});
+
 describe("entry-conditional constraints", () => {
   it("one entry gated: entry 300 only available when X taken", () => {
     // X (id=1), C (id=2, choice: 300, 301) — budget 2.
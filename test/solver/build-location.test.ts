@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { buildFromPicks, locateBuild } from "../../src/shared/build-location";
+import { generateTreeBuilds } from "../../src/shared/build-counter";
+import type { Constraint } from "../../src/shared/types";
+import { makeEntry, makeNode, makeTree } from "./test-helpers";
+
+// Class: 3 independent nodes, budget 2 → 3 builds.
+// Spec: a 2-way choice plus a 2-rank node, budget 2 → 3 builds.
+function makeTrees() {
+  const classTree = makeTree([makeNode(1), makeNode(2), makeNode(3)], {
+    type: "class",
+    pointBudget: 2,
+  });
+  const specTree = makeTree(
+    [
+      makeNode(4, {
+        type: "choice",
+        entries: [makeEntry(400), makeEntry(401)],
+      }),
+      makeNode(5, { maxRanks: 2, entries: [makeEntry(500, 2)] }),
+    ],
+    { type: "spec", pointBudget: 2 },
+  );
+  return [classTree, specTree];
+}
+
+function pick(nodeId: number, extra: Partial<Constraint> = {}): Constraint {
+  return { nodeId, type: "always", ...extra };
+}
+
+describe("buildFromPicks", () => {
+  it("uses the pinned entry and rank, else max rank", () => {
+    const [, specTree] = makeTrees();
+    const build = buildFromPicks(specTree, [
+      pick(4, { entryIndex: 1 }),
+      pick(5),
+      pick(1),
+    ]);
+    expect([...build.entries]).toEqual([
+      [401, 1],
+      [500, 2],
+    ]);
+  });
+});
+
+describe("locateBuild", () => {
+  it("ranks builds in class × spec export order", () => {
+    const trees = makeTrees();
+    const constraints = new Map<number, Constraint>();
+    const classBuilds = generateTreeBuilds(trees[0], constraints);
+    const specBuilds = generateTreeBuilds(trees[1], constraints);
+
+    const location = locateBuild(trees, constraints, [
+      classBuilds[2],
+      specBuilds[1],
+    ]);
+    expect(location).toEqual({ included: true, rank: 7n, total: 9n });
+  });
+
+  it("names the constraint that excludes the build", () => {
+    const trees = makeTrees();
+    const constraints = new Map<number, Constraint>([
+      [4, { nodeId: 4, type: "always", entryIndex: 0 }],
+    ]);
+    const picks = [
+      pick(1),
+      pick(2),
+      pick(4, { entryIndex: 1 }),
+      pick(5, { exactRank: 1 }),
+    ];
+    const location = locateBuild(
+      trees,
+      constraints,
+      trees.map((t) => buildFromPicks(t, picks)),
+    );
+    expect(location).toEqual({
+      included: false,
+      reason: '"Node 4" pinned to Entry 400',
+      nodeId: 4,
+    });
+  });
+
+  it("names a rank range the build is outside", () => {
+    const trees = makeTrees();
+    const constraints = new Map<number, Constraint>([
+      [5, { nodeId: 5, type: "range", maxRank: 1 }],
+    ]);
+    const picks = [pick(1), pick(2), pick(5)];
+    const location = locateBuild(
+      trees,
+      constraints,
+      trees.map((t) => buildFromPicks(t, picks)),
+    );
+    expect(location).toEqual({
+      included: false,
+      reason: '"Node 5" pinned to rank 0–1',
+      nodeId: 5,
+    });
+  });
+
+  it("falls back to budget and prerequisites when no constraint applies", () => {
+    const trees = makeTrees();
+    const location = locateBuild(trees, new Map(), [
+      buildFromPicks(trees[0], [pick(1)]),
+      buildFromPicks(trees[1], [pick(5)]),
+    ]);
+    expect(location.included).toBe(false);
+    expect(location).not.toHaveProperty("nodeId");
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { findConflict } from "../../src/shared/conflict";
+import type { Constraint } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+function constraints(...list: Constraint[]): Map<number, Constraint> {
+  return new Map(list.map((c) => [c.nodeId, c]));
+}
+
+describe("findConflict", () => {
+  // 1 → 5 beside five free-standing nodes; 3 of 7 points spent
+  const tree = () =>
+    makeTree(
+      [
+        makeNode(1, { next: [5] }),
+        makeNode(2),
+        makeNode(3),
+        makeNode(4),
+        makeNode(5, { prev: [1] }),
+        makeNode(6),
+        makeNode(7),
+      ],
+      { pointBudget: 3 },
+    );
+
+  it("returns null while builds remain", () => {
+    expect(
+      findConflict(tree(), constraints({ nodeId: 1, type: "always" })),
+    ).toBeNull();
+  });
+
+  it("keeps only the constraints that over-spend the budget", () => {
+    const conflict = findConflict(
+      tree(),
+      constraints(
+        { nodeId: 2, type: "always" },
+        { nodeId: 4, type: "never" },
+        { nodeId: 3, type: "always" },
+        { nodeId: 5, type: "always" },
+      ),
+    );
+    expect(conflict?.severity).toBe("error");
+    expect(conflict?.nodeIds).toEqual([2, 3, 5]);
+    expect(conflict?.message).toContain("relax one of them");
+  });
+
+  it("finds a blocked prerequisite behind conditionals", () => {
+    const conflict = findConflict(
+      tree(),
+      constraints(
+        { nodeId: 2, type: "never" },
+        { nodeId: 1, type: "never" },
+        {
+          nodeId: 5,
+          type: "conditional",
+          condition: { op: "TALENT_SELECTED", nodeId: 3 },
+        },
+        { nodeId: 3, type: "always" },
+      ),
+    );
+    expect(conflict?.nodeIds).toEqual([1, 5, 3]);
+  });
+
+  it("blames the tree when its rules alone leave nothing", () => {
+    const ruled = tree();
+    ruled.rules = [{ op: "AT_MOST", nodeIds: [1, 2, 3, 4, 6, 7], count: 1 }];
+    const conflict = findConflict(ruled, new Map());
+    expect(conflict?.nodeIds).toBeUndefined();
+    expect(conflict?.message).toContain("rules");
+  });
+});
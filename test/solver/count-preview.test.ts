@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { countTreeBuilds } from "../../src/shared/build-counter";
+import { previewNodeCounts } from "../../src/shared/count-preview";
+import type { Constraint } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+describe("previewNodeCounts", () => {
+  // 1 → 2 beside 3 and 4; 2 of 4 points spent
+  const tree = makeTree(
+    [
+      makeNode(1, { next: [2] }),
+      makeNode(2, { prev: [1] }),
+      makeNode(3),
+      makeNode(4),
+    ],
+    { pointBudget: 2 },
+  );
+
+  it("reads an unconstrained node off the selection counts", () => {
+    const current = countTreeBuilds(tree, new Map(), { selections: true });
+    expect(current.count).toBe(4n);
+    expect(previewNodeCounts(tree, new Map(), 1, current)).toEqual({
+      always: 3n,
+      never: 1n,
+    });
+    expect(previewNodeCounts(tree, new Map(), 2)).toEqual({
+      always: 1n,
+      never: 3n,
+    });
+  });
+
+  it("counts afresh when the node is already constrained", () => {
+    const constraints = new Map<number, Constraint>([
+      [
+        2,
+        {
+          nodeId: 2,
+          type: "conditional",
+          condition: { op: "TALENT_SELECTED", nodeId: 1 },
+        },
+      ],
+    ]);
+    const current = countTreeBuilds(tree, constraints, { selections: true });
+    expect(current.count).toBe(2n);
+    // Never replaces the condition, so {1, 3} and {1, 4} come back
+    expect(previewNodeCounts(tree, constraints, 2, current)).toEqual({
+      always: 1n,
+      never: 3n,
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { generateTreeBuilds } from "../../src/shared/build-counter";
+import { locateBuild } from "../../src/shared/build-location";
+import {
+  countAcrossTrees,
+  hasCrossTreeConditions,
+} from "../../src/shared/cross-tree";
+import { sampleBuilds } from "../../src/shared/sampling";
+import {
+  checkConstraints,
+  checkRules,
+} from "../../src/worker/solver/constraints";
+import type {
+  Build,
+  BooleanExpr,
+  Constraint,
+  TalentTree,
+} from "../../src/shared/types";
+import { makeEntry, makeNode, makeTree } from "./test-helpers";
+
+function sel(nodeId: number, negated = false): BooleanExpr {
+  return negated
+    ? { op: "TALENT_SELECTED", nodeId, negated }
+    : { op: "TALENT_SELECTED", nodeId };
+}
+
+// Class: 1, 2, 3 with budget 2 (3 builds). Spec: 4, 5 with budget 1
+// (2 builds). Hero: 6 plus a choice node 7 (700 / 701), budget 2 (2 builds).
+function makeTrees(): TalentTree[] {
+  return [
+    makeTree([makeNode(1), makeNode(2), makeNode(3)], {
+      type: "class",
+      pointBudget: 2,
+    }),
+    makeTree([makeNode(4), makeNode(5)], { type: "spec", pointBudget: 1 }),
+    makeTree(
+      [
+        makeNode(6),
+        makeNode(7, {
+          type: "choice",
+          entries: [makeEntry(700), makeEntry(701)],
+        }),
+      ],
+      { type: "hero", pointBudget: 2 },
+    ),
+  ];
+}
+
+/** Every combination of unconstrained builds that satisfies everything. */
+function bruteForce(
+  trees: TalentTree[],
+  constraints: Map<number, Constraint>,
+): Build[][] {
+  let combos: Build[][] = [[]];
+  for (const tree of trees) {
+    const builds = generateTreeBuilds({ ...tree, rules: [] }, new Map());
+    combos = combos.flatMap((combo) => builds.map((b) => [...combo, b]));
+  }
+  const rules = trees.flatMap((t) => t.rules ?? []);
+  return combos.filter((combo) => {
+    const selected = new Map<number, number>();
+    const entries = new Map<number, number>();
+    for (const [i, build] of combo.entries()) {
+      for (const node of trees[i].nodes.values()) {
+        for (const entry of node.entries) {
+          const points = build.entries.get(entry.id) ?? 0;
+          if (points === 0) continue;
+          selected.set(node.id, points);
+          entries.set(entry.id, points);
+        }
+      }
+    }
+    return (
+      checkConstraints(constraints, selected, entries) &&
+      checkRules(rules, selected, entries)
+    );
+  });
+}
+
+function conditional(nodeId: number, condition: BooleanExpr): Constraint {
+  return { nodeId, type: "conditional", condition };
+}
+
+describe("countAcrossTrees", () => {
+  it("is the per-tree product without cross-tree conditions", () => {
+    const trees = makeTrees();
+    const constraints = new Map([[1, conditional(1, sel(2))]]);
+    expect(hasCrossTreeConditions(trees, constraints)).toBe(false);
+    // Class: {1,2}, {2,3} → 2 × 2 × 2
+    expect(countAcrossTrees(trees, constraints)).toBe(8n);
+  });
+
+  it("counts a class talent conditioned on a spec talent exactly", () => {
+    const trees = makeTrees();
+    const constraints = new Map([[1, conditional(1, sel(4))]]);
+    expect(hasCrossTreeConditions(trees, constraints)).toBe(true);
+    // Spec 4: class must take 1 (2 builds); spec 5: any class build (3)
+    expect(countAcrossTrees(trees, constraints)).toBe(10n);
+    expect(countAcrossTrees(trees, constraints)).toBe(
+      BigInt(bruteForce(trees, constraints).length),
+    );
+  });
+
+  it("matches brute force for rules, entries and cardinality", () => {
+    const trees = makeTrees();
+    // Skip spec 4 when class 1 is taken
+    trees[1].rules = [{ op: "OR", children: [sel(1, true), sel(4, true)] }];
+    // At most one of class 2 and 3
+    trees[0].rules = [{ op: "AT_MOST", nodeIds: [2, 3], count: 1 }];
+    const constraints = new Map([
+      [
+        5,
+        conditional(5, {
+          op: "AND",
+          children: [
+            sel(3),
+            { op: "TALENT_SELECTED", nodeId: 7, entryId: 701 },
+          ],
+        }),
+      ],
+    ]);
+    expect(countAcrossTrees(trees, constraints)).toBe(
+      BigInt(bruteForce(trees, constraints).length),
+    );
+  });
+
+  it("treats talents of trees that aren't counted as not taken", () => {
+    const trees = makeTrees();
+    // Node 99 belongs to another hero tree, so the condition never holds
+    const constraints = new Map([[1, conditional(1, sel(99))]]);
+    expect(countAcrossTrees(trees, constraints)).toBe(12n);
+  });
+});
+
+describe("cross-tree generation", () => {
+  it("samples and locates exactly the valid combinations", () => {
+    const trees = makeTrees();
+    const constraints = new Map([
+      [1, conditional(1, sel(4))],
+      [6, conditional(6, sel(1))],
+    ]);
+    const expected = bruteForce(trees, constraints);
+    const [combos] = sampleBuilds([{ trees, constraints }], {
+      mode: "even",
+      limit: 100,
+    });
+
+    const key = (combo: Build[]) =>
+      combo
+        .map((b) => [...b.entries.keys()].sort((x, y) => x - y).join(","))
+        .join("|");
+    expect(combos.map(key).sort()).toEqual(expected.map(key).sort());
+
+    combos.forEach((combo, i) => {
+      expect(locateBuild(trees, constraints, combo)).toEqual({
+        included: true,
+        rank: BigInt(i),
+        total: BigInt(combos.length),
+      });
+    });
+  });
+});
@@ -323,6 +323,16 @@ describe("generateBuilds", () => {
     expect(result.builds).toHaveLength(3);
   });
 
+  it("honours tree-level rules", () => {
+    // 3 nodes, budget=2, rule "not 1": only {2,3}
+    const tree = makeTree([makeNode(1), makeNode(2), makeNode(3)], {
+      pointBudget: 2,
+      rules: [{ op: "TALENT_SELECTED", nodeId: 1, negated: true }],
+    });
+    const result = generateBuilds(tree, new Map());
+    expect(result.count).toBe(1);
+  });
+
   it("deduplicates identical builds", () => {
     const tree = makeTree([makeNode(1), makeNode(2), makeNode(3)], {
       pointBudget: 2,
@@ -382,4 +392,20 @@ describe("generateBuilds", () => {
     expect(result.count).toBe(1);
     expect(result.builds![0].entries.get(100)).toBe(2);
   });
+
+  it("respects minRank/maxRank ranges on multi-rank nodes", () => {
+    // node1 maxRanks=4 at 2–3 ranks, node2 maxRanks=1, budget=3
+    // → (2,1) or (3,0)
+    const tree = makeTree(
+      [makeNode(1, { maxRanks: 4, entries: [makeEntry(100, 4)] }), makeNode(2)],
+      { pointBudget: 3 },
+    );
+    const constraints = new Map<number, Constraint>([
+      [1, { nodeId: 1, type: "always", minRank: 2, maxRank: 3 }],
+    ]);
+    const result = generateBuilds(tree, constraints);
+    expect(result.count).toBe(2);
+    const ranks = result.builds!.map((b) => b.entries.get(100)).sort();
+    expect(ranks).toEqual([2, 3]);
+  });
 });
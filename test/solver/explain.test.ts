@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { explainNode } from "../../src/shared/explain";
+import type { Constraint } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+function constraints(...list: Constraint[]): Map<number, Constraint> {
+  return new Map(list.map((c) => [c.nodeId, c]));
+}
+
+describe("explainNode", () => {
+  // 1 → 2 → 3 chain beside four free-standing nodes; 3 of 7 points spent
+  const chainTree = () =>
+    makeTree(
+      [
+        makeNode(1, { next: [2] }),
+        makeNode(2, { prev: [1], next: [3] }),
+        makeNode(3, { prev: [2] }),
+        makeNode(4),
+        makeNode(5),
+        makeNode(6),
+        makeNode(7),
+      ],
+      { pointBudget: 3 },
+    );
+
+  it("returns null for a free choice", () => {
+    expect(explainNode(chainTree(), new Map(), 4)).toBeNull();
+  });
+
+  it("traces an implied node back through the prev chain", () => {
+    const explanation = explainNode(
+      chainTree(),
+      constraints(
+        { nodeId: 3, type: "always" },
+        { nodeId: 5, type: "never" },
+      ),
+      1,
+    );
+    expect(explanation?.forced).toBe("on");
+    expect(explanation?.nodeIds).toEqual([3]);
+    expect(explanation?.reasons).toEqual([
+      '"Node 3" can\'t be reached — all paths to it are blocked',
+    ]);
+  });
+
+  it("explains a node cut off by a blocked predecessor", () => {
+    const explanation = explainNode(
+      chainTree(),
+      constraints({ nodeId: 1, type: "never" }),
+      2,
+    );
+    expect(explanation?.forced).toBe("off");
+    expect(explanation?.nodeIds).toEqual([1]);
+    expect(explanation?.reasons[0]).toContain("can't be reached");
+  });
+
+  it("names every constraint needed to exhaust the budget", () => {
+    const tree = makeTree([1, 2, 3, 4].map((id) => makeNode(id)), {
+      pointBudget: 2,
+    });
+    const explanation = explainNode(
+      tree,
+      constraints(
+        { nodeId: 1, type: "always" },
+        { nodeId: 2, type: "always" },
+      ),
+      3,
+    );
+    expect(explanation?.forced).toBe("off");
+    expect(explanation?.nodeIds).toEqual([1, 2]);
+    expect(explanation?.reasons[0]).toContain("exceeds the 2-point budget");
+  });
+
+  it("explains points forced in front of a gate", () => {
+    const tree = makeTree(
+      [
+        makeNode(1),
+        makeNode(2),
+        makeNode(3, { row: 2, reqPoints: 2 }),
+        makeNode(4, { row: 2, reqPoints: 2 }),
+        makeNode(5),
+      ],
+      { pointBudget: 3, gates: [{ row: 2, requiredPoints: 2 }] },
+    );
+    const explanation = explainNode(
+      tree,
+      constraints(
+        { nodeId: 5, type: "never" },
+        { nodeId: 4, type: "never" },
+      ),
+      1,
+    );
+    expect(explanation?.forced).toBe("on");
+    expect(explanation?.nodeIds).toEqual([5]);
+    expect(explanation?.reasons[0]).toContain("before gate");
+  });
+
+  it("reports tree-level forcing with no user constraints", () => {
+    const tree = makeTree([makeNode(1), makeNode(2)]);
+    const explanation = explainNode(tree, new Map(), 1);
+    expect(explanation?.forced).toBe("on");
+    expect(explanation?.nodeIds).toEqual([]);
+    expect(explanation?.reasons[0]).toContain("Blocked too many talents");
+  });
+
+  it("returns null when no build is left", () => {
+    const explanation = explainNode(
+      chainTree(),
+      constraints(
+        { nodeId: 1, type: "never" },
+        { nodeId: 3, type: "always" },
+      ),
+      4,
+    );
+    expect(explanation).toBeNull();
+  });
+});
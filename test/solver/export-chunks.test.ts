@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkFileName,
+  chunkProfilesets,
+  manifestFileName,
+} from "../../src/shared/export-chunks";
+import type { ChunkManifest } from "../../src/shared/export-chunks";
+import { profilesetBlocks } from "../../src/shared/profilesets";
+import type { Build } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+function blocks(count: number): string[] {
+  const tree = makeTree([makeNode(1)], { type: "class", pointBudget: 1 });
+  const combos: Build[][] = Array.from({ length: count }, () => [
+    { entries: new Map([[100, 1]]) },
+  ]);
+  return profilesetBlocks(combos, [tree]);
+}
+
+describe("chunkProfilesets", () => {
+  it("names parts so they sort in index order", () => {
+    expect(chunkFileName("mage", 3, 12)).toBe("mage_part003.simc");
+    expect(chunkFileName("mage", 42, 1200, "txt")).toBe("mage_part0042.txt");
+    expect(manifestFileName("mage")).toBe("mage_manifest.json");
+  });
+
+  it("splits into files of at most chunkSize with a manifest", () => {
+    const { files, manifest } = chunkProfilesets(blocks(7), "mage", 3);
+    expect(files.map((f) => f.name)).toEqual([
+      "mage_part001.simc",
+      "mage_part002.simc",
+      "mage_part003.simc",
+      "mage_manifest.json",
+    ]);
+    expect(manifest.totalProfilesets).toBe(7);
+    expect(
+      manifest.files.map((f) => [f.firstIndex, f.lastIndex, f.count]),
+    ).toEqual([
+      [0, 2, 3],
+      [3, 5, 3],
+      [6, 6, 1],
+    ]);
+    expect(manifest.files[1].firstProfileset).toBe("build_0003");
+    expect(manifest.files[1].lastProfileset).toBe("build_0005");
+    expect(files[2].content).toBe(
+      "profileset.build_0006=class_talents=100:1\n",
+    );
+
+    const written = JSON.parse(files[3].content) as ChunkManifest;
+    expect(written).toEqual(manifest);
+  });
+
+  it("rejects a non-positive chunk size", () => {
+    expect(() => chunkProfilesets(blocks(2), "mage", 0)).toThrow(
+      /positive integer/,
+    );
+  });
+});
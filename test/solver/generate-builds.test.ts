@@ -2,6 +2,8 @@ import { describe, it, expect } from "vitest";
 import {
   generateTreeBuilds,
   countTreeBuilds,
+  createTreeUnranker,
+  rankBuild,
 } from "../../src/shared/build-counter";
 import type { Constraint, BooleanExpr } from "../../src/shared/types";
 import { makeEntry, makeNode, makeTree } from "./test-helpers";
@@ -470,3 +472,212 @@ describe("conditional constraint generation", () => {
     }
   });
 });
+
+describe("counts beyond 2^53", () => {
+  // 60 independent nodes, budget 30 → C(60, 30) ≈ 1.18e17 builds
+  const tree = makeTree(
+    Array.from({ length: 60 }, (_, i) => makeNode(i + 1)),
+    { pointBudget: 30 },
+  );
+  const constraints = new Map<number, Constraint>();
+
+  function binomial(n: number, k: number): bigint {
+    let result = 1n;
+    for (let i = 1; i <= k; i++) {
+      result = (result * BigInt(n - k + i)) / BigInt(i);
+    }
+    return result;
+  }
+
+  function nodeIds(build: { entries: Map<number, number> }): number[] {
+    return [...build.entries.keys()]
+      .map((id) => id / 100)
+      .sort((a, b) => a - b);
+  }
+
+  it("counter and unranker agree exactly with the binomial", () => {
+    const expected = binomial(60, 30);
+    expect(expected > BigInt(Number.MAX_SAFE_INTEGER)).toBe(true);
+    expect(countTreeBuilds(tree, constraints).count).toBe(expected);
+    expect(createTreeUnranker(tree, constraints).count).toBe(expected);
+  });
+
+  it("unranks the first and last indices to the extreme builds", () => {
+    const unranker = createTreeUnranker(tree, constraints);
+    const range = (from: number) =>
+      Array.from({ length: 30 }, (_, i) => from + i);
+    // Skipping comes first, so index 0 skips as many early nodes as it can
+    expect(nodeIds(unranker.unrank(0n))).toEqual(range(31));
+    expect(nodeIds(unranker.unrank(unranker.count - 1n))).toEqual(range(1));
+  });
+
+  it("distinguishes neighbouring indices past 2^53", () => {
+    const unranker = createTreeUnranker(tree, constraints);
+    const base = 2n ** 53n;
+    const builds = [base, base + 1n, base + 2n, unranker.count - 2n].map(
+      (k) => unranker.unrank(k),
+    );
+    expect(new Set(builds.map(encodeForTest)).size).toBe(builds.length);
+    for (const build of builds) expect(build.entries.size).toBe(30);
+  });
+
+  it("ranks builds past 2^53 back to their index", () => {
+    const unranker = createTreeUnranker(tree, constraints);
+    const indices = [2n ** 53n + 1n, unranker.count / 3n, unranker.count - 1n];
+    for (const k of indices) {
+      expect(unranker.rank(unranker.unrank(k))).toBe(k);
+    }
+  });
+
+  it("limited generation returns distinct evenly spaced builds", () => {
+    const builds = generateTreeBuilds(tree, constraints, 500);
+    expect(builds).toHaveLength(500);
+    expect(new Set(builds.map(encodeForTest)).size).toBe(500);
+  });
+});
+
+describe("rankBuild", () => {
+  function sel(nodeId: number): BooleanExpr {
+    return { op: "TALENT_SELECTED", nodeId };
+  }
+
+  // Root (free) → multi-rank A → {choice C, B}; D behind a 3-point gate
+  function gatedTree() {
+    const root = makeNode(1, { next: [2], freeNode: true, entryNode: true });
+    const a = makeNode(2, {
+      row: 1,
+      prev: [1],
+      next: [3, 4],
+      maxRanks: 2,
+      entries: [makeEntry(200, 2)],
+    });
+    const b = makeNode(3, { row: 2, prev: [2] });
+    const c = makeNode(4, {
+      row: 2,
+      prev: [2],
+      type: "choice",
+      entries: [makeEntry(400), makeEntry(401)],
+    });
+    const e = makeNode(5, { row: 1 });
+    const d = makeNode(6, { row: 3, reqPoints: 3 });
+    return makeTree([root, a, b, c, e, d], {
+      pointBudget: 4,
+      gates: [{ row: 3, requiredPoints: 3 }],
+    });
+  }
+
+  const cases: [string, Map<number, Constraint>][] = [
+    ["unconstrained", new Map()],
+    ["never", new Map([[3, { nodeId: 3, type: "never" }]])],
+    [
+      "pinned choice entry",
+      new Map([[4, { nodeId: 4, type: "always", entryIndex: 1 }]]),
+    ],
+    [
+      "conditional",
+      new Map([[5, { nodeId: 5, type: "conditional", condition: sel(3) }]]),
+    ],
+  ];
+
+  for (const [name, constraints] of cases) {
+    it(`round-trips every index (${name})`, () => {
+      const tree = gatedTree();
+      const unranker = createTreeUnranker(tree, constraints);
+      expect(unranker.count).toBe(countTreeBuilds(tree, constraints).count);
+      expect(unranker.count).toBeGreaterThan(0n);
+      for (let k = 0n; k < unranker.count; k++) {
+        expect(rankBuild(tree, constraints, unranker.unrank(k))).toBe(k);
+      }
+    });
+  }
+
+  it("returns null for builds the constraints exclude", () => {
+    const tree = gatedTree();
+    const all = generateTreeBuilds(tree, new Map());
+    const constraints = new Map<number, Constraint>([
+      [3, { nodeId: 3, type: "never" }],
+    ]);
+    const withB = all.filter((b) => b.entries.has(300));
+    expect(withB.length).toBeGreaterThan(0);
+    for (const build of withB) {
+      expect(rankBuild(tree, constraints, build)).toBeNull();
+    }
+  });
+
+  it("returns null for builds that break budget or prerequisites", () => {
+    const tree = gatedTree();
+    const constraints = new Map<number, Constraint>();
+    // B without its parent A
+    expect(
+      rankBuild(tree, constraints, {
+        entries: new Map([
+          [300, 1],
+          [500, 1],
+        ]),
+      }),
+    ).toBeNull();
+    // Under budget
+    expect(
+      rankBuild(tree, constraints, { entries: new Map([[200, 2]]) }),
+    ).toBeNull();
+  });
+
+  it("treats granted nodes missing from the build as taken", () => {
+    const tree = gatedTree();
+    const constraints = new Map<number, Constraint>();
+    const build = generateTreeBuilds(tree, constraints)[0];
+    const withoutRoot = { entries: new Map(build.entries) };
+    withoutRoot.entries.delete(100);
+    expect(rankBuild(tree, constraints, withoutRoot)).toBe(0n);
+  });
+});
+
+describe("cardinality conditions in generation", () => {
+  it("every generated build satisfies the rule", () => {
+    // Take 5 when at most 1 of 1–4 is taken; budget 3 over five nodes
+    const tree = makeTree([1, 2, 3, 4, 5].map((id) => makeNode(id)), {
+      pointBudget: 3,
+    });
+    const condition: BooleanExpr = {
+      op: "AT_MOST",
+      nodeIds: [1, 2, 3, 4],
+      count: 1,
+    };
+    const constraints = new Map<number, Constraint>([
+      [5, { nodeId: 5, type: "conditional", condition }],
+    ]);
+    const builds = generateTreeBuilds(tree, constraints);
+    expect(builds.length).toBe(
+      Number(countTreeBuilds(tree, constraints).count),
+    );
+    for (const build of builds) {
+      const taken = [100, 200, 300, 400].filter((id) => build.entries.has(id));
+      if (taken.length <= 1) expect(build.entries.has(500)).toBe(true);
+    }
+
+    const unranker = createTreeUnranker(tree, constraints);
+    const unranked = Array.from({ length: builds.length }, (_, i) =>
+      encodeForTest(unranker.unrank(BigInt(i))),
+    );
+    expect(unranked.sort()).toEqual(builds.map(encodeForTest).sort());
+  });
+});
+
+describe("tree-level rules in generation", () => {
+  it("generates exactly the builds satisfying the rule", () => {
+    // At most one of 1–3; budget 2 over four nodes → {1,4}, {2,4}, {3,4}
+    const tree = makeTree([1, 2, 3, 4].map((id) => makeNode(id)), {
+      pointBudget: 2,
+      rules: [{ op: "AT_MOST", nodeIds: [1, 2, 3], count: 1 }],
+    });
+    const builds = generateTreeBuilds(tree, new Map());
+    expect(builds.map(encodeForTest).sort()).toEqual([
+      "100:1/400:1",
+      "200:1/400:1",
+      "300:1/400:1",
+    ]);
+    for (const build of builds) {
+      expect(rankBuild(tree, new Map(), build)).not.toBeNull();
+    }
+  });
+});
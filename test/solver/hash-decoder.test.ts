@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { decodeTalentHash } from "../../src/renderer/hash-decoder";
+import { decodeTalentHash } from "../../src/shared/hash-decoder";
 import type { TalentNode } from "../../src/shared/types";
 
 // Minimal node stub — decoder only needs id and maxRanks
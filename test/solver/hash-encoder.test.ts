@@ -3,10 +3,10 @@ import {
   BitWriter,
   encodeTalentHash,
   buildEntryLookup,
-} from "../../src/renderer/hash-encoder";
-import { decodeTalentHash } from "../../src/renderer/hash-decoder";
+} from "../../src/shared/hash-encoder";
+import { decodeTalentHash } from "../../src/shared/hash-decoder";
 import type { TalentNode, TalentEntry } from "../../src/shared/types";
-import type { NodeSelection } from "../../src/renderer/hash-encoder";
+import type { NodeSelection } from "../../src/shared/hash-encoder";
 
 function node(
   id: number,
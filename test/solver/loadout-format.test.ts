@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkLoadout,
+  loadoutNodes,
+  parseLoadout,
+} from "../../src/shared/loadout-format";
+import type { Loadout, Specialization } from "../../src/shared/types";
+import { makeEntry, makeNode, makeSpec, makeTree } from "./test-helpers";
+
+function mageSpec(): Specialization {
+  return makeSpec({
+    classTree: makeTree([makeNode(1), makeNode(2, { name: "Blink" })]),
+    specTree: makeTree(
+      [
+        makeNode(3, {
+          type: "choice",
+          entries: [makeEntry(300), makeEntry(301)],
+        }),
+      ],
+      { type: "spec" },
+    ),
+  });
+}
+
+function loadout(overrides: Partial<Loadout> = {}): Loadout {
+  return {
+    version: 2,
+    className: "Mage",
+    specName: "Fire",
+    specId: 63,
+    nodes: [],
+    constraints: [],
+    ...overrides,
+  };
+}
+
+describe("parseLoadout", () => {
+  it("migrates version 1 files", () => {
+    const parsed = parseLoadout({
+      version: 1,
+      className: "Mage",
+      specName: "Fire",
+      constraints: [{ nodeId: 1, type: "always" }],
+    });
+    expect(parsed.version).toBe(2);
+    expect(parsed.nodes).toEqual([]);
+    expect(parsed.constraints).toHaveLength(1);
+  });
+
+  it("rejects malformed files with the reason", () => {
+    expect(() => parseLoadout({ version: 3 })).toThrow(/version 3/);
+    expect(() =>
+      parseLoadout({
+        ...loadout(),
+        constraints: [{ nodeId: 1, type: "maybe" }],
+      }),
+    ).toThrow(/Constraint 1: unknown type "maybe"/);
+    expect(() =>
+      parseLoadout({
+        ...loadout(),
+        constraints: [
+          {
+            nodeId: 1,
+            type: "conditional",
+            condition: { op: "AND", children: [{ op: "XOR" }] },
+          },
+        ],
+      }),
+    ).toThrow(/unknown condition "XOR"/);
+    expect(() =>
+      parseLoadout({
+        ...loadout(),
+        constraints: [{ nodeId: 1, type: "conditional", maxRank: 1 }],
+      }),
+    ).toThrow(/Constraint 1: conditional without a condition/);
+    expect(() =>
+      parseLoadout({
+        ...loadout(),
+        constraints: [{ nodeId: 1, type: "range" }],
+      }),
+    ).toThrow(/Constraint 1: range without ranks/);
+    expect(() => parseLoadout({ ...loadout(), nodes: undefined })).toThrow(
+      /Talent list is missing/,
+    );
+  });
+
+  it("round-trips a saved loadout", () => {
+    const saved = loadout({
+      dataVersion: "11.1.0",
+      nodes: loadoutNodes(mageSpec(), [{ nodeId: 3, type: "always" }]),
+      constraints: [
+        { nodeId: 3, type: "always", entryIndex: 1 },
+        { nodeId: 2, type: "range", maxRank: 1 },
+      ],
+      notes: "Single target",
+    });
+    expect(parseLoadout(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+    expect(saved.nodes).toEqual([
+      { nodeId: 3, name: "Node 3", entryIds: [300, 301] },
+    ]);
+  });
+});
+
+describe("checkLoadout", () => {
+  it("passes a loadout that matches the data", () => {
+    const spec = mageSpec();
+    const constraints = [{ nodeId: 2, type: "never" as const }];
+    const checked = checkLoadout(
+      loadout({ nodes: loadoutNodes(spec, constraints), constraints }),
+      spec,
+    );
+    expect(checked.issues).toEqual([]);
+    expect(checked.loadout.constraints).toEqual(constraints);
+  });
+
+  it("skips constraints and rules on talents that are gone", () => {
+    const checked = checkLoadout(
+      loadout({
+        nodes: [{ nodeId: 9, name: "Ice Floes", entryIds: [900] }],
+        constraints: [
+          { nodeId: 1, type: "always" },
+          { nodeId: 9, type: "never" },
+          {
+            nodeId: 2,
+            type: "conditional",
+            condition: { op: "TALENT_SELECTED", nodeId: 9 },
+          },
+        ],
+        rules: [
+          { tree: "class", expr: { op: "AT_MOST", nodeIds: [1, 9], count: 1 } },
+        ],
+      }),
+      mageSpec(),
+    );
+    expect(checked.loadout.constraints.map((c) => c.nodeId)).toEqual([1]);
+    expect(checked.loadout.rules).toEqual([]);
+    expect(checked.skippedConstraints).toBe(2);
+    expect(checked.skippedRules).toBe(1);
+    expect(checked.issues).toEqual([
+      { nodeId: 9, message: '"Ice Floes" is no longer in the talent data' },
+    ]);
+  });
+
+  it("reports renamed talents, changed choices and data versions", () => {
+    const checked = checkLoadout(
+      loadout({
+        dataVersion: "11.0.7",
+        nodes: [
+          { nodeId: 2, name: "Shimmer", entryIds: [200] },
+          { nodeId: 3, name: "Node 3", entryIds: [300, 302] },
+        ],
+        constraints: [
+          { nodeId: 2, type: "always" },
+          { nodeId: 3, type: "always", entryIndex: 1 },
+        ],
+      }),
+      mageSpec(),
+      "11.1.0",
+    );
+    expect(checked.loadout.constraints).toHaveLength(2);
+    expect(checked.issues.map((i) => i.message)).toEqual([
+      "Saved with talent data 11.0.7; this is 11.1.0",
+      '"Shimmer" is now called "Blink"',
+      '"Node 3" has different choices than when saved',
+    ]);
+  });
+});
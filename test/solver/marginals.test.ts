@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { analyzeMarginals, samplesForTree } from "../../src/shared/marginals";
+import type { DpsSample } from "../../src/shared/marginals";
+import { makeBuild, makeNode, makeTree } from "./test-helpers";
+
+const tree = makeTree([makeNode(1), makeNode(2), makeNode(3), makeNode(4)]);
+
+// Node 4 is in every build; 1 and 2 are worth more together than apart.
+const samples: DpsSample[] = [
+  { build: makeBuild(100, 200, 400), dps: 1300 },
+  { build: makeBuild(100, 300, 400), dps: 1000 },
+  { build: makeBuild(200, 300, 400), dps: 1000 },
+  { build: makeBuild(300, 400), dps: 900 },
+];
+
+describe("analyzeMarginals", () => {
+  const analysis = analyzeMarginals(tree, samples, { topK: 2 });
+  const value = (nodeId: number) =>
+    analysis.nodes.find((v) => v.nodeId === nodeId)!;
+
+  it("compares mean DPS with and without each node", () => {
+    expect(analysis.meanDps).toBe(1050);
+    expect(value(1)).toMatchObject({
+      withCount: 2,
+      withoutCount: 2,
+      meanWith: 1150,
+      meanWithout: 950,
+      delta: 200,
+    });
+    expect(value(3).delta).toBeCloseTo(2900 / 3 - 1300);
+  });
+
+  it("leaves nodes every build agrees on without a delta", () => {
+    expect(value(4).delta).toBeNull();
+    expect(value(4).meanWithout).toBeNull();
+  });
+
+  it("reports top-K share and best rank", () => {
+    expect(value(1).topShare).toBe(1);
+    expect(value(2).topShare).toBe(0.5);
+    expect(value(3).bestRank).toBe(2);
+  });
+
+  it("scores pairwise synergy as the interaction term", () => {
+    const pair = analysis.synergies.find(
+      (s) => s.nodeA === 1 && s.nodeB === 2,
+    );
+    // both 1300, only 1: 1000, only 2: 1000, neither 900
+    expect(pair?.score).toBe(200);
+    // 1 and 3 never appear in all four combinations
+    expect(
+      analysis.synergies.some((s) => s.nodeA === 1 && s.nodeB === 3),
+    ).toBe(false);
+  });
+
+  it("picks each result's build for the tree", () => {
+    const other = makeTree([makeNode(9)]);
+    const picked = samplesForTree(
+      [
+        {
+          name: "a",
+          trees: [other, tree],
+          builds: [makeBuild(900), makeBuild(100)],
+          dps: 5,
+        },
+        { name: "b", trees: [other], builds: [makeBuild(900)], dps: 6 },
+      ],
+      tree,
+    );
+    expect(picked).toEqual([{ build: makeBuild(100), dps: 5 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { makeRound, proposeConstraints } from "../../src/shared/next-round";
+import { countAcrossTrees } from "../../src/shared/cross-tree";
+import { namedBuilds } from "../../src/shared/sim-results";
+import type { BuildResult } from "../../src/shared/sim-results";
+import type { Constraint } from "../../src/shared/types";
+import { makeBuild, makeEntry, makeNode, makeTree } from "./test-helpers";
+
+const tree = makeTree(
+  [
+    makeNode(1),
+    makeNode(2, { maxRanks: 2, entries: [makeEntry(200, 2)] }),
+    makeNode(3, {
+      type: "choice",
+      entries: [makeEntry(300), { ...makeEntry(301), index: 1 }],
+    }),
+    makeNode(4),
+    makeNode(5, { freeNode: true }),
+  ],
+  { pointBudget: 3 },
+);
+
+// Top two agree: take 1, Rank 2/2 of node 2, never 4; node 3 varies.
+const results: BuildResult[] = namedBuilds(
+  [
+    [makeBuild(100, [200, 2], 500)],
+    [makeBuild(100, [200, 2], 300, 500)],
+    [makeBuild(200, 301, 400, 500)],
+    [makeBuild(300, 400, 500)],
+  ],
+  [tree],
+).map((named, i) => ({ ...named, dps: 1000 - i * 100 }));
+
+describe("proposeConstraints", () => {
+  it("locks what the top builds agree on", () => {
+    expect(proposeConstraints(results, [tree], new Map(), 2)).toEqual([
+      { nodeId: 1, type: "always" },
+      { nodeId: 2, type: "always", exactRank: 2 },
+      { nodeId: 4, type: "never" },
+    ]);
+  });
+
+  it("pins the shared choice entry", () => {
+    const choiceResults = namedBuilds(
+      [[makeBuild(301)], [makeBuild(301, 100)], [makeBuild(300)]],
+      [tree],
+    ).map((named, i) => ({ ...named, dps: 1000 - i * 100 }));
+    expect(proposeConstraints(choiceResults, [tree], new Map(), 2)).toEqual([
+      { nodeId: 3, type: "always", entryIndex: 1 },
+    ]);
+  });
+
+  it("skips constrained nodes and does nothing when all builds are top", () => {
+    const existing = new Map<number, Constraint>([
+      [1, { nodeId: 1, type: "always" }],
+    ]);
+    const proposals = proposeConstraints(results, [tree], existing, 2);
+    expect(proposals.map((c) => c.nodeId)).toEqual([2, 4]);
+    expect(proposeConstraints(results, [tree], new Map(), 4)).toEqual([]);
+  });
+});
+
+describe("round history", () => {
+  it("records the round and shrinks the count", () => {
+    const added = proposeConstraints(results, [tree], new Map(), 2);
+    const round = makeRound([], results, 2, added);
+    expect(round).toMatchObject({
+      round: 1,
+      simmedBuilds: 4,
+      topN: 2,
+      bestDps: 1000,
+      added,
+    });
+    const after = new Map(added.map((c) => [c.nodeId, c]));
+    expect(countAcrossTrees([tree], after)).toBeLessThan(
+      countAcrossTrees([tree], new Map()),
+    );
+  });
+});
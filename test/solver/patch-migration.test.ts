@@ -0,0 +1,215 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchNodes,
+  remapConstraints,
+  remapLoadout,
+} from "../../src/shared/patch-migration";
+import type {
+  Constraint,
+  Loadout,
+  RawSpecData,
+  RawTalentNode,
+} from "../../src/shared/types";
+
+function rawNode(
+  id: number,
+  name: string,
+  spells: number[],
+  pos: [number, number],
+  opts: Partial<RawTalentNode> = {},
+): RawTalentNode {
+  return {
+    id,
+    name,
+    icon: "",
+    type: spells.length > 1 ? "choice" : "single",
+    entries: spells.map((spellId, i) => ({
+      id: id * 100 + i,
+      name: `${name} ${i}`,
+      maxRanks: 1,
+      index: i,
+      spellId,
+    })),
+    next: [],
+    prev: [],
+    reqPoints: 0,
+    maxRanks: 1,
+    freeNode: false,
+    entryNode: false,
+    posX: pos[0],
+    posY: pos[1],
+    ...opts,
+  };
+}
+
+function rawSpec(classNodes: RawTalentNode[]): RawSpecData {
+  return {
+    className: "Mage",
+    specName: "Fire",
+    specId: 63,
+    classNodes,
+    specNodes: [],
+    heroNodes: [],
+    subTreeNodes: [],
+  };
+}
+
+// Old: Blink, a Shield/Ward choice, Frost Nova and an unnamed spot
+const oldData = rawSpec([
+  rawNode(1, "Blink", [11], [0, 0]),
+  rawNode(2, "Shield / Ward", [21, 22], [1, 0]),
+  rawNode(3, "Frost Nova", [31], [2, 0]),
+  rawNode(4, "Ice Floes", [41], [3, 0]),
+  rawNode(5, "Spellsteal", [], [4, 0]),
+]);
+
+// New: Blink keeps its spell under a new id, the choice swaps order, Frost
+// Nova is renamed and moved, Ice Floes is gone and Spellsteal kept its spot
+const newData = rawSpec([
+  rawNode(10, "Blink", [11], [0, 1]),
+  rawNode(2, "Ward / Shield", [22, 21], [1, 0]),
+  rawNode(30, "Frigid Nova", [99], [2, 0]),
+  rawNode(50, "Spellsteal", [], [4, 0]),
+]);
+
+describe("matchNodes", () => {
+  it("matches by spell, then name, then position", () => {
+    const { matches } = matchNodes(oldData, newData);
+    expect(matches.get(1)).toMatchObject({ newId: 10, by: "spell" });
+    expect(matches.get(2)?.entryIndexes).toEqual(
+      new Map([
+        [0, 1],
+        [1, 0],
+      ]),
+    );
+    expect(matches.get(5)).toMatchObject({ newId: 50, by: "name" });
+    expect(matches.get(3)).toMatchObject({ newId: 30, by: "position" });
+    expect(matches.has(4)).toBe(false);
+  });
+
+  it("reports nodes with several equally good matches", () => {
+    const split = rawSpec([
+      rawNode(40, "Floes A", [41], [7, 7]),
+      rawNode(41, "Floes B", [41], [8, 8]),
+    ]);
+    const mapping = matchNodes(oldData, split);
+    expect(mapping.ambiguous.get(4)).toEqual([40, 41]);
+  });
+});
+
+describe("remapConstraints", () => {
+  it("rewrites node ids, choices and condition references", () => {
+    const constraints: Constraint[] = [
+      { nodeId: 2, type: "always", entryIndex: 0 },
+      {
+        nodeId: 3,
+        type: "conditional",
+        condition: {
+          op: "AND",
+          children: [
+            { op: "TALENT_SELECTED", nodeId: 1 },
+            { op: "TALENT_SELECTED", nodeId: 2, entryId: 201 },
+          ],
+        },
+      },
+    ];
+    const { constraints: remapped, report } = remapConstraints(
+      constraints,
+      matchNodes(oldData, newData),
+    );
+    expect(remapped).toEqual([
+      { nodeId: 2, type: "always", entryIndex: 1 },
+      {
+        nodeId: 30,
+        type: "conditional",
+        condition: {
+          op: "AND",
+          children: [
+            { op: "TALENT_SELECTED", nodeId: 10 },
+            { op: "TALENT_SELECTED", nodeId: 2, entryId: 200 },
+          ],
+        },
+      },
+    ]);
+    expect(report.remapped.map((r) => [r.oldId, r.newId, r.by])).toEqual([
+      [1, 10, "spell"],
+      [2, 2, "spell"],
+      [3, 30, "position"],
+    ]);
+    expect(report.dropped).toEqual([]);
+  });
+
+  it("drops constraints that refer to talents that are gone", () => {
+    const { constraints, report } = remapConstraints(
+      [
+        { nodeId: 4, type: "never" },
+        {
+          nodeId: 1,
+          type: "conditional",
+          condition: { op: "TALENT_SELECTED", nodeId: 4 },
+        },
+        { nodeId: 5, type: "always" },
+      ],
+      matchNodes(oldData, newData),
+    );
+    expect(constraints).toEqual([{ nodeId: 50, type: "always" }]);
+    expect(report.dropped.map((d) => d.message)).toEqual([
+      'Dropped the constraint on "Ice Floes": "Ice Floes" is gone',
+      'Dropped the constraint on "Blink": "Ice Floes" is gone',
+    ]);
+  });
+});
+
+describe("remapLoadout", () => {
+  it("carries rules, rounds and talent records over to the new data", () => {
+    const loadout: Loadout = {
+      version: 2,
+      className: "Mage",
+      specName: "Fire",
+      nodes: [{ nodeId: 1, name: "Blink", entryIds: [100] }],
+      constraints: [{ nodeId: 1, type: "always" }],
+      rules: [
+        { tree: "class", expr: { op: "AT_MOST", nodeIds: [1, 3], count: 1 } },
+        { tree: "class", expr: { op: "AT_LEAST", nodeIds: [4], count: 1 } },
+      ],
+      rounds: [
+        {
+          round: 1,
+          date: "",
+          simmedBuilds: 10,
+          topN: 3,
+          bestDps: 100,
+          added: [
+            { nodeId: 1, type: "never" },
+            { nodeId: 4, type: "always" },
+          ],
+        },
+      ],
+      dataVersion: "old",
+      treeHash: [1, 2, 3],
+    };
+    const { loadout: remapped, report } = remapLoadout(
+      loadout,
+      oldData,
+      newData,
+      "new",
+    );
+    expect(remapped.dataVersion).toBe("new");
+    expect(remapped.treeHash).toBeUndefined();
+    expect(remapped.nodes).toEqual([
+      { nodeId: 10, name: "Blink", entryIds: [1000] },
+    ]);
+    expect(remapped.rules).toEqual([
+      { tree: "class", expr: { op: "AT_MOST", nodeIds: [10, 30], count: 1 } },
+    ]);
+    expect(remapped.rounds?.[0].added).toEqual([{ nodeId: 10, type: "never" }]);
+    expect(report.dropped).toEqual([
+      { message: 'Dropped class rule 2: "Ice Floes" is gone' },
+      {
+        nodeId: 4,
+        message:
+          'Round 1: Dropped the constraint on "Ice Floes": "Ice Floes" is gone',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatHashProfilesets,
+  formatProfilesets,
+  heroTreeLabel,
+  profilesetName,
+} from "../../src/shared/profilesets";
+import { importHash } from "../../src/shared/loadout";
+import type { Specialization } from "../../src/shared/types";
+import { makeBuild, makeNode, makeSpec, makeTree } from "./test-helpers";
+
+function havocSpec(): Specialization {
+  return makeSpec({
+    className: "Demon Hunter",
+    specName: "Havoc",
+    specId: 577,
+    classTree: makeTree([makeNode(1)], { type: "class", pointBudget: 1 }),
+    specTree: makeTree([makeNode(2)], { type: "spec", pointBudget: 1 }),
+    heroTrees: [
+      makeTree([makeNode(3)], {
+        type: "hero",
+        pointBudget: 1,
+        subTreeId: 10,
+        subTreeName: "Aldrachi Reaver",
+      }),
+      makeTree([makeNode(4)], {
+        type: "hero",
+        pointBudget: 1,
+        subTreeId: 11,
+        subTreeName: "Fel-Scarred",
+      }),
+    ],
+    subTreeNodes: [
+      { id: 99, entries: [{ traitSubTreeId: 10 }, { traitSubTreeId: 11 }] },
+    ],
+  });
+}
+
+describe("profileset labels", () => {
+  it("slugs hero tree names", () => {
+    const [reaver, felScarred] = havocSpec().heroTrees;
+    expect(heroTreeLabel(reaver)).toBe("aldrachi_reaver");
+    expect(heroTreeLabel(felScarred)).toBe("fel_scarred");
+  });
+
+  it("inserts the label before the index", () => {
+    expect(profilesetName(7)).toBe("build_0007");
+    expect(profilesetName(7, "fel_scarred")).toBe("build_fel_scarred_0007");
+  });
+
+  it("labels every line of an entry-based profileset", () => {
+    const spec = havocSpec();
+    const trees = [spec.classTree, spec.specTree, spec.heroTrees[1]];
+    const output = formatProfilesets(
+      [[makeBuild(100)], [makeBuild(200)], [makeBuild(400)]],
+      trees,
+      "fel_scarred",
+    );
+    expect(output.split("\n")).toEqual([
+      "profileset.build_fel_scarred_0000=class_talents=100:1",
+      "profileset.build_fel_scarred_0000+=spec_talents=200:1",
+      "profileset.build_fel_scarred_0000+=hero_talents=400:1",
+    ]);
+  });
+});
+
+describe("formatHashProfilesets per hero tree", () => {
+  it("selects the matching subTreeNode entry for each hero tree", () => {
+    const spec = havocSpec();
+    for (const [i, heroTree] of spec.heroTrees.entries()) {
+      const trees = [spec.classTree, spec.specTree, heroTree];
+      const heroEntry = 300 + i * 100;
+      const output = formatHashProfilesets(
+        [[makeBuild(100)], [makeBuild(200)], [makeBuild(heroEntry)]],
+        trees,
+        {
+          spec,
+          sameClassSpecs: [spec],
+          treeHashBytes: new Array(16).fill(0),
+          heroTree,
+          label: heroTreeLabel(heroTree),
+        },
+      );
+      const [name, hash] = output.split("=talents=");
+      expect(name).toBe(`profileset.build_${heroTreeLabel(heroTree)}_0000`);
+
+      const imported = importHash([spec], hash);
+      expect(imported?.heroTree).toBe(heroTree);
+      expect(imported?.constraints.map((c) => c.nodeId)).toContain(
+        heroTree.nodes.keys().next().value,
+      );
+    }
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import { sampleBuilds } from "../../src/shared/sampling";
+import type { BuildSpace } from "../../src/shared/sampling";
+import { encodeBuild } from "../../src/shared/profilesets";
+import type { Build, Constraint } from "../../src/shared/types";
+import { makeEntry, makeNode, makeTree } from "./test-helpers";
+
+function key(combo: Build[]): string {
+  return combo.map(encodeBuild).join("|");
+}
+
+// 6 independent nodes, budget 3 → C(6,3) = 20 builds
+function sixChooseThree(): BuildSpace {
+  const nodes = [1, 2, 3, 4, 5, 6].map((id) => makeNode(id));
+  return {
+    trees: [makeTree(nodes, { pointBudget: 3 })],
+    constraints: new Map(),
+  };
+}
+
+// Class: 4 independent nodes, budget 2 → 6 builds.
+// Spec: 4 independent nodes + one 2-way choice, budget 2 → 14 builds.
+function choiceState(combo: Build[]): string {
+  if (combo[1].entries.has(900)) return "first";
+  if (combo[1].entries.has(901)) return "second";
+  return "skipped";
+}
+
+function twoTrees(constraints = new Map<number, Constraint>()): BuildSpace {
+  const classTree = makeTree([1, 2, 3, 4].map((id) => makeNode(id)), {
+    type: "class",
+    pointBudget: 2,
+  });
+  const specTree = makeTree(
+    [
+      ...[5, 6, 7, 8].map((id) => makeNode(id)),
+      makeNode(9, {
+        type: "choice",
+        entries: [makeEntry(900), makeEntry(901)],
+      }),
+    ],
+    { type: "spec", pointBudget: 2 },
+  );
+  return { trees: [classTree, specTree], constraints };
+}
+
+describe("sampleBuilds", () => {
+  it("returns every combination in odometer order when under the limit", () => {
+    const [combos] = sampleBuilds([twoTrees()], {
+      mode: "random",
+      limit: 84,
+    });
+    expect(combos).toHaveLength(84);
+    expect(new Set(combos.map(key)).size).toBe(84);
+    // Last tree varies fastest
+    expect(encodeBuild(combos[0][0])).toBe(encodeBuild(combos[13][0]));
+    expect(encodeBuild(combos[0][0])).not.toBe(encodeBuild(combos[14][0]));
+  });
+
+  it("spreads evenly spaced picks across the whole product", () => {
+    const [combos] = sampleBuilds([twoTrees()], { mode: "even", limit: 6 });
+    expect(combos).toHaveLength(6);
+    // Index i * 84 / 6 = 14i → one pick per class build
+    expect(new Set(combos.map((c) => encodeBuild(c[0]))).size).toBe(6);
+  });
+
+  it("draws distinct random samples reproducibly from the seed", () => {
+    const options = { mode: "random" as const, limit: 40, seed: 7 };
+    const a = sampleBuilds([twoTrees()], options)[0].map(key);
+    const b = sampleBuilds([twoTrees()], options)[0].map(key);
+    const c = sampleBuilds([twoTrees()], { ...options, seed: 8 })[0].map(
+      key,
+    );
+    expect(a).toHaveLength(40);
+    expect(new Set(a).size).toBe(40);
+    expect(b).toEqual(a);
+    expect(c).not.toEqual(a);
+  });
+
+  it("gives each state of the stratify node an equal share", () => {
+    const [combos] = sampleBuilds([twoTrees()], {
+      mode: "stratified",
+      limit: 30,
+      stratifyNodeId: 9,
+    });
+    const states = combos.map(choiceState);
+    expect(states.filter((s) => s === "first")).toHaveLength(10);
+    expect(states.filter((s) => s === "second")).toHaveLength(10);
+    expect(states.filter((s) => s === "skipped")).toHaveLength(10);
+  });
+
+  it("hands quota a small stratum can't use to the others", () => {
+    // Strata: skipped 36, first 24, second 24 → 80 = 32 + 24 + 24
+    const [combos] = sampleBuilds([twoTrees()], {
+      mode: "stratified",
+      limit: 80,
+      stratifyNodeId: 9,
+    });
+    const states = combos.map(choiceState);
+    expect(states.filter((s) => s === "skipped")).toHaveLength(32);
+    expect(states.filter((s) => s === "first")).toHaveLength(24);
+  });
+
+  it("only splits on states the node's constraint allows", () => {
+    const constraints = new Map<number, Constraint>([
+      [9, { nodeId: 9, type: "always", entryIndex: 0 }],
+    ]);
+    const [combos] = sampleBuilds([twoTrees(constraints)], {
+      mode: "stratified",
+      limit: 20,
+      stratifyNodeId: 9,
+    });
+    expect(combos).toHaveLength(20);
+    expect(combos.every((c) => c[1].entries.has(900))).toBe(true);
+  });
+
+  it("keeps a choice node's rank range in each stratum", () => {
+    const tree = makeTree(
+      [
+        makeNode(1),
+        makeNode(2),
+        makeNode(3, {
+          type: "choice",
+          maxRanks: 2,
+          entries: [makeEntry(300, 2), makeEntry(301, 2)],
+        }),
+      ],
+      { pointBudget: 3 },
+    );
+    const constraints = new Map<number, Constraint>([
+      [3, { nodeId: 3, type: "always", exactRank: 2 }],
+    ]);
+    const [combos] = sampleBuilds([{ trees: [tree], constraints }], {
+      mode: "stratified",
+      limit: 2,
+      stratifyNodeId: 3,
+    });
+    const points = combos.map((c) =>
+      Math.max(c[0].entries.get(300) ?? 0, c[0].entries.get(301) ?? 0),
+    );
+    expect(points).toEqual([2, 2]);
+  });
+
+  it("splits a rank range into skipped and each allowed rank", () => {
+    const tree = makeTree(
+      [
+        makeNode(1),
+        makeNode(2),
+        makeNode(3, { maxRanks: 2, entries: [makeEntry(300, 2)] }),
+      ],
+      { pointBudget: 2 },
+    );
+    const constraints = new Map<number, Constraint>([
+      [3, { nodeId: 3, type: "range", maxRank: 1 }],
+    ]);
+    const [combos] = sampleBuilds([{ trees: [tree], constraints }], {
+      mode: "stratified",
+      limit: 3,
+      stratifyNodeId: 3,
+    });
+    const ranks = combos.map((c) => c[0].entries.get(300) ?? 0);
+    expect(new Set(ranks)).toEqual(new Set([0, 1]));
+  });
+
+  it("refuses to stratify on a conditional node", () => {
+    const constraints = new Map<number, Constraint>([
+      [
+        9,
+        {
+          nodeId: 9,
+          type: "conditional",
+          condition: { op: "TALENT_SELECTED", nodeId: 1 },
+        },
+      ],
+    ]);
+    expect(() =>
+      sampleBuilds([twoTrees(constraints)], {
+        mode: "stratified",
+        limit: 5,
+        stratifyNodeId: 9,
+      }),
+    ).toThrow(/Can't stratify on "Node 9"/);
+  });
+
+  it("refuses to stratify without a node in the space", () => {
+    const sample = (stratifyNodeId?: number) => () =>
+      sampleBuilds([twoTrees()], {
+        mode: "stratified",
+        limit: 5,
+        stratifyNodeId,
+      });
+    expect(sample()).toThrow(/needs a talent to stratify on/);
+    expect(sample(404)).toThrow(/Can't stratify on node 404/);
+  });
+
+  it("picks the complement as the most diverse second build", () => {
+    const [combos] = sampleBuilds([sixChooseThree()], {
+      mode: "diverse",
+      limit: 10,
+    });
+    expect(combos).toHaveLength(10);
+    expect(new Set(combos.map(key)).size).toBe(10);
+
+    const first = new Set(combos[0][0].entries.keys());
+    const second = new Set(combos[1][0].entries.keys());
+    expect([...second].some((id) => first.has(id))).toBe(false);
+  });
+
+  it("samples across several spaces and groups results per space", () => {
+    const spaces = [twoTrees(), sixChooseThree()];
+    const sampled = sampleBuilds(spaces, { mode: "random", limit: 55 });
+    expect(sampled).toHaveLength(2);
+    expect(sampled[0].length + sampled[1].length).toBe(55);
+    expect(sampled[1].every((c) => c.length === 1)).toBe(true);
+  });
+});
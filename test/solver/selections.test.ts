@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  countTreeBuilds,
+  generateTreeBuilds,
+} from "../../src/shared/build-counter";
+import type {
+  Constraint,
+  SelectionCounts,
+  TalentTree,
+} from "../../src/shared/types";
+import { makeEntry, makeNode, makeTree } from "./test-helpers";
+
+// 1 → (choice 2 | 3) → 4 (2 ranks), a free-standing 5 and a gated 6
+function makeSelectionTree(): TalentTree {
+  return makeTree(
+    [
+      makeNode(1, { next: [2, 3] }),
+      makeNode(2, {
+        type: "choice",
+        prev: [1],
+        next: [4],
+        entries: [makeEntry(200), makeEntry(201)],
+      }),
+      makeNode(3, { prev: [1], next: [4] }),
+      makeNode(4, { prev: [2, 3], maxRanks: 2, row: 1 }),
+      makeNode(5),
+      makeNode(6, { row: 2, reqPoints: 3 }),
+    ],
+    { pointBudget: 4, gates: [{ row: 2, requiredPoints: 3 }] },
+  );
+}
+
+/** Selection counts by tallying every generated build. */
+function tally(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): SelectionCounts {
+  const nodeOfEntry = new Map<number, number>();
+  for (const node of tree.nodes.values()) {
+    for (const entry of node.entries) nodeOfEntry.set(entry.id, node.id);
+  }
+  const counts: SelectionCounts = { nodes: new Map(), entries: new Map() };
+  for (const build of generateTreeBuilds(tree, constraints)) {
+    for (const entryId of build.entries.keys()) {
+      const nodeId = nodeOfEntry.get(entryId)!;
+      counts.entries.set(entryId, (counts.entries.get(entryId) ?? 0n) + 1n);
+      counts.nodes.set(nodeId, (counts.nodes.get(nodeId) ?? 0n) + 1n);
+    }
+  }
+  return counts;
+}
+
+function expectMatchesTally(
+  tree: TalentTree,
+  constraints: Map<number, Constraint>,
+): void {
+  const result = countTreeBuilds(tree, constraints, { selections: true });
+  expect(result.count).toBeGreaterThan(0n);
+  expect(result.selections).toEqual(tally(tree, constraints));
+}
+
+describe("selection counts", () => {
+  it("are only computed on request", () => {
+    const tree = makeSelectionTree();
+    expect(countTreeBuilds(tree, new Map()).selections).toBeUndefined();
+  });
+
+  it("match tallied builds without constraints", () => {
+    const tree = makeSelectionTree();
+    const { count, selections } = countTreeBuilds(tree, new Map(), {
+      selections: true,
+    });
+    expect(selections?.nodes.get(1)).toBe(count);
+    expectMatchesTally(tree, new Map());
+  });
+
+  it("match tallied builds under conditions, ranks and rules", () => {
+    const tree = makeSelectionTree();
+    tree.rules = [{ op: "AT_MOST", nodeIds: [3, 5], count: 1 }];
+    const constraints = new Map<number, Constraint>([
+      [
+        5,
+        {
+          nodeId: 5,
+          type: "conditional",
+          condition: { op: "TALENT_SELECTED", nodeId: 2 },
+        },
+      ],
+      [4, { nodeId: 4, type: "always", maxRank: 1 }],
+    ]);
+    expectMatchesTally(tree, constraints);
+  });
+
+  it("match tallied builds with entry conditions and spend targets", () => {
+    const tree = makeSelectionTree();
+    tree.spend = { total: 3, rows: [{ row: 0, points: 2 }] };
+    const constraints = new Map<number, Constraint>([
+      [
+        2,
+        {
+          nodeId: 2,
+          type: "entry-conditional",
+          entryConditions: [
+            {
+              entryIndex: 1,
+              condition: { op: "TALENT_SELECTED", nodeId: 5 },
+            },
+          ],
+        },
+      ],
+    ]);
+    expectMatchesTally(tree, constraints);
+  });
+
+  it("are empty when no build is left", () => {
+    const tree = makeSelectionTree();
+    const constraints = new Map<number, Constraint>([
+      [1, { nodeId: 1, type: "never" }],
+      [6, { nodeId: 6, type: "always" }],
+    ]);
+    const { selections } = countTreeBuilds(tree, constraints, {
+      selections: true,
+    });
+    expect(selections?.nodes.size).toBe(0);
+  });
+});
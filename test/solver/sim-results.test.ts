@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchResults,
+  namedBuilds,
+  nodeDpsDeltas,
+  parseBuildMap,
+  parseSimResults,
+  serializeBuildMap,
+} from "../../src/shared/sim-results";
+import type { Specialization } from "../../src/shared/types";
+import { makeBuild, makeNode, makeTree } from "./test-helpers";
+
+const json2 = {
+  version: "1.0",
+  sim: {
+    players: [{ name: "Jaina", collected_data: { dps: { mean: 1000 } } }],
+    profilesets: {
+      metric: "Damage per Second",
+      results: [
+        { name: "build_0000", mean: 1100, mean_error: 5 },
+        { name: "build_0001", mean: 900, mean_stddev: 4 },
+        { name: "build_0002", mean: 1000 },
+        { name: "not_ours", mean: 5000 },
+      ],
+    },
+  },
+};
+
+describe("parseSimResults", () => {
+  it("reads json2 profileset results and the base actor's DPS", () => {
+    const parsed = parseSimResults(json2);
+    expect(parsed.baselineDps).toBe(1000);
+    expect(parsed.results[0]).toEqual({
+      name: "build_0000",
+      dps: 1100,
+      error: 5,
+    });
+    expect(parsed.results[1].error).toBe(4);
+    expect(parsed.results[2].error).toBeUndefined();
+  });
+
+  it("accepts a top-level profilesets object", () => {
+    const parsed = parseSimResults({ profilesets: json2.sim.profilesets });
+    expect(parsed.results).toHaveLength(4);
+    expect(parsed.baselineDps).toBeUndefined();
+  });
+
+  it("rejects files without profileset results", () => {
+    expect(() => parseSimResults({ sim: { players: [] } })).toThrow(
+      /No profileset results/,
+    );
+  });
+});
+
+describe("matching results to builds", () => {
+  const tree = makeTree([makeNode(1), makeNode(2), makeNode(3)], {
+    pointBudget: 2,
+  });
+  const exported = namedBuilds(
+    [[makeBuild(100, 200)], [makeBuild(100, 300)], [makeBuild(200, 300)]],
+    [tree],
+  );
+
+  it("maps profileset names back to the generated builds", () => {
+    const { matched, unmatched } = matchResults(
+      parseSimResults(json2).results,
+      new Map(exported.map((b) => [b.name, b])),
+    );
+    expect(matched.map((r) => [r.name, r.dps])).toEqual([
+      ["build_0000", 1100],
+      ["build_0001", 900],
+      ["build_0002", 1000],
+    ]);
+    expect(matched[1].builds).toBe(exported[1].builds);
+    expect(unmatched).toEqual(["not_ours"]);
+  });
+
+  it("averages the DPS delta of builds taking each node", () => {
+    const { matched } = matchResults(
+      parseSimResults(json2).results,
+      new Map(exported.map((b) => [b.name, b])),
+    );
+    const deltas = nodeDpsDeltas(matched);
+    // mean 1000; node 1 in 1100 and 900, node 2 in 1100 and 1000
+    expect(deltas.get(1)).toBe(0);
+    expect(deltas.get(2)).toBe(50);
+    expect(deltas.get(3)).toBe(-50);
+  });
+});
+
+describe("build maps", () => {
+  const spec: Specialization = {
+    className: "Mage",
+    specName: "Fire",
+    classTree: makeTree([makeNode(1), makeNode(2)]),
+    specTree: makeTree([makeNode(3)], { type: "spec" }),
+    heroTrees: [
+      makeTree([makeNode(4)], { type: "hero", subTreeId: 40 }),
+      makeTree([makeNode(5)], { type: "hero", subTreeId: 50 }),
+    ],
+    subTreeNodes: [],
+    systemNodeIds: [],
+  };
+  const trees = [spec.classTree, spec.specTree, spec.heroTrees[1]];
+  const exported = namedBuilds(
+    [[makeBuild(100), makeBuild(300), makeBuild(500)]],
+    trees,
+    "sunfury",
+  );
+
+  it("round-trips an export's builds through JSON", () => {
+    const json = JSON.parse(JSON.stringify(serializeBuildMap(exported, spec)));
+    const [restored] = parseBuildMap(json, spec);
+    expect(restored.name).toBe("build_sunfury_0000");
+    expect(restored.trees).toEqual(trees);
+    expect(restored.builds).toEqual(exported[0].builds);
+  });
+
+  it("rejects maps for another spec or other talent data", () => {
+    const map = serializeBuildMap(exported, spec);
+    expect(() =>
+      parseBuildMap({ ...map, specName: "Frost" }, spec),
+    ).toThrow(/for Frost Mage/);
+    map.builds[0].entries[0] = [[999, 1]];
+    expect(() => parseBuildMap(map, spec)).toThrow(/talent entry 999/);
+    expect(() => parseBuildMap({ builds: [] }, spec)).toThrow(/Not a build/);
+  });
+});
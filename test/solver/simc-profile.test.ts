@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  alwaysBuilds,
+  formatBaseProfile,
+  stripManagedOptions,
+  wrapProfilesets,
+} from "../../src/shared/simc-profile";
+import { baseTalentLines } from "../../src/shared/profilesets";
+import { chunkProfilesets } from "../../src/shared/export-chunks";
+import type { BaseProfile, Constraint } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+const profile: BaseProfile = {
+  name: "Raid",
+  className: "Mage",
+  specName: "Fire",
+  profileText: [
+    'mage="Jaina"',
+    "spec=fire",
+    "talents=C4DAAAAAAAAAAAAAAAAAAAAAAA",
+    "# talents=kept as a comment",
+    "iterations=100",
+    "head=,id=12345",
+  ].join("\n"),
+  fightStyle: "DungeonSlice",
+  iterations: 5000,
+  targetError: 0.1,
+  workThreads: 2,
+};
+
+describe("base SimC profile", () => {
+  it("drops the options the header sets", () => {
+    expect(stripManagedOptions(profile.profileText)).toBe(
+      'mage="Jaina"\nspec=fire\n# talents=kept as a comment\nhead=,id=12345',
+    );
+  });
+
+  it("emits sim options, the character and base talents", () => {
+    const header = formatBaseProfile(profile, ["class_talents=100:1"]);
+    expect(header.split("\n")).toEqual([
+      "# Base profile: Raid",
+      "fight_style=DungeonSlice",
+      "iterations=5000",
+      "target_error=0.1",
+      "profileset_work_threads=2",
+      "",
+      'mage="Jaina"',
+      "spec=fire",
+      "# talents=kept as a comment",
+      "head=,id=12345",
+      "class_talents=100:1",
+      "",
+    ]);
+  });
+
+  it("derives base talents from Always constraints", () => {
+    const classTree = makeTree([makeNode(1), makeNode(2, { maxRanks: 2 })], {
+      type: "class",
+    });
+    const specTree = makeTree([makeNode(3)], { type: "spec" });
+    const constraints = new Map<number, Constraint>([
+      [1, { nodeId: 1, type: "never" }],
+      [2, { nodeId: 2, type: "always" }],
+    ]);
+    const trees = [classTree, specTree];
+    expect(baseTalentLines(alwaysBuilds(trees, constraints), trees)).toEqual([
+      "class_talents=200:2",
+    ]);
+  });
+
+  it("makes every chunk a runnable profile", () => {
+    const header = formatBaseProfile(profile, []);
+    const blocks = ["profileset.build_0000=x", "profileset.build_0001=y"];
+    const { files } = chunkProfilesets(blocks, "fire", 1, "simc", header);
+    expect(files[1].content).toBe(
+      wrapProfilesets(header, "profileset.build_0001=y"),
+    );
+  });
+});
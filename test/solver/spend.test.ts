@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  countTreeBuilds,
+  generateTreeBuilds,
+} from "../../src/shared/build-counter";
+import { locateBuild } from "../../src/shared/build-location";
+import { generateBuilds } from "../../src/worker/solver/engine";
+import type { Constraint, TalentTree } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+// Rows 0 and 1 with two nodes each, row 2 with one; full budget is 3
+function makeRowTree(): TalentTree {
+  return makeTree(
+    [
+      makeNode(1, { row: 0 }),
+      makeNode(2, { row: 0 }),
+      makeNode(3, { row: 1 }),
+      makeNode(4, { row: 1 }),
+      makeNode(5, { row: 2 }),
+    ],
+    { pointBudget: 3 },
+  );
+}
+
+function spent(tree: TalentTree): number[] {
+  return generateTreeBuilds(tree, new Map()).map((b) =>
+    [...b.entries.values()].reduce((sum, p) => sum + p, 0),
+  );
+}
+
+describe("spend targets", () => {
+  it("spends the full budget without a target", () => {
+    const tree = makeRowTree();
+    expect(countTreeBuilds(tree, new Map()).count).toBe(10n);
+    expect(new Set(spent(tree))).toEqual(new Set([3]));
+  });
+
+  it("spends exactly the target total", () => {
+    const tree = makeRowTree();
+    tree.spend = { total: 2 };
+    expect(countTreeBuilds(tree, new Map()).count).toBe(10n);
+    expect(new Set(spent(tree))).toEqual(new Set([2]));
+    expect(generateBuilds(tree, new Map()).count).toBe(10);
+  });
+
+  it("puts at least the target points in the top rows", () => {
+    const tree = makeRowTree();
+    // Two points in row 0 leaves 3 of the 10 builds
+    tree.spend = { rows: [{ row: 0, points: 2 }] };
+    expect(countTreeBuilds(tree, new Map()).count).toBe(3n);
+    expect(generateBuilds(tree, new Map()).count).toBe(3);
+    for (const build of generateTreeBuilds(tree, new Map())) {
+      expect(build.entries.get(100)).toBe(1);
+      expect(build.entries.get(200)).toBe(1);
+    }
+  });
+
+  it("combines a total with row targets and constraints", () => {
+    const tree = makeRowTree();
+    tree.spend = { total: 2, rows: [{ row: 1, points: 2 }] };
+    const constraints = new Map<number, Constraint>([
+      [1, { nodeId: 1, type: "never" }],
+    ]);
+    // Two of 2, 3, 4
+    expect(countTreeBuilds(tree, constraints).count).toBe(3n);
+    expect(generateBuilds(tree, constraints).count).toBe(3);
+  });
+
+  it("has no builds when a row target exceeds the total", () => {
+    const tree = makeRowTree();
+    tree.spend = { total: 1, rows: [{ row: 2, points: 2 }] };
+    expect(countTreeBuilds(tree, new Map()).count).toBe(0n);
+    expect(generateTreeBuilds(tree, new Map())).toEqual([]);
+  });
+
+  it("explains builds that miss a row target", () => {
+    const tree = makeRowTree();
+    tree.spend = { rows: [{ row: 0, points: 2 }] };
+    const build = {
+      entries: new Map([
+        [100, 1],
+        [300, 1],
+        [400, 1],
+      ]),
+    };
+    expect(locateBuild([tree], new Map(), [build])).toEqual({
+      included: false,
+      reason: "2 class points by row 1",
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import type {
+  Build,
+  Specialization,
   TalentTree,
   TalentNode,
   TalentEntry,
@@ -51,3 +53,27 @@ export function makeTree(
     ...overrides,
   };
 }
+
+// A Fire Mage with empty trees unless given
+export function makeSpec(
+  overrides: Partial<Specialization> = {},
+): Specialization {
+  return {
+    className: "Mage",
+    specName: "Fire",
+    specId: 63,
+    classTree: makeTree([]),
+    specTree: makeTree([], { type: "spec" }),
+    heroTrees: [],
+    subTreeNodes: [],
+    systemNodeIds: [],
+    ...overrides,
+  };
+}
+
+// Entries given by id take one point; [id, points] pairs set the ranks.
+export function makeBuild(...entries: (number | [number, number])[]): Build {
+  return {
+    entries: new Map(entries.map((e) => (typeof e === "number" ? [e, 1] : e))),
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  countConstraintSet,
+  diffConstraints,
+  diffTreeSettings,
+} from "../../src/shared/workspace-diff";
+import type { ConstraintSet } from "../../src/shared/workspace-diff";
+import type { Constraint, TalentTree } from "../../src/shared/types";
+import { makeNode, makeTree } from "./test-helpers";
+
+function set(trees: TalentTree[], ...list: Constraint[]): ConstraintSet {
+  return {
+    constraints: new Map(list.map((c) => [c.nodeId, c])),
+    rules: new Map(trees.map((tree) => [tree, undefined])),
+    spend: new Map(trees.map((tree) => [tree, undefined])),
+  };
+}
+
+describe("workspace diff", () => {
+  // Four free-standing nodes with 2 points, beside a spec tree of two with 1
+  const classTree = makeTree(
+    [makeNode(1), makeNode(2), makeNode(3), makeNode(4)],
+    { pointBudget: 2 },
+  );
+  const specTree = makeTree([makeNode(5), makeNode(6)], {
+    type: "spec",
+    pointBudget: 1,
+  });
+  const trees = [classTree, specTree];
+
+  it("lists nodes constrained differently, in tree order", () => {
+    const a = set(
+      trees,
+      { nodeId: 6, type: "always" },
+      { nodeId: 1, type: "always" },
+      { nodeId: 3, type: "never" },
+    );
+    const b = set(
+      trees,
+      { nodeId: 1, type: "always" },
+      { nodeId: 3, type: "always" },
+      { nodeId: 5, type: "always" },
+    );
+    const diffs = diffConstraints(trees, a.constraints, b.constraints);
+    expect(diffs.map((d) => d.nodeId)).toEqual([3, 5, 6]);
+    expect(diffs[0].a?.type).toBe("never");
+    expect(diffs[1].a).toBeUndefined();
+    expect(diffs[2].b).toBeUndefined();
+  });
+
+  it("ignores the key order of equal constraints", () => {
+    const a = set(trees, {
+      nodeId: 1,
+      type: "conditional",
+      condition: { op: "TALENT_SELECTED", nodeId: 2, minRank: 1 },
+    });
+    const b = set(trees, {
+      condition: { minRank: 1, nodeId: 2, op: "TALENT_SELECTED" },
+      type: "conditional",
+      nodeId: 1,
+    });
+    expect(diffConstraints(trees, a.constraints, b.constraints)).toEqual([]);
+
+    b.constraints.set(1, {
+      ...b.constraints.get(1)!,
+      condition: { op: "TALENT_SELECTED", nodeId: 2, minRank: 2 },
+    });
+    expect(diffConstraints(trees, a.constraints, b.constraints)).toHaveLength(
+      1,
+    );
+  });
+
+  it("lists trees whose rules or spend differ", () => {
+    const a = set(trees);
+    const b = set(trees);
+    a.rules.set(classTree, [{ op: "AT_MOST", nodeIds: [1, 2], count: 1 }]);
+    b.rules.set(classTree, [{ count: 1, nodeIds: [1, 2], op: "AT_MOST" }]);
+    b.spend.set(specTree, { rows: [] });
+    expect(diffTreeSettings(trees, a, b)).toEqual([]);
+
+    b.spend.set(specTree, { total: 0 });
+    a.rules.set(specTree, [{ op: "TALENT_SELECTED", nodeId: 5 }]);
+    expect(
+      diffTreeSettings(trees, a, b).map((d) => [d.tree.type, d.setting]),
+    ).toEqual([
+      ["spec", "rules"],
+      ["spec", "spend"],
+    ]);
+  });
+
+  it("counts a set across trees", () => {
+    expect(countConstraintSet(trees, set(trees))).toBe(12n);
+    expect(
+      countConstraintSet(trees, set(trees, { nodeId: 1, type: "always" })),
+    ).toBe(6n);
+  });
+
+  it("counts with the set's own rules rather than the tree's", () => {
+    classTree.rules = [{ op: "AT_MOST", nodeIds: [1, 2, 3, 4], count: 0 }];
+    const ruled = set(trees);
+    ruled.rules.set(classTree, [{ op: "AT_MOST", nodeIds: [1, 2], count: 1 }]);
+    try {
+      expect(countConstraintSet(trees, ruled)).toBe(10n);
+    } finally {
+      delete classTree.rules;
+    }
+  });
+});
@@ -0,0 +1,18 @@
+import { defineConfig } from "vite";
+import { resolve } from "path";
+
+// Headless CLI bundle: plain Node, no Electron runtime.
+export default defineConfig({
+  build: {
+    ssr: resolve(__dirname, "src/cli/cli.ts"),
+    outDir: "out/cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        format: "cjs",
+        entryFileNames: "cli.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});